@@ -3,6 +3,19 @@
 
 import { CDPSession } from "@/shared/types";
 
+export type CDPEventListener = (
+  tabId: number,
+  method: string,
+  params: unknown
+) => void;
+
+// Attach to out-of-process iframes as flat child sessions of the tab
+const AUTO_ATTACH_PARAMS = {
+  autoAttach: true,
+  waitForDebuggerOnStart: false,
+  flatten: true,
+};
+
 interface PendingCommand {
   resolve: (result: unknown) => void;
   reject: (error: Error) => void;
@@ -18,9 +31,13 @@ export class CDPManager {
   private readonly sessionCleanupIntervalMs = 300000; // 5 minutes
   private readonly sessionInactivityTimeoutMs = 600000; // 10 minutes
   private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
+  private eventListeners: CDPEventListener[] = [];
+  // Child session ids of out-of-process iframes, keyed by frame id, per tab
+  private frameSessions = new Map<number, Map<string, string>>();
+  private readonly frameSessionTimeoutMs = 2000;
 
   // Base CDP domains for web automation
-  private readonly baseDomains = ["Page", "DOM", "Runtime"];
+  private readonly baseDomains = ["Page", "DOM", "Runtime", "Log"];
 
   // Additional domains for specific operations
   private readonly inputDomains = ["Input"];
@@ -122,6 +139,7 @@ export class CDPManager {
 
       // Remove session
       this.sessions.delete(tabId);
+      this.frameSessions.delete(tabId);
 
       console.log(`[CDPManager] Successfully detached from tab ${tabId}`);
     } catch (error) {
@@ -133,12 +151,14 @@ export class CDPManager {
   }
 
   /**
-   * Send a CDP command to a tab
+   * Send a CDP command to a tab, or to one of its out-of-process iframes
+   * when a child session id from getFrameSession is given
    */
   public async sendCommand(
     tabId: number,
     method: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    sessionId?: string
   ): Promise<unknown> {
     const session = this.sessions.get(tabId);
     if (!session?.attached) {
@@ -172,8 +192,11 @@ export class CDPManager {
         timeoutId,
       });
 
-      // Send command
-      chrome.debugger.sendCommand({ tabId }, method, params || {}, (result) => {
+      // Send command (sessionId is supported by Chrome but not yet typed)
+      const target = (
+        sessionId ? { tabId, sessionId } : { tabId }
+      ) as chrome.debugger.Debuggee;
+      chrome.debugger.sendCommand(target, method, params || {}, (result) => {
         const pendingCommand = this.pendingCommands.get(commandId);
         if (!pendingCommand) {
           return; // Command already timed out
@@ -191,6 +214,82 @@ export class CDPManager {
     });
   }
 
+  /**
+   * Enable an additional CDP domain on an attached tab
+   */
+  public async enableDomain(tabId: number, domain: string): Promise<void> {
+    const session = this.sessions.get(tabId);
+    if (!session?.attached) {
+      throw new Error(`CDP session not attached to tab ${tabId}`);
+    }
+
+    if (session.domains.has(domain)) {
+      return;
+    }
+
+    await this.sendCommand(tabId, `${domain}.enable`);
+    session.domains.add(domain);
+    console.log(`[CDPManager] Enabled ${domain} domain for tab ${tabId}`);
+  }
+
+  /**
+   * Disable a CDP domain previously enabled with enableDomain
+   */
+  public async disableDomain(tabId: number, domain: string): Promise<void> {
+    const session = this.sessions.get(tabId);
+    if (!session?.attached || !session.domains.has(domain)) {
+      return;
+    }
+
+    await this.sendCommand(tabId, `${domain}.disable`);
+    session.domains.delete(domain);
+    console.log(`[CDPManager] Disabled ${domain} domain for tab ${tabId}`);
+  }
+
+  /**
+   * Get the child session of an out-of-process (usually cross-origin)
+   * iframe. Same-process frames are reachable from the tab session itself.
+   */
+  public async getFrameSession(
+    tabId: number,
+    frameId: string
+  ): Promise<string> {
+    let sessions = this.frameSessions.get(tabId);
+    if (!sessions) {
+      sessions = new Map();
+      this.frameSessions.set(tabId, sessions);
+      await this.sendCommand(tabId, "Target.setAutoAttach", AUTO_ATTACH_PARAMS);
+    }
+
+    // Existing frames are reported shortly after auto-attach is enabled
+    const deadline = Date.now() + this.frameSessionTimeoutMs;
+    while (!sessions.has(frameId)) {
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Frame ${frameId} is not reachable: no debugger session attached to it`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    return sessions.get(frameId)!;
+  }
+
+  /**
+   * Subscribe to CDP events from all attached tabs
+   */
+  public addEventListener(listener: CDPEventListener): void {
+    this.eventListeners.push(listener);
+  }
+
+  /**
+   * Unsubscribe a listener added with addEventListener
+   */
+  public removeEventListener(listener: CDPEventListener): void {
+    this.eventListeners = this.eventListeners.filter(
+      (existing) => existing !== listener
+    );
+  }
+
   /**
    * Check if attached to a tab
    */
@@ -199,6 +298,14 @@ export class CDPManager {
     return session?.attached === true;
   }
 
+  /**
+   * Check if a domain is enabled on an attached tab
+   */
+  public isDomainEnabled(tabId: number, domain: string): boolean {
+    const session = this.sessions.get(tabId);
+    return session?.attached === true && session.domains.has(domain);
+  }
+
   /**
    * Get session information for a tab
    */
@@ -300,6 +407,50 @@ export class CDPManager {
     this.pendingCommands.clear();
   }
 
+  /**
+   * Keep the frame id to child session map current as iframes come and go
+   */
+  private trackFrameSessions(
+    tabId: number,
+    method: string,
+    params: unknown
+  ): void {
+    const sessions = this.frameSessions.get(tabId);
+    if (!sessions) {
+      return;
+    }
+
+    const event = params as {
+      sessionId: string;
+      targetInfo?: { targetId: string; type: string };
+    };
+
+    if (
+      method === "Target.attachedToTarget" &&
+      event.targetInfo?.type === "iframe"
+    ) {
+      sessions.set(event.targetInfo.targetId, event.sessionId);
+      // Frames nested in this one attach through its own session
+      this.sendCommand(
+        tabId,
+        "Target.setAutoAttach",
+        AUTO_ATTACH_PARAMS,
+        event.sessionId
+      ).catch((error) => {
+        console.warn(
+          `[CDPManager] Could not auto-attach inside frame ${event.targetInfo?.targetId}:`,
+          error
+        );
+      });
+    } else if (method === "Target.detachedFromTarget") {
+      for (const [frameId, sessionId] of sessions) {
+        if (sessionId === event.sessionId) {
+          sessions.delete(frameId);
+        }
+      }
+    }
+  }
+
   /**
    * Start periodic cleanup of inactive sessions
    */
@@ -350,6 +501,7 @@ export class CDPManager {
       if (session?.attached) {
         console.log(`[CDPManager] Tab ${tabId} removed, cleaning up session`);
         this.sessions.delete(tabId);
+        this.frameSessions.delete(tabId);
         this.cancelPendingCommandsForTab(tabId);
       }
     });
@@ -364,21 +516,29 @@ export class CDPManager {
           );
           session.attached = false;
           this.sessions.delete(source.tabId);
+          this.frameSessions.delete(source.tabId);
           this.cancelPendingCommandsForTab(source.tabId);
         }
       }
     });
 
-    // Handle CDP events (for future use)
-    chrome.debugger.onEvent.addListener((source, method) => {
+    // Forward CDP events to subscribers (e.g. the network recorder)
+    chrome.debugger.onEvent.addListener((source, method, params) => {
       if (source.tabId) {
         const session = this.sessions.get(source.tabId);
         if (session) {
           session.lastActivity = Date.now();
-          // Future: Handle specific CDP events if needed
-          console.debug(
-            `[CDPManager] CDP event from tab ${source.tabId}: ${method}`
-          );
+          this.trackFrameSessions(source.tabId, method, params);
+          for (const listener of this.eventListeners) {
+            try {
+              listener(source.tabId, method, params);
+            } catch (error) {
+              console.error(
+                `[CDPManager] Error handling CDP event ${method}:`,
+                error
+              );
+            }
+          }
         }
       }
     });
@@ -0,0 +1,230 @@
+// Console and exception recorder
+// Keeps a bounded buffer of console output per attached tab
+
+import {
+  CONSOLE_BUFFER_SIZE,
+  ConsoleEntry,
+  ConsoleLevel,
+} from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+
+export interface ConsoleFilter {
+  level?: ConsoleLevel;
+  since?: number;
+  limit?: number;
+}
+
+interface TabConsole {
+  nextSeq: number;
+  entries: ConsoleEntry[];
+}
+
+interface RemoteObject {
+  type: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+}
+
+interface StackTrace {
+  callFrames: {
+    functionName: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+  }[];
+}
+
+const LEVEL_ORDER: ConsoleLevel[] = ["debug", "info", "warning", "error"];
+const MAX_STACK_FRAMES = 5;
+
+/**
+ * Map console API call types and Log entry levels to our levels
+ */
+function toLevel(type: string): ConsoleLevel {
+  switch (type) {
+    case "error":
+    case "assert":
+      return "error";
+    case "warning":
+      return "warning";
+    case "debug":
+    case "verbose":
+      return "debug";
+    default:
+      return "info";
+  }
+}
+
+function formatArg(arg: RemoteObject): string {
+  if (arg.type === "string") {
+    return String(arg.value);
+  }
+  if (arg.unserializableValue) {
+    return arg.unserializableValue;
+  }
+  if (arg.value !== undefined) {
+    return JSON.stringify(arg.value);
+  }
+  return arg.description || arg.type;
+}
+
+function formatStack(stackTrace?: StackTrace): string | undefined {
+  if (!stackTrace?.callFrames.length) {
+    return undefined;
+  }
+  return stackTrace.callFrames
+    .slice(0, MAX_STACK_FRAMES)
+    .map(
+      (frame) =>
+        `at ${frame.functionName || "<anonymous>"} (${frame.url}:${
+          frame.lineNumber + 1
+        }:${frame.columnNumber + 1})`
+    )
+    .join("\n");
+}
+
+export class ConsoleRecorder {
+  private tabs = new Map<number, TabConsole>();
+
+  constructor() {
+    cdpManager.addEventListener(this.handleEvent.bind(this));
+
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.tabs.delete(tabId);
+    });
+  }
+
+  /**
+   * Attach to a tab so its console output is captured from now on.
+   * Output logged before the first attach is not available.
+   */
+  public async startCapture(tabId: number): Promise<void> {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId);
+    }
+  }
+
+  /**
+   * Cursor of the newest entry for a tab (0 when nothing was recorded)
+   */
+  public getCursor(tabId: number): number {
+    const tab = this.tabs.get(tabId);
+    return tab ? tab.nextSeq - 1 : 0;
+  }
+
+  /**
+   * List entries newer than the cursor at or above the given level, oldest
+   * first. The returned cursor picks up where this page of results ends.
+   */
+  public list(
+    tabId: number,
+    filter: ConsoleFilter = {}
+  ): { entries: ConsoleEntry[]; cursor: number } {
+    const tab = this.tabs.get(tabId);
+    if (!tab) {
+      return { entries: [], cursor: 0 };
+    }
+
+    const minLevel = LEVEL_ORDER.indexOf(filter.level || "debug");
+    const since = filter.since ?? 0;
+    const limit = filter.limit || 100;
+    const matching = tab.entries.filter(
+      (entry) =>
+        entry.seq > since && LEVEL_ORDER.indexOf(entry.level) >= minLevel
+    );
+    const entries = matching.slice(0, limit);
+
+    return {
+      entries,
+      cursor:
+        matching.length > limit
+          ? entries[entries.length - 1].seq
+          : this.getCursor(tabId),
+    };
+  }
+
+  private record(tabId: number, entry: Omit<ConsoleEntry, "seq">): void {
+    let tab = this.tabs.get(tabId);
+    if (!tab) {
+      tab = { nextSeq: 1, entries: [] };
+      this.tabs.set(tabId, tab);
+    }
+
+    tab.entries.push({ seq: tab.nextSeq++, ...entry });
+    if (tab.entries.length > CONSOLE_BUFFER_SIZE) {
+      tab.entries.splice(0, tab.entries.length - CONSOLE_BUFFER_SIZE);
+    }
+  }
+
+  private handleEvent(tabId: number, method: string, params: unknown): void {
+    const event = params as Record<string, unknown>;
+
+    switch (method) {
+      case "Runtime.consoleAPICalled": {
+        const args = (event.args as RemoteObject[]) || [];
+        const stackTrace = event.stackTrace as StackTrace | undefined;
+        const topFrame = stackTrace?.callFrames[0];
+        this.record(tabId, {
+          level: toLevel(event.type as string),
+          source: "console",
+          text: args.map(formatArg).join(" "),
+          timestamp: (event.timestamp as number) || Date.now(),
+          url: topFrame?.url || undefined,
+          lineNumber: topFrame ? topFrame.lineNumber + 1 : undefined,
+          stack:
+            event.type === "error" || event.type === "trace"
+              ? formatStack(stackTrace)
+              : undefined,
+        });
+        break;
+      }
+
+      case "Runtime.exceptionThrown": {
+        const details = event.exceptionDetails as {
+          text: string;
+          url?: string;
+          lineNumber?: number;
+          exception?: RemoteObject;
+          stackTrace?: StackTrace;
+        };
+        this.record(tabId, {
+          level: "error",
+          source: "exception",
+          text: details.exception?.description || details.text,
+          timestamp: (event.timestamp as number) || Date.now(),
+          url: details.url,
+          lineNumber:
+            details.lineNumber !== undefined
+              ? details.lineNumber + 1
+              : undefined,
+          stack: formatStack(details.stackTrace),
+        });
+        break;
+      }
+
+      case "Log.entryAdded": {
+        const entry = event.entry as {
+          level: string;
+          text: string;
+          timestamp: number;
+          url?: string;
+          lineNumber?: number;
+        };
+        this.record(tabId, {
+          level: toLevel(entry.level),
+          source: "log",
+          text: entry.text,
+          timestamp: entry.timestamp || Date.now(),
+          url: entry.url,
+          lineNumber:
+            entry.lineNumber !== undefined ? entry.lineNumber + 1 : undefined,
+        });
+        break;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const consoleRecorder = new ConsoleRecorder();
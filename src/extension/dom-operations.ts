@@ -1,22 +1,49 @@
 // DOM interaction operations using Chrome DevTools Protocol
 // Provides click, type, and wait functionality
 
+import { FormControlKind, FormFieldResult, Locator } from "@/shared/types";
 import { cdpManager } from "./cdp-manager";
+import { elementRefs } from "./element-refs";
+import {
+  describeLocator,
+  isAmbiguousLocatorError,
+  resolveLocator,
+} from "./locator-engine";
+import {
+  ResolvedNode,
+  parseSelector,
+  resolveSelector,
+} from "./selector-engine";
 
-export interface ClickOptions {
-  selector: string;
+/**
+ * An element addressed by selector, by a page_snapshot reference or by a
+ * locator. Selectors are CSS extended with ">>>" to enter shadow roots and
+ * "frame=<css> >> <css>" to match inside iframes.
+ */
+export interface ElementTarget {
+  selector?: string;
+  ref?: string;
+  locator?: Locator;
+  // Number of a box in the latest annotated screenshot
+  mark?: number;
+}
+
+export interface ClickOptions extends ElementTarget {
+  button?: "left" | "right" | "middle";
+  // 2 for a double click
+  clickCount?: number;
+  timeout_ms?: number;
   tabId?: number;
 }
 
-export interface TypeTextOptions {
-  selector: string;
+export interface TypeTextOptions extends ElementTarget {
   text: string;
   submit?: boolean;
+  timeout_ms?: number;
   tabId?: number;
 }
 
-export interface WaitForOptions {
-  selector: string;
+export interface WaitForOptions extends ElementTarget {
   timeout_ms?: number;
   tabId?: number;
 }
@@ -24,6 +51,12 @@ export interface WaitForOptions {
 export interface ElementInfo {
   nodeId: number;
   backendNodeId: number;
+  // Child session when the element lives in an out-of-process iframe
+  sessionId?: string;
+  // CSS selector that matched when the element was found by locator
+  selector?: string;
+  // Position of the element's out-of-process iframe in the tab viewport
+  offset?: { x: number; y: number };
   objectId?: string;
   boundingBox?: {
     x: number;
@@ -35,6 +68,11 @@ export interface ElementInfo {
 
 export interface ReadTextOptions {
   selector?: string;
+  format?: "text" | "markdown" | "html";
+  // Keep only the main content, without navigation, footers and ads
+  reader?: boolean;
+  // Render links and images with their URLs in markdown
+  includeLinks?: boolean;
   tabId?: number;
 }
 
@@ -44,14 +82,66 @@ export interface ReadDomOptions {
 }
 
 export interface EvalJsOptions {
+  // Function body; the arguments are in `args`
   code: string;
+  args?: unknown[];
+  world?: "isolated" | "main";
+  awaitPromise?: boolean;
+  maxResultChars?: number;
   tabId?: number;
 }
 
+export interface EvalJsResult {
+  result: unknown;
+  // The result's JSON was cut to maxResultChars and returned as a string
+  truncated?: boolean;
+  resultChars?: number;
+}
+
+// Characters of result JSON eval_js returns when the caller gives no limit
+const EVAL_JS_MAX_RESULT_CHARS = 20000;
+
+// Isolated worlds share the page's DOM but not its JavaScript globals
+const EVAL_JS_WORLD_NAME = "browser-pilot-eval";
+
+// Object group of the main world's global object handle, released after
+// each call
+const EVAL_JS_OBJECT_GROUP = "browser-pilot-eval";
+
+// Isolated world context of each tab, for the main-frame document
+// (loader) it was created in
+const isolatedWorlds = new Map<
+  number,
+  { loaderId: string; executionContextId: number }
+>();
+
+// Forget a tab's isolated world once its context or document goes away
+cdpManager.addEventListener((tabId, method, params) => {
+  const world = isolatedWorlds.get(tabId);
+  if (!world) {
+    return;
+  }
+
+  const event = params as Record<string, unknown>;
+  if (
+    method === "Runtime.executionContextsCleared" ||
+    (method === "Runtime.executionContextDestroyed" &&
+      event.executionContextId === world.executionContextId) ||
+    (method === "Page.frameNavigated" &&
+      !(event.frame as { parentId?: string }).parentId)
+  ) {
+    isolatedWorlds.delete(tabId);
+  }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  isolatedWorlds.delete(tabId);
+});
+
 /**
  * Get the active tab ID if not specified
  */
-async function getActiveTabId(specifiedTabId?: number): Promise<number> {
+export async function getActiveTabId(specifiedTabId?: number): Promise<number> {
   if (specifiedTabId) {
     return specifiedTabId;
   }
@@ -70,36 +160,141 @@ async function getActiveTabId(specifiedTabId?: number): Promise<number> {
 }
 
 /**
- * Find an element using CSS selector and return its information
+ * Describe an element target for log and error messages
  */
-async function findElement(
-  tabId: number,
-  selector: string
-): Promise<ElementInfo> {
+export function describeTarget(target: ElementTarget): string {
+  if (target.mark !== undefined) {
+    return `mark=${target.mark}`;
+  }
+  if (target.ref) {
+    return `ref=${target.ref}`;
+  }
+  if (target.locator) {
+    return describeLocator(target.locator);
+  }
+  return target.selector || "";
+}
+
+/**
+ * Whether an error means the target will not resolve to a single element
+ * by waiting: a dead page_snapshot reference or an ambiguous locator
+ */
+function isUnresolvableError(error: unknown): boolean {
+  return (
+    (error instanceof Error &&
+      /(Stale|Unknown) (reference|mark)/.test(error.message)) ||
+    isAmbiguousLocatorError(error)
+  );
+}
+
+/**
+ * Resolve a page_snapshot reference to a DOM node id. The document must
+ * have been requested with DOM.getDocument first.
+ */
+async function resolveElementRef(tabId: number, ref: string): Promise<number> {
+  const backendNodeId = elementRefs.lookup(tabId, ref);
+  if (backendNodeId === undefined) {
+    throw new Error(
+      `Unknown reference ${ref}: take a page_snapshot of this tab first`
+    );
+  }
+
+  let nodeIds: number[] = [];
   try {
-    // Get the document root
-    const documentResult = (await cdpManager.sendCommand(
+    const pushResult = (await cdpManager.sendCommand(
       tabId,
-      "DOM.getDocument",
+      "DOM.pushNodesByBackendIdsToFrontend",
       {
+        backendNodeIds: [backendNodeId],
+      }
+    )) as { nodeIds: number[] };
+    nodeIds = pushResult.nodeIds;
+  } catch (error) {
+    // The backend node is gone entirely
+  }
+
+  // Nodes that were removed from the document resolve to 0
+  if (!nodeIds[0]) {
+    throw new Error(
+      `Stale reference ${ref}: the element is no longer in the page, take a new page_snapshot`
+    );
+  }
+
+  return nodeIds[0];
+}
+
+/**
+ * Resolve a mark of the latest annotated screenshot to a DOM node id
+ */
+async function resolveElementMark(
+  tabId: number,
+  mark: number
+): Promise<number> {
+  const ref = elementRefs.lookupMark(tabId, mark);
+  if (ref === undefined) {
+    throw new Error(
+      `Unknown mark ${mark}: take a screenshot_annotated of this tab first`
+    );
+  }
+
+  try {
+    return await resolveElementRef(tabId, ref);
+  } catch (error) {
+    throw new Error(
+      `Stale mark ${mark}: the element is no longer in the page, take a new screenshot_annotated`
+    );
+  }
+}
+
+/**
+ * Find an element by CSS selector, snapshot reference, locator or mark and return its information
+ */
+export async function findElement(
+  tabId: number,
+  target: ElementTarget
+): Promise<ElementInfo> {
+  const description = describeTarget(target);
+
+  try {
+    let node: ResolvedNode;
+    let matchedSelector: string | undefined;
+    if (target.ref) {
+      // The document must be requested before pushing backend nodes
+      await cdpManager.sendCommand(tabId, "DOM.getDocument", {
         depth: 0,
         pierce: false,
+      });
+      node = {
+        nodeId: await resolveElementRef(tabId, target.ref),
+        offset: { x: 0, y: 0 },
+      };
+    } else if (target.mark !== undefined) {
+      await cdpManager.sendCommand(tabId, "DOM.getDocument", {
+        depth: 0,
+        pierce: false,
+      });
+      node = {
+        nodeId: await resolveElementMark(tabId, target.mark),
+        offset: { x: 0, y: 0 },
+      };
+    } else if (target.selector) {
+      const resolved = await resolveSelector(tabId, target.selector);
+      if (!resolved) {
+        throw new Error(`Element not found: ${target.selector}`);
       }
-    )) as { root: { nodeId: number } };
-
-    // Query for the element
-    const queryResult = (await cdpManager.sendCommand(
-      tabId,
-      "DOM.querySelector",
-      {
-        nodeId: documentResult.root.nodeId,
-        selector: selector,
+      node = resolved;
+    } else if (target.locator) {
+      const match = await resolveLocator(tabId, target.locator);
+      const resolved = match && (await resolveSelector(tabId, match.selector));
+      if (!resolved) {
+        throw new Error(`Element not found: ${description}`);
       }
-    )) as { nodeId: number };
-
-    if (queryResult.nodeId === 0) {
-      throw new Error(`Element not found: ${selector}`);
+      node = resolved;
+      matchedSelector = match.selector;
+    } else {
+      throw new Error("Either selector, ref, locator or mark is required");
     }
+    const { nodeId, sessionId } = node;
 
     // Get element box model for positioning
     let boundingBox;
@@ -108,8 +303,9 @@ async function findElement(
         tabId,
         "DOM.getBoxModel",
         {
-          nodeId: queryResult.nodeId,
-        }
+          nodeId,
+        },
+        sessionId
       )) as { model: { border: number[] } };
 
       if (boxModelResult.model?.border) {
@@ -121,9 +317,10 @@ async function findElement(
         const maxX = Math.max(border[0], border[2], border[4], border[6]);
         const maxY = Math.max(border[1], border[3], border[5], border[7]);
 
+        // Out-of-process frames measure from their own origin
         boundingBox = {
-          x,
-          y,
+          x: x + node.offset.x,
+          y: y + node.offset.y,
           width: maxX - x,
           height: maxY - y,
         };
@@ -140,24 +337,275 @@ async function findElement(
       tabId,
       "DOM.describeNode",
       {
-        nodeId: queryResult.nodeId,
-      }
+        nodeId,
+      },
+      sessionId
     )) as { node: { backendNodeId: number } };
 
     return {
-      nodeId: queryResult.nodeId,
+      nodeId,
       backendNodeId: backendNodeResult.node.backendNodeId,
+      sessionId,
+      selector: matchedSelector,
+      offset: node.offset,
       boundingBox,
     };
   } catch (error) {
-    throw new Error(`Failed to find element "${selector}": ${error}`);
+    if (isUnresolvableError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to find element "${description}": ${error}`);
+  }
+}
+
+/**
+ * Call a function with the element as `this`, in the execution context of
+ * the frame the element belongs to, and return its (awaited) result by value
+ */
+export async function callOnNode(
+  tabId: number,
+  node: { nodeId: number; sessionId?: string },
+  functionDeclaration: string,
+  args: { objectId?: string; value?: unknown }[] = []
+): Promise<unknown> {
+  const { object } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.resolveNode",
+    { nodeId: node.nodeId },
+    node.sessionId
+  )) as { object: { objectId: string } };
+
+  const result = (await cdpManager.sendCommand(
+    tabId,
+    "Runtime.callFunctionOn",
+    {
+      objectId: object.objectId,
+      functionDeclaration,
+      arguments: args,
+      returnByValue: true,
+      awaitPromise: true,
+    },
+    node.sessionId
+  )) as {
+    result: { value?: unknown };
+    exceptionDetails?: {
+      text: string;
+      exception?: { description: string };
+    };
+  };
+
+  if (result.exceptionDetails) {
+    throw new Error(
+      result.exceptionDetails.exception?.description ||
+        result.exceptionDetails.text
+    );
+  }
+  return result.result.value;
+}
+
+// Interval between actionability checks
+const ACTIONABILITY_POLL_MS = 100;
+
+// Short tag, id and class summary of a node, e.g. <div.modal>
+const DESCRIBE_NODE = `function describeNode(node) {
+  const el = node.nodeType === 1 ? node : node.parentElement;
+  if (!el) return 'another element';
+  const id = el.id ? '#' + el.id : '';
+  const classes = typeof el.className === 'string' && el.className.trim()
+    ? '.' + el.className.trim().split(/\\s+/).slice(0, 2).join('.')
+    : '';
+  return '<' + el.tagName.toLowerCase() + id + classes + '>';
+}`;
+
+// Runs on the element; the box must stay put across two animation frames
+// (or 100ms in a throttled background tab) to count as stable
+const ELEMENT_STATE_FUNCTION = `async function() {
+  const box = () => {
+    const rect = this.getBoundingClientRect();
+    return [rect.x, rect.y, rect.width, rect.height].join(',');
+  };
+  const before = box();
+  await new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(resolve));
+    setTimeout(resolve, 100);
+  });
+
+  const style = getComputedStyle(this);
+  const disabled =
+    this.disabled === true ||
+    this.getAttribute('aria-disabled') === 'true' ||
+    !!this.closest('fieldset[disabled]');
+  const editable = this.isContentEditable ||
+    (['INPUT', 'TEXTAREA', 'SELECT'].includes(this.tagName) && !this.readOnly);
+
+  return {
+    visible: this.getClientRects().length > 0 && style.visibility !== 'hidden',
+    enabled: !disabled,
+    editable,
+    stable: box() === before,
+  };
+}`;
+
+/**
+ * Hit-test a viewport point and describe the element that would receive
+ * the click, or return null when it lands on the target or inside it
+ */
+async function findCoveringElement(
+  tabId: number,
+  element: ElementInfo,
+  point: { x: number; y: number }
+): Promise<string | null> {
+  // Out-of-process frames hit-test in their own coordinates
+  const offset = element.offset || { x: 0, y: 0 };
+  const { backendNodeId } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.getNodeForLocation",
+    {
+      x: Math.round(point.x - offset.x),
+      y: Math.round(point.y - offset.y),
+      includeUserAgentShadowDOM: false,
+      ignorePointerEventsNone: false,
+    },
+    element.sessionId
+  )) as { backendNodeId: number };
+
+  if (backendNodeId === element.backendNodeId) {
+    return null;
+  }
+
+  const { object } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.resolveNode",
+    { backendNodeId },
+    element.sessionId
+  )) as { object: { objectId: string } };
+
+  try {
+    // Walk up from the hit node, crossing shadow roots, looking for the target
+    return (await callOnNode(
+      tabId,
+      element,
+      `function(hit) {
+        for (let node = hit; node; node = node.parentNode || node.host) {
+          if (node === this) return null;
+        }
+        return (${DESCRIBE_NODE})(hit);
+      }`,
+      [{ objectId: object.objectId }]
+    )) as string | null;
+  } catch (error) {
+    // The hit node lives in another frame, so it cannot be the target
+    return "an element in another frame";
+  }
+}
+
+/**
+ * Check whether an element can receive pointer input right now. Scrolls it
+ * into view and returns the viewport point at its center, or the reason it
+ * is not actionable yet.
+ */
+async function checkActionable(
+  tabId: number,
+  element: ElementInfo,
+  requireEditable: boolean
+): Promise<{ point?: { x: number; y: number }; reason?: string }> {
+  try {
+    await cdpManager.sendCommand(
+      tabId,
+      "DOM.scrollIntoViewIfNeeded",
+      { nodeId: element.nodeId },
+      element.sessionId
+    );
+  } catch (error) {
+    // Elements without a layout box cannot be scrolled to
+    return { reason: "element is not visible" };
+  }
+
+  const state = (await callOnNode(tabId, element, ELEMENT_STATE_FUNCTION)) as {
+    visible: boolean;
+    enabled: boolean;
+    editable: boolean;
+    stable: boolean;
+  };
+  if (!state.visible) {
+    return { reason: "element is not visible" };
+  }
+  if (!state.enabled) {
+    return { reason: "element is disabled" };
+  }
+  if (requireEditable && !state.editable) {
+    return { reason: "element is not editable" };
+  }
+  if (!state.stable) {
+    return { reason: "element is still moving" };
+  }
+
+  // Content quads are in viewport coordinates, unlike the box model
+  const { quads } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.getContentQuads",
+    { nodeId: element.nodeId },
+    element.sessionId
+  )) as { quads: number[][] };
+  if (!quads?.length) {
+    return { reason: "element is not visible" };
+  }
+
+  const [quad] = quads;
+  const offset = element.offset || { x: 0, y: 0 };
+  const point = {
+    x: (quad[0] + quad[2] + quad[4] + quad[6]) / 4 + offset.x,
+    y: (quad[1] + quad[3] + quad[5] + quad[7]) / 4 + offset.y,
+  };
+
+  const coveredBy = await findCoveringElement(tabId, element, point);
+  if (coveredBy) {
+    return { reason: `covered by ${coveredBy}` };
+  }
+  return { point };
+}
+
+/**
+ * Wait until the target is visible, enabled, stable and not covered,
+ * re-finding it on every attempt so re-renders are tolerated
+ */
+export async function waitForActionable(
+  tabId: number,
+  target: ElementTarget,
+  timeoutMs: number,
+  requireEditable: boolean = false
+): Promise<{ element: ElementInfo; point: { x: number; y: number } }> {
+  const startTime = Date.now();
+  let reason = "element not found";
+
+  for (;;) {
+    try {
+      const element = await findElement(tabId, target);
+      const result = await checkActionable(tabId, element, requireEditable);
+      if (result.point) {
+        return { element, point: result.point };
+      }
+      reason = result.reason || reason;
+    } catch (error) {
+      if (isUnresolvableError(error)) {
+        throw error;
+      }
+      reason = "element not found";
+    }
+
+    if (Date.now() - startTime >= timeoutMs) {
+      throw new Error(`${reason} (waited ${timeoutMs}ms)`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, ACTIONABILITY_POLL_MS));
   }
 }
 
 /**
  * Click on an element using CDP
  */
-export async function clickElement(options: ClickOptions): Promise<void> {
+export async function clickElement(
+  options: ClickOptions
+): Promise<ElementInfo> {
   const tabId = await getActiveTabId(options.tabId);
 
   try {
@@ -166,71 +614,60 @@ export async function clickElement(options: ClickOptions): Promise<void> {
       await cdpManager.attachToTab(tabId, true);
     }
 
-    // Find the element
-    const element = await findElement(tabId, options.selector);
+    // Wait until the element can be clicked at its center
+    const { element, point } = await waitForActionable(
+      tabId,
+      options,
+      options.timeout_ms || 5000
+    );
 
-    if (element.boundingBox) {
-      // Use precise mouse event if we have bounding box
-      const centerX = element.boundingBox.x + element.boundingBox.width / 2;
-      const centerY = element.boundingBox.y + element.boundingBox.height / 2;
+    // Dispatch mouse events for a complete click
+    const button = options.button || "left";
+    const clickCount = options.clickCount || 1;
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: point.x,
+      y: point.y,
+    });
 
-      // Dispatch mouse events for a complete click
+    // Each press of a double click reports its running count, which is
+    // what makes the page fire dblclick
+    for (let count = 1; count <= clickCount; count++) {
       await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
         type: "mousePressed",
-        x: centerX,
-        y: centerY,
-        button: "left",
-        clickCount: 1,
+        x: point.x,
+        y: point.y,
+        button,
+        clickCount: count,
       });
 
       await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
         type: "mouseReleased",
-        x: centerX,
-        y: centerY,
-        button: "left",
-        clickCount: 1,
-      });
-
-      console.log(
-        `[DOMOperations] Clicked element "${options.selector}" at (${centerX}, ${centerY})`
-      );
-    } else {
-      // Fallback: Use DOM.focus and simulate click via JavaScript
-      await cdpManager.sendCommand(tabId, "DOM.focus", {
-        nodeId: element.nodeId,
+        x: point.x,
+        y: point.y,
+        button,
+        clickCount: count,
       });
+    }
 
-      // Simulate click event via JavaScript
-      await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
-        expression: `
-          (function() {
-            const element = document.querySelector('${options.selector.replace(
-              /'/g,
-              "\\'"
-            )}');
-            if (element) {
-              element.click();
-              return true;
-            }
-            return false;
-          })()
-        `,
-        returnByValue: true,
-      });
+    console.log(
+      `[DOMOperations] Clicked element "${describeTarget(
+        options
+      )}" with ${button} button x${clickCount} at (${point.x}, ${point.y})`
+    );
 
-      console.log(
-        `[DOMOperations] Clicked element "${options.selector}" using fallback method`
-      );
-    }
+    return element;
   } catch (error) {
-    throw new Error(`Failed to click element "${options.selector}": ${error}`);
+    throw new Error(
+      `Failed to click element "${describeTarget(options)}": ${error}`
+    );
   }
 }
 
 /**
  * Type text into an element
  */
-export async function typeText(options: TypeTextOptions): Promise<void> {
+export async function typeText(options: TypeTextOptions): Promise<ElementInfo> {
   const tabId = await getActiveTabId(options.tabId);
 
   try {
@@ -239,13 +676,21 @@ export async function typeText(options: TypeTextOptions): Promise<void> {
       await cdpManager.attachToTab(tabId, true);
     }
 
-    // Find the element
-    const element = await findElement(tabId, options.selector);
+    // Wait until the element can take input
+    const { element } = await waitForActionable(
+      tabId,
+      options,
+      options.timeout_ms || 5000,
+      true
+    );
 
     // Focus the element first
-    await cdpManager.sendCommand(tabId, "DOM.focus", {
-      nodeId: element.nodeId,
-    });
+    await cdpManager.sendCommand(
+      tabId,
+      "DOM.focus",
+      { nodeId: element.nodeId },
+      element.sessionId
+    );
 
     // Clear existing content by selecting all and then typing
     await cdpManager.sendCommand(tabId, "Input.dispatchKeyEvent", {
@@ -271,7 +716,7 @@ export async function typeText(options: TypeTextOptions): Promise<void> {
     }
 
     console.log(
-      `[DOMOperations] Typed text into element "${options.selector}"`
+      `[DOMOperations] Typed text into element "${describeTarget(options)}"`
     );
 
     // Submit form if requested
@@ -290,21 +735,305 @@ export async function typeText(options: TypeTextOptions): Promise<void> {
 
       console.log(`[DOMOperations] Submitted form after typing`);
     }
+
+    return element;
   } catch (error) {
     throw new Error(
-      `Failed to type text into element "${options.selector}": ${error}`
+      `Failed to type text into element "${describeTarget(options)}": ${error}`
+    );
+  }
+}
+
+/**
+ * One field of a fill_form call
+ */
+export interface FormFieldOptions extends ElementTarget {
+  value: string | boolean | string[];
+}
+
+export interface FillFormOptions {
+  fields: FormFieldOptions[];
+  // Absolute downloadDir path file input values are resolved against
+  fileRoot?: string;
+  timeout_ms?: number;
+  tabId?: number;
+}
+
+// Runs on the field and reports what kind of control it is
+const DETECT_CONTROL_FUNCTION = `function() {
+  const disabled =
+    this.disabled === true || !!this.closest('fieldset[disabled]');
+  if (this.isContentEditable && !['INPUT', 'TEXTAREA'].includes(this.tagName)) {
+    return { kind: 'contenteditable', disabled };
+  }
+  switch (this.tagName) {
+    case 'SELECT':
+      return { kind: 'select', disabled, multiple: this.multiple };
+    case 'TEXTAREA':
+      return { kind: 'text', disabled, readOnly: this.readOnly };
+    case 'INPUT':
+      if (this.type === 'file') return { kind: 'file', disabled, multiple: this.multiple };
+      if (this.type === 'checkbox') return { kind: 'checkbox', disabled };
+      if (this.type === 'radio') return { kind: 'radio', disabled };
+      if (['button', 'submit', 'reset', 'image', 'hidden'].includes(this.type)) {
+        return { kind: null, description: 'input[type=' + this.type + ']' };
+      }
+      return { kind: 'text', disabled, readOnly: this.readOnly };
+    default:
+      return { kind: null, description: this.tagName.toLowerCase() };
+  }
+}`;
+
+// Runs on the field with the value to apply. Values go through the native
+// setters so framework-controlled inputs see the change, then input and
+// change events are dispatched like a user edit would.
+const APPLY_VALUE_FUNCTION = `function(kind, value) {
+  const notify = (el) => {
+    el.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+  };
+  const normalize = (text) => (text || '').replace(/\\s+/g, ' ').trim();
+  const setChecked = (el, checked) => {
+    if (el.checked === checked) return;
+    // A click runs the page's handlers; fall back if one prevents it
+    el.click();
+    if (el.checked !== checked) {
+      el.checked = checked;
+      notify(el);
+    }
+  };
+
+  if (kind === 'select') {
+    const wanted = Array.isArray(value) ? value : [String(value)];
+    if (wanted.length > 1 && !this.multiple) {
+      throw new Error('select does not allow multiple options');
+    }
+    const options = Array.from(this.options);
+    const chosen = wanted.map((item) => {
+      const option =
+        options.find((o) => o.value === item) ||
+        options.find((o) => normalize(o.label) === normalize(item)) ||
+        options.find((o) => normalize(o.label).toLowerCase() === normalize(item).toLowerCase());
+      if (!option) {
+        const available = options.slice(0, 10).map((o) => JSON.stringify(normalize(o.label)));
+        throw new Error('no option ' + JSON.stringify(item) + ' (options: ' + available.join(', ') + ')');
+      }
+      return option;
+    });
+    options.forEach((option) => {
+      option.selected = chosen.includes(option);
+    });
+    notify(this);
+    return chosen.map((option) => normalize(option.label)).join(', ');
+  }
+
+  if (kind === 'checkbox') {
+    const checked = value === true || value === 'true' || value === 'on';
+    if (!checked && value !== false && value !== 'false' && value !== 'off') {
+      throw new Error('checkbox value must be true or false');
+    }
+    setChecked(this, checked);
+    return this.checked ? 'checked' : 'unchecked';
+  }
+
+  if (kind === 'radio') {
+    // true checks this radio; text picks a radio of the same group
+    let radio = this;
+    if (typeof value === 'string' && value !== 'true') {
+      const scope = this.form || this.getRootNode();
+      const group = Array.from(scope.querySelectorAll('input[type=radio]'))
+        .filter((el) => el.name === this.name);
+      const labelOf = (el) => normalize(Array.from(el.labels || []).map((l) => l.textContent).join(' '));
+      radio =
+        group.find((el) => el.value === value) ||
+        group.find((el) => labelOf(el).toLowerCase() === normalize(value).toLowerCase());
+      if (!radio) {
+        throw new Error('no radio ' + JSON.stringify(value) + ' in group ' + JSON.stringify(this.name));
+      }
+    } else if (value === false || value === 'false') {
+      throw new Error('a radio cannot be unchecked; check another radio of the group instead');
+    }
+    setChecked(radio, true);
+    return radio.value;
+  }
+
+  // Text-like inputs, including date and time inputs
+  if (typeof value !== 'string') {
+    throw new Error('value must be a string for ' + (this.type || 'text') + ' fields');
+  }
+  const prototype =
+    this.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value').set.call(this, value);
+  if (this.value !== value) {
+    throw new Error(
+      this.type === 'date'
+        ? 'date must be YYYY-MM-DD'
+        : 'the ' + this.type + ' field rejected the value'
     );
   }
+  notify(this);
+  return undefined;
+}`;
+
+/**
+ * Resolve file names against the download directory, refusing anything
+ * that could point outside of it
+ */
+function resolveUploadPaths(
+  fileRoot: string | undefined,
+  value: FormFieldOptions["value"]
+): string[] {
+  if (!fileRoot) {
+    throw new Error("File uploads need the server's downloadDir");
+  }
+  const names = Array.isArray(value) ? value : [value];
+  return names.map((name) => {
+    if (
+      typeof name !== "string" ||
+      !name ||
+      /^([/\\]|[a-zA-Z]:)/.test(name) ||
+      name.split(/[/\\]/).includes("..")
+    ) {
+      throw new Error(
+        `Invalid file name ${JSON.stringify(name)}: use a path inside downloadDir`
+      );
+    }
+    return `${fileRoot.replace(/[/\\]+$/, "")}/${name}`;
+  });
+}
+
+/**
+ * Fill a single field, reporting the outcome instead of throwing
+ */
+async function fillField(
+  tabId: number,
+  field: FormFieldOptions,
+  options: FillFormOptions
+): Promise<FormFieldResult> {
+  const result: FormFieldResult = {
+    field: describeTarget(field),
+    success: false,
+  };
+
+  try {
+    const element = await waitForElement({
+      ...field,
+      timeout_ms: options.timeout_ms,
+      tabId,
+    });
+    const control = (await callOnNode(
+      tabId,
+      element,
+      DETECT_CONTROL_FUNCTION
+    )) as {
+      kind: FormControlKind | null;
+      disabled?: boolean;
+      readOnly?: boolean;
+      multiple?: boolean;
+      description?: string;
+    };
+
+    if (!control.kind) {
+      throw new Error(`${control.description} is not a fillable control`);
+    }
+    result.control = control.kind;
+    if (control.disabled) {
+      throw new Error("field is disabled");
+    }
+    if (control.readOnly) {
+      throw new Error("field is read-only");
+    }
+
+    if (control.kind === "file") {
+      const files = resolveUploadPaths(options.fileRoot, field.value);
+      if (files.length > 1 && !control.multiple) {
+        throw new Error("file input accepts a single file");
+      }
+      await cdpManager.sendCommand(
+        tabId,
+        "DOM.setFileInputFiles",
+        { files, nodeId: element.nodeId },
+        element.sessionId
+      );
+      result.applied = files.map((file) => file.split("/").pop()).join(", ");
+    } else if (control.kind === "contenteditable") {
+      if (typeof field.value !== "string") {
+        throw new Error("value must be a string for editable content");
+      }
+      // Editors track their own state, so replace the content with real input
+      await cdpManager.sendCommand(
+        tabId,
+        "DOM.focus",
+        { nodeId: element.nodeId },
+        element.sessionId
+      );
+      await callOnNode(
+        tabId,
+        element,
+        "function() { document.getSelection().selectAllChildren(this); }"
+      );
+      await cdpManager.sendCommand(
+        tabId,
+        "Input.insertText",
+        { text: field.value },
+        element.sessionId
+      );
+    } else {
+      const applied = (await callOnNode(tabId, element, APPLY_VALUE_FUNCTION, [
+        { value: control.kind },
+        { value: field.value },
+      ])) as string | undefined;
+      if (applied !== undefined) {
+        result.applied = applied;
+      }
+    }
+
+    result.success = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+/**
+ * Fill form fields one after another. Every field is attempted and gets
+ * its own result, so one bad field does not hide the others.
+ */
+export async function fillForm(
+  options: FillFormOptions
+): Promise<FormFieldResult[]> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  if (!cdpManager.isAttached(tabId)) {
+    await cdpManager.attachToTab(tabId, true);
+  }
+
+  const results: FormFieldResult[] = [];
+  for (const field of options.fields) {
+    results.push(await fillField(tabId, field, options));
+  }
+
+  const failed = results.filter((result) => !result.success).length;
+  console.log(
+    `[DOMOperations] Filled ${results.length - failed} of ${
+      results.length
+    } form fields`
+  );
+  return results;
 }
 
 /**
  * Wait for an element to appear in the DOM
  */
-export async function waitForElement(options: WaitForOptions): Promise<void> {
+export async function waitForElement(
+  options: WaitForOptions
+): Promise<ElementInfo> {
   const tabId = await getActiveTabId(options.tabId);
   const timeout = options.timeout_ms || 5000;
   const startTime = Date.now();
   const pollInterval = 100; // Check every 100ms
+  const description = describeTarget(options);
 
   try {
     // Ensure CDP session is attached
@@ -315,30 +1044,50 @@ export async function waitForElement(options: WaitForOptions): Promise<void> {
     while (Date.now() - startTime < timeout) {
       try {
         // Try to find the element
-        await findElement(tabId, options.selector);
+        const element = await findElement(tabId, options);
         console.log(
-          `[DOMOperations] Element "${options.selector}" found after ${
+          `[DOMOperations] Element "${description}" found after ${
             Date.now() - startTime
           }ms`
         );
-        return; // Element found!
+        return element; // Element found!
       } catch (error) {
+        // A stale reference will not come back, so stop waiting
+        if (isUnresolvableError(error)) {
+          throw error;
+        }
         // Element not found yet, continue waiting
         await new Promise((resolve) => setTimeout(resolve, pollInterval));
       }
     }
 
-    throw new Error(
-      `Element "${options.selector}" not found within ${timeout}ms`
-    );
+    throw new Error(`Element "${description}" not found within ${timeout}ms`);
   } catch (error) {
     if (error instanceof Error && error.message.includes("not found within")) {
       throw error; // Re-throw timeout errors as-is
     }
-    throw new Error(
-      `Failed to wait for element "${options.selector}": ${error}`
-    );
+    throw new Error(`Failed to wait for element "${description}": ${error}`);
+  }
+}
+
+/**
+ * Resolve a locator to the CSS selector of the single element it matches
+ */
+export async function locateElement(
+  locator: Locator,
+  tabId?: number
+): Promise<string> {
+  const resolvedTabId = await getActiveTabId(tabId);
+
+  if (!cdpManager.isAttached(resolvedTabId)) {
+    await cdpManager.attachToTab(resolvedTabId);
+  }
+
+  const match = await resolveLocator(resolvedTabId, locator);
+  if (!match) {
+    throw new Error(`Element not found: ${describeLocator(locator)}`);
   }
+  return match.selector;
 }
 
 /**
@@ -355,7 +1104,7 @@ export async function elementExists(
       await cdpManager.attachToTab(resolvedTabId);
     }
 
-    await findElement(resolvedTabId, selector);
+    await findElement(resolvedTabId, { selector });
     return true;
   } catch (error) {
     return false;
@@ -376,7 +1125,7 @@ export async function getElementInfo(
       await cdpManager.attachToTab(resolvedTabId);
     }
 
-    return await findElement(resolvedTabId, selector);
+    return await findElement(resolvedTabId, { selector });
   } catch (error) {
     console.warn(
       `[DOMOperations] Could not get element info for "${selector}":`,
@@ -385,6 +1134,277 @@ export async function getElementInfo(
     return null;
   }
 }
+// Attributes that tell what kind of value a field holds
+const DESCRIBED_ATTRIBUTES = [
+  "type",
+  "name",
+  "id",
+  "autocomplete",
+  "aria-label",
+  "placeholder",
+];
+
+/**
+ * Describe an element as a selector of its tag and identifying attributes,
+ * so targets given by reference or mark can be screened like selectors
+ */
+export async function describeElement(
+  target: ElementTarget,
+  tabId?: number
+): Promise<string> {
+  const resolvedTabId = await getActiveTabId(tabId);
+
+  if (!cdpManager.isAttached(resolvedTabId)) {
+    await cdpManager.attachToTab(resolvedTabId);
+  }
+
+  const element = await findElement(resolvedTabId, target);
+  const result = (await cdpManager.sendCommand(
+    resolvedTabId,
+    "DOM.describeNode",
+    { nodeId: element.nodeId },
+    element.sessionId
+  )) as { node: { localName: string; attributes?: string[] } };
+
+  // Attributes come as a flat list of names and values
+  const attributes = result.node.attributes ?? [];
+  let description = result.node.localName;
+  for (let i = 0; i + 1 < attributes.length; i += 2) {
+    if (DESCRIBED_ATTRIBUTES.includes(attributes[i])) {
+      description += `[${attributes[i]}=${JSON.stringify(attributes[i + 1])}]`;
+    }
+  }
+  return description;
+}
+
+// Runs on the element (or the body for the whole page) with the format,
+// reader and includeLinks options. Works on a clone so boilerplate can be
+// stripped without touching the page.
+const RENDER_CONTENT_FUNCTION = `function(spec) {
+  const isPage = this === this.ownerDocument.body;
+  const boilerplate =
+    'nav, header, footer, aside, form, [role=navigation], [role=banner], ' +
+    '[role=contentinfo], [role=complementary], [role=search], [aria-hidden=true]';
+  const adPattern = /(^|[\\s_-])(ads?|advert\\w*|sponsor\\w*|promo\\w*|banner|cookie\\w*|newsletter|share|social|related|comments?)($|[\\s_-])/i;
+
+  let root = this;
+  if (spec.reader) {
+    const candidates = Array.from(
+      this.querySelectorAll('article, main, [role=main]')
+    );
+    if (candidates.length > 0) {
+      // Prefer the candidate holding the most text
+      root = candidates.reduce((best, el) =>
+        el.textContent.length > best.textContent.length ? el : best
+      );
+    } else {
+      // Otherwise the element whose direct paragraphs hold the most text
+      let bestScore = 0;
+      for (const p of Array.from(this.querySelectorAll('p'))) {
+        const parent = p.parentElement;
+        const score = Array.from(parent.children)
+          .filter((child) => child.tagName === 'P')
+          .reduce((sum, child) => sum + child.textContent.length, 0);
+        if (score > bestScore) {
+          bestScore = score;
+          root = parent;
+        }
+      }
+    }
+  }
+
+  const clone = root.cloneNode(true);
+  clone
+    .querySelectorAll('script, style, noscript, template, svg, canvas, [hidden]')
+    .forEach((el) => el.remove());
+  if (spec.reader) {
+    clone.querySelectorAll(boilerplate).forEach((el) => el.remove());
+    clone.querySelectorAll('[class], [id]').forEach((el) => {
+      const name = (el.getAttribute('class') || '') + ' ' + (el.id || '');
+      if (adPattern.test(name)) el.remove();
+    });
+  }
+
+  const absolute = (value) => {
+    try {
+      return new URL(value, root.baseURI).href;
+    } catch (e) {
+      return value;
+    }
+  };
+  const title = isPage ? (this.ownerDocument.title || '').trim() : '';
+
+  if (spec.format === 'html') {
+    clone.querySelectorAll('[href]').forEach((el) =>
+      el.setAttribute('href', absolute(el.getAttribute('href')))
+    );
+    clone.querySelectorAll('[src]').forEach((el) =>
+      el.setAttribute('src', absolute(el.getAttribute('src')))
+    );
+    return root === this && isPage ? clone.innerHTML.trim() : clone.outerHTML;
+  }
+
+  if (spec.format === 'text') {
+    const text = (clone.textContent || '').trim().replace(/\\s+/g, ' ');
+    return title && text ? title + '\\n\\n' + text : title || text;
+  }
+
+  const inline = (value) => value.replace(/\\s+/g, ' ');
+  const block = (value) => {
+    const trimmed = value.trim();
+    return trimmed ? '\\n\\n' + trimmed + '\\n\\n' : '';
+  };
+  // Markers go around the trimmed text, keeping the spacing outside them
+  const wrap = (content, before, after) => {
+    const text = content.trim();
+    if (!text) return content;
+    return (
+      (/^\\s/.test(content) ? ' ' : '') +
+      before + text + after +
+      (/\\s$/.test(content) ? ' ' : '')
+    );
+  };
+  const children = (el, depth) =>
+    Array.from(el.childNodes).map((child) => render(child, depth)).join('');
+
+  const renderList = (el, depth) => {
+    const ordered = el.tagName === 'OL';
+    let number = ordered && el.start ? el.start : 1;
+    const lines = [];
+    for (const item of Array.from(el.children)) {
+      if (item.tagName !== 'LI') continue;
+      const marker = ordered ? number++ + '. ' : '- ';
+      const content = children(item, depth + 1)
+        .trim()
+        .replace(/\\n{2,}/g, '\\n')
+        .replace(/\\n/g, '\\n' + ' '.repeat(marker.length));
+      lines.push(marker + content);
+    }
+    const list = lines.join('\\n');
+    return depth > 0 ? '\\n' + list + '\\n' : block(list);
+  };
+
+  const renderTable = (el) => {
+    const rows = Array.from(el.rows).map((row) =>
+      Array.from(row.cells).map((cell) =>
+        children(cell, 0).trim().replace(/\\s*\\n\\s*/g, ' ').replace(/\\|/g, '\\\\|')
+      )
+    );
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells) =>
+      '| ' +
+      Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ') +
+      ' |';
+    const separator = '| ' + Array(width).fill('---').join(' | ') + ' |';
+    return block(
+      [line(rows[0]), separator, ...rows.slice(1).map(line)].join('\\n')
+    );
+  };
+
+  const render = (node, depth) => {
+    if (node.nodeType === Node.TEXT_NODE) return inline(node.textContent);
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const tag = node.tagName;
+    switch (tag) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+        const text = inline(children(node, depth)).trim();
+        return text ? block('#'.repeat(Number(tag[1])) + ' ' + text) : '';
+      }
+      case 'BR':
+        return '\\n';
+      case 'HR':
+        return block('---');
+      case 'STRONG': case 'B':
+        return wrap(inline(children(node, depth)), '**', '**');
+      case 'EM': case 'I':
+        return wrap(inline(children(node, depth)), '*', '*');
+      case 'CODE':
+        return '\`' + node.textContent + '\`';
+      case 'PRE':
+        return block('\`\`\`\\n' + node.textContent.replace(/\\n$/, '') + '\\n\`\`\`');
+      case 'A': {
+        const text = inline(children(node, depth));
+        const href = node.getAttribute('href');
+        if (!spec.includeLinks || !href || /^(javascript|#)/i.test(href)) {
+          return text;
+        }
+        return text.trim()
+          ? wrap(text, '[', '](' + absolute(href) + ')')
+          : '[' + absolute(href) + '](' + absolute(href) + ')';
+      }
+      case 'IMG': {
+        const alt = inline(node.getAttribute('alt') || '').trim();
+        const src = node.getAttribute('src');
+        if (!spec.includeLinks || !src) return alt;
+        return '![' + alt + '](' + absolute(src) + ')';
+      }
+      case 'UL': case 'OL':
+        return renderList(node, depth);
+      case 'TABLE':
+        return renderTable(node);
+      case 'BLOCKQUOTE':
+        return block(
+          children(node, depth)
+            .trim()
+            .split('\\n')
+            .map((line) => '> ' + line)
+            .join('\\n')
+        );
+      case 'INPUT': case 'SELECT': case 'TEXTAREA': case 'BUTTON':
+        return '';
+      default: {
+        const content = children(node, depth);
+        return /^(P|DIV|SECTION|ARTICLE|MAIN|HEADER|FOOTER|NAV|ASIDE|FIGURE|FIGCAPTION|DL|DT|DD|DETAILS|SUMMARY|ADDRESS|LI)$/.test(tag)
+          ? block(content)
+          : content;
+      }
+    }
+  };
+
+  const markdown = render(clone, 0)
+    .replace(/[ \\t]+\\n/g, '\\n')
+    .replace(/\\n{3,}/g, '\\n\\n')
+    .replace(/\\n\\n[ \\t]+/g, '\\n\\n')
+    .trim();
+  if (title && !markdown.startsWith('# ')) {
+    return '# ' + title + (markdown ? '\\n\\n' + markdown : '');
+  }
+  return markdown;
+}`;
+
+/**
+ * Render an element, or the page body, as markdown, html or reader text
+ */
+async function renderContent(
+  tabId: number,
+  options: ReadTextOptions
+): Promise<unknown> {
+  const spec = {
+    format: options.format ?? "text",
+    reader: options.reader ?? false,
+    includeLinks: options.includeLinks ?? true,
+  };
+
+  if (options.selector) {
+    const node = await resolveSelector(tabId, options.selector);
+    if (!node) {
+      throw new Error(`Element not found: ${options.selector}`);
+    }
+    return callOnNode(tabId, node, RENDER_CONTENT_FUNCTION, [{ value: spec }]);
+  }
+
+  const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+    expression: `(${RENDER_CONTENT_FUNCTION}).call(document.body || document.documentElement, ${JSON.stringify(
+      spec
+    )})`,
+    returnByValue: true,
+    awaitPromise: false,
+  })) as { result: { value: string } };
+  return result.result?.value;
+}
+
 /**
  * Read text content from an element or the entire page
  */
@@ -397,38 +1417,39 @@ export async function readText(options: ReadTextOptions): Promise<string> {
       await cdpManager.attachToTab(tabId);
     }
 
-    let jsCode: string;
+    let text: unknown;
+    const format = options.format ?? "text";
+    // Plain text of the whole element needs no rendering pass
+    const render = format !== "text" || options.reader === true;
+
+    if (render) {
+      text = await renderContent(tabId, options);
+    } else if (options.selector) {
+      // Read text from specific element, wherever it lives
+      const node = await resolveSelector(tabId, options.selector);
+      if (!node) {
+        throw new Error(`Element not found: ${options.selector}`);
+      }
 
-    if (options.selector) {
-      // Read text from specific element
-      jsCode = `
-        (function() {
-          const element = document.querySelector('${options.selector.replace(
-            /'/g,
-            "\\'"
-          )}');
-          if (!element) {
-            throw new Error('Element not found: ${options.selector.replace(
-              /'/g,
-              "\\'"
-            )}');
-          }
-          
+      text = await callOnNode(
+        tabId,
+        node,
+        `function() {
           // Get visible text content, handling different element types
-          if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
-            return element.value || '';
-          } else if (element.tagName === 'SELECT') {
-            const selectedOption = element.options[element.selectedIndex];
+          if (this.tagName === 'INPUT' || this.tagName === 'TEXTAREA') {
+            return this.value || '';
+          } else if (this.tagName === 'SELECT') {
+            const selectedOption = this.options[this.selectedIndex];
             return selectedOption ? selectedOption.text : '';
           } else {
             // For other elements, get text content but clean up whitespace
-            return element.textContent ? element.textContent.trim().replace(/\\s+/g, ' ') : '';
+            return this.textContent ? this.textContent.trim().replace(/\\s+/g, ' ') : '';
           }
-        })()
-      `;
+        }`
+      );
     } else {
       // Read text from entire page
-      jsCode = `
+      const jsCode = `
         (function() {
           // Get page title and main content
           const title = document.title || '';
@@ -446,19 +1467,22 @@ export async function readText(options: ReadTextOptions): Promise<string> {
           }
         })()
       `;
-    }
 
-    const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
-      expression: jsCode,
-      returnByValue: true,
-      awaitPromise: false,
-    })) as { result: { value: string } };
+      const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+        expression: jsCode,
+        returnByValue: true,
+        awaitPromise: false,
+      })) as { result: { value: string } };
+      text = result.result?.value;
+    }
 
-    if (result.result?.value !== undefined) {
+    if (typeof text === "string") {
       console.log(
-        `[DOMOperations] Read text from ${options.selector || "page"}`
+        `[DOMOperations] Read ${format} from ${options.selector || "page"}${
+          options.reader ? " (reader)" : ""
+        }`
       );
-      return result.result.value;
+      return text;
     } else {
       throw new Error("No text content returned");
     }
@@ -480,23 +1504,62 @@ export async function readDom(options: ReadDomOptions): Promise<string> {
       await cdpManager.attachToTab(tabId);
     }
 
-    let jsCode: string;
+    let structure: unknown;
 
     if (options.selector) {
       // Read DOM structure around a specific element
-      jsCode = `
-        (function() {
-          const element = document.querySelector('${options.selector.replace(
-            /'/g,
-            "\\'"
-          )}');
-          if (!element) {
-            // Element not found, return nearby elements for debugging
+      const node = await resolveSelector(tabId, options.selector);
+
+      if (node) {
+        structure = await callOnNode(
+          tabId,
+          node,
+          `function() {
+            // Return the element and its context
+            const tag = this.tagName.toLowerCase();
+            const id = this.id ? ' id="' + this.id + '"' : '';
+            const className = this.className ? ' class="' + this.className + '"' : '';
+            const text = this.textContent?.trim().substring(0, 100) || '';
+          
+            let result = \`Found element: <\${tag}\${id}\${className}>\${text}...\`;
+          
+            // Add parent context
+            if (this.parentElement) {
+              const parentTag = this.parentElement.tagName.toLowerCase();
+              const parentId = this.parentElement.id ? ' id="' + this.parentElement.id + '"' : '';
+              const parentClass = this.parentElement.className ? ' class="' + this.parentElement.className + '"' : '';
+              result += \`\\nParent: <\${parentTag}\${parentId}\${parentClass}>\`;
+            }
+          
+            // Add children context
+            const children = Array.from(this.children).slice(0, 3);
+            if (children.length > 0) {
+              result += '\\nChildren:';
+              children.forEach(child => {
+                const childTag = child.tagName.toLowerCase();
+                const childId = child.id ? ' id="' + child.id + '"' : '';
+                const childClass = child.className ? ' class="' + child.className + '"' : '';
+                const childText = child.textContent?.trim().substring(0, 30) || '';
+                result += \`\\n  <\${childTag}\${childId}\${childClass}>\${childText}...\`;
+              });
+            }
+          
+            return result;
+          }`
+        );
+      } else {
+        // Element not found, return nearby elements for debugging. Only the
+        // innermost step of a shadow or frame selector is worth matching.
+        const parts = parseSelector(options.selector);
+        const lastHops = parts[parts.length - 1].hops;
+        const needle = lastHops[lastHops.length - 1];
+        const jsCode = `
+          (function() {
             const allElements = Array.from(document.querySelectorAll('*'));
             const suggestions = allElements
               .filter(el => {
                 const text = el.textContent?.trim();
-                const selector = '${options.selector.replace(/'/g, "\\'")}';
+                const selector = ${JSON.stringify(needle)};
                 // Look for elements with similar text or attributes
                 return text && (
                   text.toLowerCase().includes(selector.toLowerCase()) ||
@@ -514,43 +1577,23 @@ export async function readDom(options: ReadDomOptions): Promise<string> {
               });
             
             return 'Element not found. Similar elements:\\n' + suggestions.join('\\n');
+          })()
+        `;
+
+        const result = (await cdpManager.sendCommand(
+          tabId,
+          "Runtime.evaluate",
+          {
+            expression: jsCode,
+            returnByValue: true,
+            awaitPromise: false,
           }
-          
-          // Return the element and its context
-          const tag = element.tagName.toLowerCase();
-          const id = element.id ? ' id="' + element.id + '"' : '';
-          const className = element.className ? ' class="' + element.className + '"' : '';
-          const text = element.textContent?.trim().substring(0, 100) || '';
-          
-          let result = \`Found element: <\${tag}\${id}\${className}>\${text}...\`;
-          
-          // Add parent context
-          if (element.parentElement) {
-            const parentTag = element.parentElement.tagName.toLowerCase();
-            const parentId = element.parentElement.id ? ' id="' + element.parentElement.id + '"' : '';
-            const parentClass = element.parentElement.className ? ' class="' + element.parentElement.className + '"' : '';
-            result += \`\\nParent: <\${parentTag}\${parentId}\${parentClass}>\`;
-          }
-          
-          // Add children context
-          const children = Array.from(element.children).slice(0, 3);
-          if (children.length > 0) {
-            result += '\\nChildren:';
-            children.forEach(child => {
-              const childTag = child.tagName.toLowerCase();
-              const childId = child.id ? ' id="' + child.id + '"' : '';
-              const childClass = child.className ? ' class="' + child.className + '"' : '';
-              const childText = child.textContent?.trim().substring(0, 30) || '';
-              result += \`\\n  <\${childTag}\${childId}\${childClass}>\${childText}...\`;
-            });
-          }
-          
-          return result;
-        })()
-      `;
+        )) as { result: { value: string } };
+        structure = result.result?.value;
+      }
     } else {
       // Read overall page structure
-      jsCode = `
+      const jsCode = `
         (function() {
           const title = document.title || 'No title';
           const url = window.location.href;
@@ -586,19 +1629,20 @@ export async function readDom(options: ReadDomOptions): Promise<string> {
           return result;
         })()
       `;
-    }
 
-    const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
-      expression: jsCode,
-      returnByValue: true,
-      awaitPromise: false,
-    })) as { result: { value: string } };
+      const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+        expression: jsCode,
+        returnByValue: true,
+        awaitPromise: false,
+      })) as { result: { value: string } };
+      structure = result.result?.value;
+    }
 
-    if (result.result?.value !== undefined) {
+    if (typeof structure === "string") {
       console.log(
         `[DOMOperations] Read DOM structure for ${options.selector || "page"}`
       );
-      return result.result.value;
+      return structure;
     } else {
       throw new Error("No DOM structure returned");
     }
@@ -609,11 +1653,13 @@ export async function readDom(options: ReadDomOptions): Promise<string> {
 }
 
 /**
- * Execute JavaScript code in the page context
+ * Run a function body in the page: in the agent's isolated world by
+ * default, kept for the document's lifetime, or in the page's main world.
+ * Arguments are passed as values rather than spliced into the source.
  */
 export async function executeJavaScript(
   options: EvalJsOptions
-): Promise<unknown> {
+): Promise<EvalJsResult> {
   const tabId = await getActiveTabId(options.tabId);
 
   try {
@@ -622,23 +1668,21 @@ export async function executeJavaScript(
       await cdpManager.attachToTab(tabId);
     }
 
-    // Wrap the code in a function to provide better error handling and sandboxing
-    const wrappedCode = `
-      (function() {
-        try {
-          ${options.code}
-        } catch (error) {
-          throw new Error('JavaScript execution error: ' + error.message);
-        }
-      })()
-    `;
-
-    const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
-      expression: wrappedCode,
-      returnByValue: true,
-      awaitPromise: true, // Allow async code
-      timeout: 10000, // 10 second timeout
-    })) as {
+    const awaitPromise = options.awaitPromise !== false;
+    const functionDeclaration = `${
+      awaitPromise ? "async " : ""
+    }function (...args) {\n${options.code}\n}`;
+
+    const world = options.world ?? "isolated";
+    const result = (await cdpManager
+      .sendCommand(tabId, "Runtime.callFunctionOn", {
+        ...(await getEvalTarget(tabId, world)),
+        functionDeclaration,
+        arguments: (options.args ?? []).map((value) => ({ value })),
+        returnByValue: true,
+        awaitPromise,
+      })
+      .finally(() => releaseEvalObjects(tabId, world))) as {
       result: {
         value?: unknown;
         type: string;
@@ -659,8 +1703,92 @@ export async function executeJavaScript(
     }
 
     console.log(`[DOMOperations] Executed JavaScript code successfully`);
-    return result.result.value;
+    return capEvalResult(
+      result.result.value,
+      options.maxResultChars ?? EVAL_JS_MAX_RESULT_CHARS
+    );
   } catch (error) {
     throw new Error(`Failed to execute JavaScript: ${error}`);
   }
 }
+
+/**
+ * Get the execution context of the agent's isolated world in a tab's main
+ * frame, creating the world on first use in each document
+ */
+export async function getIsolatedWorldContext(tabId: number): Promise<number> {
+  const { frameTree } = (await cdpManager.sendCommand(
+    tabId,
+    "Page.getFrameTree"
+  )) as { frameTree: { frame: { id: string; loaderId: string } } };
+  const { id: frameId, loaderId } = frameTree.frame;
+
+  const cached = isolatedWorlds.get(tabId);
+  if (cached?.loaderId === loaderId) {
+    return cached.executionContextId;
+  }
+
+  const { executionContextId } = (await cdpManager.sendCommand(
+    tabId,
+    "Page.createIsolatedWorld",
+    { frameId, worldName: EVAL_JS_WORLD_NAME }
+  )) as { executionContextId: number };
+  isolatedWorlds.set(tabId, { loaderId, executionContextId });
+  return executionContextId;
+}
+
+/**
+ * Get the Runtime.callFunctionOn target for a world: the isolated world
+ * in the main frame, or the main world's global object
+ */
+async function getEvalTarget(
+  tabId: number,
+  world: "isolated" | "main"
+): Promise<{ executionContextId: number } | { objectId: string }> {
+  if (world === "isolated") {
+    return { executionContextId: await getIsolatedWorldContext(tabId) };
+  }
+
+  const { result } = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+    expression: "globalThis",
+    objectGroup: EVAL_JS_OBJECT_GROUP,
+  })) as { result: { objectId: string } };
+  return { objectId: result.objectId };
+}
+
+/**
+ * Release the main world's global object handle taken by getEvalTarget
+ */
+async function releaseEvalObjects(
+  tabId: number,
+  world: "isolated" | "main"
+): Promise<void> {
+  if (world !== "main") {
+    return;
+  }
+  try {
+    await cdpManager.sendCommand(tabId, "Runtime.releaseObjectGroup", {
+      objectGroup: EVAL_JS_OBJECT_GROUP,
+    });
+  } catch {
+    // The page may have navigated away, taking the handle with it
+  }
+}
+
+/**
+ * Replace a result whose JSON exceeds maxChars with its truncated JSON
+ * and a marker saying how much was cut
+ */
+function capEvalResult(value: unknown, maxChars: number): EvalJsResult {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= maxChars) {
+    return { result: value };
+  }
+  return {
+    result: `${json.slice(0, maxChars)}...[truncated ${
+      json.length - maxChars
+    } of ${json.length} characters]`,
+    truncated: true,
+    resultChars: json.length,
+  };
+}
@@ -0,0 +1,98 @@
+// Element reference registry
+// Maps the reference ids handed out by page_snapshot to CDP backend node ids,
+// and the numbered marks of the latest annotated screenshot to references
+
+interface TabRefs {
+  nextId: number;
+  nodesByRef: Map<string, number>;
+  refsByNode: Map<number, string>;
+  // Reference of each mark, numbered from 1
+  marks: string[];
+}
+
+export class ElementRefRegistry {
+  private tabs = new Map<number, TabRefs>();
+
+  constructor() {
+    this.setupEventListeners();
+  }
+
+  /**
+   * Get the reference for a backend node, reusing the one it was given
+   * in an earlier snapshot so references survive re-renders
+   */
+  public assign(tabId: number, backendNodeId: number): string {
+    const tabRefs = this.getTabRefs(tabId);
+
+    const existing = tabRefs.refsByNode.get(backendNodeId);
+    if (existing) {
+      return existing;
+    }
+
+    const ref = `e${tabRefs.nextId++}`;
+    tabRefs.nodesByRef.set(ref, backendNodeId);
+    tabRefs.refsByNode.set(backendNodeId, ref);
+    return ref;
+  }
+
+  /**
+   * Get the backend node id a reference was issued for
+   */
+  public lookup(tabId: number, ref: string): number | undefined {
+    return this.tabs.get(tabId)?.nodesByRef.get(ref);
+  }
+
+  /**
+   * Replace the marks of a tab with those of a new annotated screenshot
+   */
+  public setMarks(tabId: number, refs: string[]): void {
+    this.getTabRefs(tabId).marks = refs;
+  }
+
+  /**
+   * Get the reference a mark of the latest annotated screenshot stands for
+   */
+  public lookupMark(tabId: number, mark: number): string | undefined {
+    return this.tabs.get(tabId)?.marks[mark - 1];
+  }
+
+  /**
+   * Forget all references issued for a tab
+   */
+  public clear(tabId: number): void {
+    this.tabs.delete(tabId);
+  }
+
+  private getTabRefs(tabId: number): TabRefs {
+    let tabRefs = this.tabs.get(tabId);
+    if (!tabRefs) {
+      tabRefs = {
+        nextId: 1,
+        nodesByRef: new Map(),
+        refsByNode: new Map(),
+        marks: [],
+      };
+      this.tabs.set(tabId, tabRefs);
+    }
+    return tabRefs;
+  }
+
+  /**
+   * Drop references of closed tabs and of documents the tab navigated
+   * away from, whose backend node ids may be reused by the new page
+   */
+  private setupEventListeners(): void {
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.clear(tabId);
+    });
+
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+      if (changeInfo.status === "loading") {
+        this.clear(tabId);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const elementRefs = new ElementRefRegistry();
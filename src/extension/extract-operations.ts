@@ -0,0 +1,200 @@
+// Structured extraction of tables, lists and repeated cards
+// Turns a container element into JSON records in a single page round-trip
+
+import { ExtractResult } from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+import { callOnNode, getActiveTabId } from "./dom-operations";
+import { resolveSelector } from "./selector-engine";
+
+export interface ExtractOptions {
+  // Container element; the page body when omitted
+  selector?: string;
+  // Record key to "css", "css@attr" or "@attr" inside each item
+  fields?: Record<string, string>;
+  itemSelector?: string;
+  offset?: number;
+  limit?: number;
+  maxChars?: number;
+  tabId?: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_MAX_CHARS = 50000;
+
+// Runs with the container as `this`. Returns { error } instead of throwing
+// so the message is not buried in a page stack trace.
+const EXTRACT_FUNCTION = `function(spec) {
+  try {
+    const normalize = (value) => (value || '').replace(/\\s+/g, ' ').trim();
+    const textOf = (el) => {
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)) return el.value;
+      return normalize(el.innerText !== undefined ? el.innerText : el.textContent);
+    };
+    const attributeOf = (el, name) => {
+      const value = el.getAttribute(name);
+      // Links and sources are more useful as absolute URLs
+      if (value !== null && (name === 'href' || name === 'src')) {
+        try {
+          return new URL(value, el.baseURI).href;
+        } catch (e) {
+          return value;
+        }
+      }
+      return value;
+    };
+
+    let mode;
+    let items;
+    let toRecord;
+
+    if (spec.fields) {
+      mode = 'fields';
+      const fields = Object.entries(spec.fields).map(([key, field]) => {
+        const match = /^(.*)@([A-Za-z_][\\w:.-]*)$/.exec(field.trim());
+        return match
+          ? { key, selector: match[1].trim(), attribute: match[2] }
+          : { key, selector: field.trim(), attribute: null };
+      });
+      items = spec.itemSelector
+        ? Array.from(this.querySelectorAll(spec.itemSelector))
+        : Array.from(this.children).filter(
+            (el) => !['SCRIPT', 'STYLE', 'TEMPLATE'].includes(el.tagName)
+          );
+      toRecord = (item) => {
+        const record = {};
+        for (const field of fields) {
+          const el = field.selector ? item.querySelector(field.selector) : item;
+          record[field.key] = !el
+            ? null
+            : field.attribute
+              ? attributeOf(el, field.attribute)
+              : textOf(el);
+        }
+        return record;
+      };
+    } else {
+      const table = this.tagName === 'TABLE' ? this : this.querySelector('table');
+      const list = ['UL', 'OL'].includes(this.tagName) ? this : this.querySelector('ul, ol');
+
+      if (table) {
+        mode = 'table';
+        // Spread cells over the columns they span so values line up with headers
+        const cellsOf = (row) => {
+          const cells = [];
+          for (const cell of Array.from(row.cells)) {
+            cells.push(cell);
+            for (let span = 1; span < cell.colSpan; span++) cells.push(null);
+          }
+          return cells;
+        };
+
+        const rows = Array.from(table.rows);
+        let header = null;
+        if (table.tHead && table.tHead.rows.length > 0) {
+          header = table.tHead.rows[table.tHead.rows.length - 1];
+        } else if (
+          rows.length > 0 &&
+          Array.from(rows[0].cells).every((cell) => cell.tagName === 'TH')
+        ) {
+          header = rows[0];
+        }
+
+        const width = Math.max(0, ...rows.map((row) => cellsOf(row).length));
+        const seen = {};
+        const keys = [];
+        const headerCells = header ? cellsOf(header) : [];
+        for (let column = 0; column < width; column++) {
+          let key = headerCells[column] ? textOf(headerCells[column]) : '';
+          if (!key) key = 'column' + (column + 1);
+          seen[key] = (seen[key] || 0) + 1;
+          keys.push(seen[key] > 1 ? key + '_' + seen[key] : key);
+        }
+
+        items = rows.filter(
+          (row) =>
+            row !== header &&
+            row.parentElement !== table.tHead &&
+            row.cells.length > 0
+        );
+        toRecord = (row) => {
+          const record = {};
+          const cells = cellsOf(row);
+          keys.forEach((key, column) => {
+            record[key] = cells[column] ? textOf(cells[column]) : null;
+          });
+          return record;
+        };
+      } else if (list) {
+        mode = 'list';
+        items = Array.from(list.children).filter((el) => el.tagName === 'LI');
+        toRecord = (item) => ({ text: textOf(item) });
+      } else {
+        return {
+          error: 'No table or list found in the container; pass fields to extract repeated items',
+        };
+      }
+    }
+
+    const records = [];
+    let chars = 2;
+    let index = spec.offset;
+    while (index < items.length && records.length < spec.limit) {
+      const record = toRecord(items[index]);
+      const size = JSON.stringify(record).length + 1;
+      // Always return one record so paging makes progress
+      if (records.length > 0 && chars + size > spec.maxChars) break;
+      records.push(record);
+      chars += size;
+      index++;
+    }
+
+    return {
+      mode,
+      records,
+      total: items.length,
+      offset: spec.offset,
+      nextOffset: index < items.length ? index : undefined,
+    };
+  } catch (error) {
+    return { error: error.message };
+  }
+}`;
+
+/**
+ * Extract records from a container: one per item with a field map, one
+ * per row of the first table, or one per item of the first list
+ */
+export async function extract(options: ExtractOptions): Promise<ExtractResult> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  if (!cdpManager.isAttached(tabId)) {
+    await cdpManager.attachToTab(tabId);
+  }
+
+  const container = options.selector || "body";
+  const node = await resolveSelector(tabId, container);
+  if (!node) {
+    throw new Error(`Element not found: ${container}`);
+  }
+
+  const result = (await callOnNode(tabId, node, EXTRACT_FUNCTION, [
+    {
+      value: {
+        fields: options.fields,
+        itemSelector: options.itemSelector,
+        offset: options.offset ?? 0,
+        limit: options.limit ?? DEFAULT_LIMIT,
+        maxChars: options.maxChars ?? DEFAULT_MAX_CHARS,
+      },
+    },
+  ])) as ExtractResult | { error: string };
+
+  if ("error" in result) {
+    throw new Error(`Extraction from ${container} failed: ${result.error}`);
+  }
+
+  console.log(
+    `[ExtractOperations] Extracted ${result.records.length} of ${result.total} ${result.mode} records from ${container}`
+  );
+  return result;
+}
@@ -0,0 +1,550 @@
+// Keyboard, hover, drag-and-drop and scroll input using Chrome DevTools Protocol
+// Builds on the element targeting and actionability checks of dom-operations
+
+import { cdpManager } from "./cdp-manager";
+import {
+  ElementInfo,
+  ElementTarget,
+  callOnNode,
+  describeTarget,
+  getActiveTabId,
+  waitForActionable,
+} from "./dom-operations";
+
+export interface PressKeysOptions extends ElementTarget {
+  keys: string[];
+  tabId?: number;
+}
+
+export interface HoverOptions extends ElementTarget {
+  timeout_ms?: number;
+  tabId?: number;
+}
+
+export interface DragEndpointOptions extends ElementTarget {
+  x?: number;
+  y?: number;
+}
+
+export interface DragAndDropOptions {
+  source: DragEndpointOptions;
+  target: DragEndpointOptions;
+  steps?: number;
+  timeout_ms?: number;
+  tabId?: number;
+}
+
+export interface ScrollOptions extends ElementTarget {
+  deltaX?: number;
+  deltaY?: number;
+  to?: "top" | "bottom" | "left" | "right";
+  tabId?: number;
+}
+
+export interface ScrollPosition {
+  scrollX: number;
+  scrollY: number;
+  maxScrollX: number;
+  maxScrollY: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+}
+
+// Modifier bit flags used by Input.dispatchKeyEvent and dispatchMouseEvent
+const MODIFIER_BITS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: "Control",
+  control: "Control",
+  cmd: "Meta",
+  command: "Meta",
+  meta: "Meta",
+  win: "Meta",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+  esc: "Escape",
+  return: "Enter",
+  del: "Delete",
+  space: " ",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+};
+
+const SPECIAL_KEYS: Record<string, KeyDefinition> = {
+  Enter: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  Tab: { key: "Tab", code: "Tab", keyCode: 9 },
+  Escape: { key: "Escape", code: "Escape", keyCode: 27 },
+  Backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
+  Delete: { key: "Delete", code: "Delete", keyCode: 46 },
+  Insert: { key: "Insert", code: "Insert", keyCode: 45 },
+  " ": { key: " ", code: "Space", keyCode: 32, text: " " },
+  ArrowUp: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
+  ArrowDown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
+  Home: { key: "Home", code: "Home", keyCode: 36 },
+  End: { key: "End", code: "End", keyCode: 35 },
+  PageUp: { key: "PageUp", code: "PageUp", keyCode: 33 },
+  PageDown: { key: "PageDown", code: "PageDown", keyCode: 34 },
+  Shift: { key: "Shift", code: "ShiftLeft", keyCode: 16 },
+  Control: { key: "Control", code: "ControlLeft", keyCode: 17 },
+  Alt: { key: "Alt", code: "AltLeft", keyCode: 18 },
+  Meta: { key: "Meta", code: "MetaLeft", keyCode: 91 },
+};
+
+// Pause between scroll input and reading the position, for smooth scrolling
+const SCROLL_SETTLE_MS = 150;
+
+/**
+ * Look up a key by name, alias or single character
+ */
+function getKeyDefinition(name: string, shift: boolean): KeyDefinition {
+  const canonical = KEY_ALIASES[name.toLowerCase()] || name;
+
+  const special = SPECIAL_KEYS[canonical];
+  if (special) {
+    return special;
+  }
+
+  const functionKey = /^F([1-9]|1[0-2])$/.exec(canonical);
+  if (functionKey) {
+    return {
+      key: canonical,
+      code: canonical,
+      keyCode: 111 + Number(functionKey[1]),
+    };
+  }
+
+  if (canonical.length === 1) {
+    if (/[a-z]/i.test(canonical)) {
+      const key = shift ? canonical.toUpperCase() : canonical;
+      return {
+        key,
+        code: `Key${canonical.toUpperCase()}`,
+        keyCode: canonical.toUpperCase().charCodeAt(0),
+        text: key,
+      };
+    }
+    if (/[0-9]/.test(canonical)) {
+      return {
+        key: canonical,
+        code: `Digit${canonical}`,
+        keyCode: canonical.charCodeAt(0),
+        text: canonical,
+      };
+    }
+    // Punctuation and other characters are sent by value only
+    return { key: canonical, code: "", keyCode: 0, text: canonical };
+  }
+
+  throw new Error(`Unknown key "${name}"`);
+}
+
+/**
+ * Split a chord like "Control+Shift+K" into modifiers and the main key.
+ * A trailing "+" is the plus key itself, as in "Control++".
+ */
+function parseChord(chord: string): { modifiers: string[]; key: string } {
+  const parts = chord.endsWith("++")
+    ? [...chord.slice(0, -2).split("+"), "+"]
+    : chord.split("+");
+  if (parts.some((part) => !part)) {
+    throw new Error(`Invalid key chord "${chord}"`);
+  }
+
+  const names = parts.map((part) => KEY_ALIASES[part.toLowerCase()] || part);
+  const key = names[names.length - 1];
+  const modifiers = names.slice(0, -1);
+  for (const modifier of modifiers) {
+    if (MODIFIER_BITS[modifier] === undefined) {
+      throw new Error(
+        `"${modifier}" in "${chord}" is not a modifier (Shift, Control, Alt or Meta)`
+      );
+    }
+  }
+  return { modifiers, key };
+}
+
+/**
+ * Press and release one chord: modifiers down, key down and up, modifiers up
+ */
+async function pressChord(tabId: number, chord: string): Promise<void> {
+  const { modifiers, key } = parseChord(chord);
+  let modifierBits = 0;
+
+  for (const modifier of modifiers) {
+    modifierBits |= MODIFIER_BITS[modifier];
+    const definition = SPECIAL_KEYS[modifier];
+    await cdpManager.sendCommand(tabId, "Input.dispatchKeyEvent", {
+      type: "rawKeyDown",
+      key: definition.key,
+      code: definition.code,
+      windowsVirtualKeyCode: definition.keyCode,
+      modifiers: modifierBits,
+    });
+  }
+
+  const definition = getKeyDefinition(key, modifiers.includes("Shift"));
+  // Shortcuts with Control, Alt or Meta must not insert text
+  const text =
+    modifierBits & ~MODIFIER_BITS.Shift ? undefined : definition.text;
+  await cdpManager.sendCommand(tabId, "Input.dispatchKeyEvent", {
+    type: text ? "keyDown" : "rawKeyDown",
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    modifiers: modifierBits,
+    ...(text && { text, unmodifiedText: text }),
+  });
+  await cdpManager.sendCommand(tabId, "Input.dispatchKeyEvent", {
+    type: "keyUp",
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    modifiers: modifierBits,
+  });
+
+  for (const modifier of [...modifiers].reverse()) {
+    modifierBits &= ~MODIFIER_BITS[modifier];
+    const modifierDefinition = SPECIAL_KEYS[modifier];
+    await cdpManager.sendCommand(tabId, "Input.dispatchKeyEvent", {
+      type: "keyUp",
+      key: modifierDefinition.key,
+      code: modifierDefinition.code,
+      windowsVirtualKeyCode: modifierDefinition.keyCode,
+      modifiers: modifierBits,
+    });
+  }
+}
+
+function hasElementTarget(target: ElementTarget): boolean {
+  return !!(
+    target.selector ||
+    target.ref ||
+    target.locator ||
+    target.mark !== undefined
+  );
+}
+
+/**
+ * Press keys and chords in order, optionally focusing an element first
+ */
+export async function pressKeys(
+  options: PressKeysOptions
+): Promise<ElementInfo | undefined> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  try {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId, true);
+    }
+
+    // Validate every chord before sending any input
+    for (const chord of options.keys) {
+      getKeyDefinition(parseChord(chord).key, false);
+    }
+
+    let element: ElementInfo | undefined;
+    if (hasElementTarget(options)) {
+      ({ element } = await waitForActionable(tabId, options, 5000));
+      await cdpManager.sendCommand(
+        tabId,
+        "DOM.focus",
+        { nodeId: element.nodeId },
+        element.sessionId
+      );
+    }
+
+    for (const chord of options.keys) {
+      await pressChord(tabId, chord);
+    }
+
+    console.log(`[InputOperations] Pressed ${options.keys.join(" ")}`);
+    return element;
+  } catch (error) {
+    throw new Error(`Failed to press keys: ${error}`);
+  }
+}
+
+/**
+ * Move the mouse over an element
+ */
+export async function hoverElement(
+  options: HoverOptions
+): Promise<ElementInfo> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  try {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId, true);
+    }
+
+    const { element, point } = await waitForActionable(
+      tabId,
+      options,
+      options.timeout_ms || 5000
+    );
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: point.x,
+      y: point.y,
+    });
+
+    console.log(
+      `[InputOperations] Hovered element "${describeTarget(options)}"`
+    );
+    return element;
+  } catch (error) {
+    throw new Error(
+      `Failed to hover element "${describeTarget(options)}": ${error}`
+    );
+  }
+}
+
+/**
+ * Viewport point of a drag endpoint
+ */
+async function resolveDragPoint(
+  tabId: number,
+  endpoint: DragEndpointOptions,
+  timeoutMs: number
+): Promise<Point> {
+  if (endpoint.x !== undefined && endpoint.y !== undefined) {
+    return { x: endpoint.x, y: endpoint.y };
+  }
+  const { point } = await waitForActionable(tabId, endpoint, timeoutMs);
+  return point;
+}
+
+function describeEndpoint(endpoint: DragEndpointOptions): string {
+  return hasElementTarget(endpoint)
+    ? describeTarget(endpoint)
+    : `(${endpoint.x}, ${endpoint.y})`;
+}
+
+/**
+ * Drag from one element or point to another. Pages using HTML5 drag and
+ * drop get the intercepted drag data dropped on the target; others see a
+ * plain press, move and release.
+ */
+export async function dragAndDrop(
+  options: DragAndDropOptions
+): Promise<{ from: Point; to: Point; html5: boolean }> {
+  const tabId = await getActiveTabId(options.tabId);
+  const description = `${describeEndpoint(
+    options.source
+  )} to ${describeEndpoint(options.target)}`;
+  const timeoutMs = options.timeout_ms || 5000;
+  const steps = options.steps || 10;
+
+  let dragData: unknown = null;
+  const onDragIntercepted = (
+    eventTabId: number,
+    method: string,
+    params: unknown
+  ) => {
+    if (eventTabId === tabId && method === "Input.dragIntercepted") {
+      dragData = (params as { data: unknown }).data;
+    }
+  };
+
+  try {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId, true);
+    }
+
+    const from = await resolveDragPoint(tabId, options.source, timeoutMs);
+
+    cdpManager.addEventListener(onDragIntercepted);
+    await cdpManager.sendCommand(tabId, "Input.setInterceptDrags", {
+      enabled: true,
+    });
+
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: from.x,
+      y: from.y,
+    });
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mousePressed",
+      x: from.x,
+      y: from.y,
+      button: "left",
+      clickCount: 1,
+    });
+
+    // The target may only become reachable once the drag has started
+    const to = await resolveDragPoint(tabId, options.target, timeoutMs);
+
+    for (let step = 1; step <= steps; step++) {
+      const x = from.x + ((to.x - from.x) * step) / steps;
+      const y = from.y + ((to.y - from.y) * step) / steps;
+
+      if (dragData) {
+        await cdpManager.sendCommand(tabId, "Input.dispatchDragEvent", {
+          type: "dragOver",
+          x,
+          y,
+          data: dragData,
+        });
+      } else {
+        await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+          type: "mouseMoved",
+          x,
+          y,
+          button: "left",
+          buttons: 1,
+        });
+        if (dragData) {
+          // The first move started an HTML5 drag
+          await cdpManager.sendCommand(tabId, "Input.dispatchDragEvent", {
+            type: "dragEnter",
+            x,
+            y,
+            data: dragData,
+          });
+        }
+      }
+    }
+
+    const html5 = dragData !== null;
+    if (html5) {
+      await cdpManager.sendCommand(tabId, "Input.dispatchDragEvent", {
+        type: "drop",
+        x: to.x,
+        y: to.y,
+        data: dragData,
+      });
+    }
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mouseReleased",
+      x: to.x,
+      y: to.y,
+      button: "left",
+      clickCount: 1,
+    });
+
+    console.log(`[InputOperations] Dragged ${description}`);
+    return { from, to, html5 };
+  } catch (error) {
+    throw new Error(`Failed to drag ${description}: ${error}`);
+  } finally {
+    cdpManager.removeEventListener(onDragIntercepted);
+    await cdpManager
+      .sendCommand(tabId, "Input.setInterceptDrags", { enabled: false })
+      .catch(() => undefined);
+  }
+}
+
+// Runs on the scrolled element (or the document's scrolling element)
+const SCROLL_POSITION_FUNCTION = `function(edge) {
+  const el = this;
+  if (edge === 'top') el.scrollTop = 0;
+  if (edge === 'bottom') el.scrollTop = el.scrollHeight;
+  if (edge === 'left') el.scrollLeft = 0;
+  if (edge === 'right') el.scrollLeft = el.scrollWidth;
+  return {
+    scrollX: Math.round(el.scrollLeft),
+    scrollY: Math.round(el.scrollTop),
+    maxScrollX: Math.max(0, el.scrollWidth - el.clientWidth),
+    maxScrollY: Math.max(0, el.scrollHeight - el.clientHeight),
+  };
+}`;
+
+/**
+ * Scroll the page or a scrollable element by pixels or to an edge and
+ * report where it ended up
+ */
+export async function scroll(options: ScrollOptions): Promise<ScrollPosition> {
+  const tabId = await getActiveTabId(options.tabId);
+  const description = hasElementTarget(options)
+    ? describeTarget(options)
+    : "page";
+
+  try {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId, true);
+    }
+
+    // Resolve the element to scroll, or the page's scrolling element
+    let node: { nodeId: number; sessionId?: string };
+    let point: Point;
+    if (hasElementTarget(options)) {
+      const actionable = await waitForActionable(tabId, options, 5000);
+      node = actionable.element;
+      point = actionable.point;
+    } else {
+      const { root } = (await cdpManager.sendCommand(tabId, "DOM.getDocument", {
+        depth: 0,
+      })) as { root: { nodeId: number } };
+      const { nodeId } = (await cdpManager.sendCommand(
+        tabId,
+        "DOM.querySelector",
+        { nodeId: root.nodeId, selector: "html" }
+      )) as { nodeId: number };
+      const { cssLayoutViewport } = (await cdpManager.sendCommand(
+        tabId,
+        "Page.getLayoutMetrics"
+      )) as {
+        cssLayoutViewport: { clientWidth: number; clientHeight: number };
+      };
+      node = { nodeId };
+      point = {
+        x: cssLayoutViewport.clientWidth / 2,
+        y: cssLayoutViewport.clientHeight / 2,
+      };
+    }
+
+    if (options.to) {
+      // Edges are set directly; wheel input cannot know the distance
+      const position = (await callOnNode(
+        tabId,
+        node,
+        SCROLL_POSITION_FUNCTION,
+        [{ value: options.to }]
+      )) as ScrollPosition;
+      console.log(`[InputOperations] Scrolled ${description} to ${options.to}`);
+      return position;
+    }
+
+    // Wheel input lets the page's own scroll handlers run, which infinite
+    // lists rely on to load more items
+    await cdpManager.sendCommand(tabId, "Input.dispatchMouseEvent", {
+      type: "mouseWheel",
+      x: point.x,
+      y: point.y,
+      deltaX: options.deltaX || 0,
+      deltaY: options.deltaY || 0,
+    });
+    await new Promise((resolve) => setTimeout(resolve, SCROLL_SETTLE_MS));
+
+    console.log(
+      `[InputOperations] Scrolled ${description} by (${options.deltaX || 0}, ${
+        options.deltaY || 0
+      })`
+    );
+    return (await callOnNode(tabId, node, SCROLL_POSITION_FUNCTION, [
+      { value: null },
+    ])) as ScrollPosition;
+  } catch (error) {
+    throw new Error(`Failed to scroll ${description}: ${error}`);
+  }
+}
@@ -0,0 +1,291 @@
+// Locator resolution by text, role, label, placeholder or test id
+// Matches visible elements in the page and reports a CSS selector for each
+
+import { Locator } from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+
+/**
+ * An element matched by a locator
+ */
+export interface LocatorMatch {
+  // Unique CSS selector of the element at the time it was matched
+  selector: string;
+  // Short tag, id and text summary for messages
+  description: string;
+}
+
+interface LocateResult {
+  total: number;
+  match: LocatorMatch | null;
+  candidates: LocatorMatch[];
+}
+
+// Candidates listed when a locator is ambiguous
+const MAX_CANDIDATES = 10;
+
+// Runs in the page with the locator as its argument. Only visible elements
+// of the top document are considered; the innermost element wins when an
+// element and its ancestors match the same text.
+const LOCATE_FUNCTION = `function(locator, maxCandidates) {
+  const normalize = (value) => (value || '').replace(/\\s+/g, ' ').trim();
+  const matchText = (actual, expected) => {
+    actual = normalize(actual);
+    expected = normalize(expected);
+    if (!actual) return false;
+    return locator.exact
+      ? actual === expected
+      : actual.toLowerCase().includes(expected.toLowerCase());
+  };
+
+  const isVisible = (el) =>
+    el.getClientRects().length > 0 && getComputedStyle(el).visibility !== 'hidden';
+
+  const isButtonInput = (el) =>
+    el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type);
+
+  const implicitRole = (el) => {
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case 'a':
+      case 'area':
+        return el.hasAttribute('href') ? 'link' : null;
+      case 'button':
+        return 'button';
+      case 'input': {
+        const type = el.type;
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'search') return 'searchbox';
+        if (type === 'hidden') return null;
+        return 'textbox';
+      }
+      case 'textarea':
+        return 'textbox';
+      case 'select':
+        return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+      case 'option':
+        return 'option';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+        return 'heading';
+      case 'img':
+        return el.getAttribute('alt') === '' ? 'presentation' : 'img';
+      case 'ul':
+      case 'ol':
+        return 'list';
+      case 'li':
+        return 'listitem';
+      case 'nav':
+        return 'navigation';
+      case 'main':
+        return 'main';
+      case 'form':
+        return 'form';
+      case 'dialog':
+        return 'dialog';
+      case 'table':
+        return 'table';
+      case 'tr':
+        return 'row';
+      case 'td':
+        return 'cell';
+      case 'th':
+        return 'columnheader';
+      default:
+        return null;
+    }
+  };
+  const roleOf = (el) =>
+    (el.getAttribute('role') || '').trim().split(/\\s+/)[0] || implicitRole(el);
+
+  const labelOf = (el) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return labelledBy
+        .split(/\\s+/)
+        .map((id) => document.getElementById(id)?.textContent || '')
+        .join(' ');
+    }
+    if (el.getAttribute('aria-label')) return el.getAttribute('aria-label');
+    if (el.labels && el.labels.length > 0) {
+      return Array.from(el.labels).map((label) => label.textContent).join(' ');
+    }
+    return '';
+  };
+
+  const textOf = (el) => {
+    if (isButtonInput(el)) return el.value;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)) return '';
+    return el.innerText;
+  };
+
+  const nameOf = (el) =>
+    normalize(labelOf(el)) ||
+    normalize(el.getAttribute('alt')) ||
+    normalize(textOf(el)) ||
+    normalize(el.getAttribute('title')) ||
+    normalize(el.getAttribute('placeholder'));
+
+  let predicate;
+  if (locator.text !== undefined) {
+    predicate = (el) => matchText(textOf(el), locator.text);
+  } else if (locator.role !== undefined) {
+    const role = locator.role.toLowerCase();
+    predicate = (el) =>
+      roleOf(el) === role &&
+      (locator.name === undefined || matchText(nameOf(el), locator.name));
+  } else if (locator.label !== undefined) {
+    predicate = (el) => matchText(labelOf(el), locator.label);
+  } else if (locator.placeholder !== undefined) {
+    predicate = (el) => matchText(el.getAttribute('placeholder'), locator.placeholder);
+  } else {
+    predicate = (el) => el.getAttribute('data-testid') === locator.testId;
+  }
+
+  let found = Array.from(document.body ? document.body.querySelectorAll('*') : [])
+    .filter((el) => predicate(el) && isVisible(el));
+
+  // Text is inherited by every ancestor, so keep only the innermost match
+  if (locator.text !== undefined) {
+    const ancestors = new Set();
+    for (const el of found) {
+      for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+        ancestors.add(parent);
+      }
+    }
+    found = found.filter((el) => !ancestors.has(el));
+  }
+
+  const isUnique = (selector) => document.querySelectorAll(selector).length === 1;
+  const selectorOf = (el) => {
+    if (el.id && isUnique('#' + CSS.escape(el.id))) return '#' + CSS.escape(el.id);
+    const testId = el.getAttribute('data-testid');
+    if (testId) {
+      const selector = '[data-testid="' + CSS.escape(testId) + '"]';
+      if (isUnique(selector)) return selector;
+    }
+
+    const steps = [];
+    for (let node = el; node && node !== document.documentElement; node = node.parentElement) {
+      if (node !== el && node.id && isUnique('#' + CSS.escape(node.id))) {
+        steps.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const siblings = node.parentElement
+        ? Array.from(node.parentElement.children).filter((child) => child.tagName === node.tagName)
+        : [];
+      steps.unshift(
+        siblings.length > 1 ? tag + ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')' : tag
+      );
+    }
+    return steps.join(' > ');
+  };
+
+  const toMatch = (el) => {
+    const tag = el.tagName.toLowerCase();
+    const id = el.id ? '#' + el.id : '';
+    const text = nameOf(el).substring(0, 40);
+    return {
+      selector: selectorOf(el),
+      description: '<' + tag + id + '>' + (text ? ' "' + text + '"' : ''),
+    };
+  };
+
+  const picked = locator.nth !== undefined
+    ? found[locator.nth]
+    : found.length === 1 ? found[0] : undefined;
+
+  return {
+    total: found.length,
+    match: picked ? toMatch(picked) : null,
+    candidates: picked ? [] : found.slice(0, maxCandidates).map(toMatch),
+  };
+}`;
+
+/**
+ * Describe a locator for log and error messages, e.g. role=button name="Save"
+ */
+export function describeLocator(locator: Locator): string {
+  let description: string;
+  if (locator.role !== undefined) {
+    description = `role=${locator.role}`;
+    if (locator.name !== undefined) {
+      description += ` name=${JSON.stringify(locator.name)}`;
+    }
+  } else if (locator.text !== undefined) {
+    description = `text=${JSON.stringify(locator.text)}`;
+  } else if (locator.label !== undefined) {
+    description = `label=${JSON.stringify(locator.label)}`;
+  } else if (locator.placeholder !== undefined) {
+    description = `placeholder=${JSON.stringify(locator.placeholder)}`;
+  } else {
+    description = `testId=${JSON.stringify(locator.testId)}`;
+  }
+
+  if (locator.exact) {
+    description += " exact";
+  }
+  if (locator.nth !== undefined) {
+    description += ` nth=${locator.nth}`;
+  }
+  return description;
+}
+
+/**
+ * Whether an error reports a locator matching several elements
+ */
+export function isAmbiguousLocatorError(error: unknown): boolean {
+  return error instanceof Error && /matched \d+ elements; /.test(error.message);
+}
+
+/**
+ * Find the element a locator points to. Returns null when nothing (or
+ * fewer than nth + 1 elements) matches and throws, listing the candidates,
+ * when several elements match and no nth was given.
+ */
+export async function resolveLocator(
+  tabId: number,
+  locator: Locator
+): Promise<LocatorMatch | null> {
+  const result = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+    expression: `(${LOCATE_FUNCTION})(${JSON.stringify(
+      locator
+    )}, ${MAX_CANDIDATES})`,
+    returnByValue: true,
+    awaitPromise: false,
+  })) as {
+    result: { value?: LocateResult };
+    exceptionDetails?: { text: string };
+  };
+
+  if (result.exceptionDetails || !result.result?.value) {
+    throw new Error(
+      `Could not evaluate locator ${describeLocator(locator)}: ${
+        result.exceptionDetails?.text || "no result"
+      }`
+    );
+  }
+
+  const { total, match, candidates } = result.result.value;
+  if (match || total === 0 || locator.nth !== undefined) {
+    return match;
+  }
+
+  const listed = candidates
+    .map(
+      (candidate, index) =>
+        `  [${index}] ${candidate.description} (${candidate.selector})`
+    )
+    .join("\n");
+  const more =
+    total > candidates.length
+      ? `\n  ... and ${total - candidates.length} more`
+      : "";
+  throw new Error(
+    `Locator ${describeLocator(
+      locator
+    )} matched ${total} elements; pass nth, exact or a narrower locator:\n${listed}${more}`
+  );
+}
@@ -0,0 +1,279 @@
+// Network request recorder
+// Keeps a bounded buffer of requests per tab from the CDP Network domain
+
+import {
+  NETWORK_BUFFER_SIZE,
+  NETWORK_MAX_BODY_CHARS,
+  NetworkEntry,
+} from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+
+export interface NetworkFilter {
+  urlPattern?: string;
+  method?: string;
+  status?: number | string;
+  resourceType?: string;
+  limit?: number;
+}
+
+interface TabRecording {
+  startedAt: number;
+  // Map keeps insertion order, so the first key is the oldest request
+  entries: Map<string, NetworkEntry>;
+}
+
+interface CDPRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  postData?: string;
+}
+
+interface CDPResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  mimeType: string;
+  fromDiskCache?: boolean;
+  fromServiceWorker?: boolean;
+}
+
+/**
+ * Match a URL against a substring, or a glob when the pattern contains *
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) {
+    return url.toLowerCase().includes(pattern.toLowerCase());
+  }
+
+  const regex = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$",
+    "i"
+  );
+  return regex.test(url);
+}
+
+function matchesStatus(entry: NetworkEntry, status: number | string): boolean {
+  if (entry.status === undefined) {
+    return false;
+  }
+  if (typeof status === "number") {
+    return entry.status === status;
+  }
+  return String(entry.status)[0] === status[0];
+}
+
+/**
+ * Summary of an entry without headers or bodies
+ */
+function summarize(entry: NetworkEntry): NetworkEntry {
+  return {
+    requestId: entry.requestId,
+    url: entry.url,
+    method: entry.method,
+    resourceType: entry.resourceType,
+    startedAt: entry.startedAt,
+    status: entry.status,
+    mimeType: entry.mimeType,
+    durationMs: entry.durationMs,
+    encodedDataLength: entry.encodedDataLength,
+    fromCache: entry.fromCache,
+    failed: entry.failed,
+    errorText: entry.errorText,
+  };
+}
+
+export class NetworkRecorder {
+  private recordings = new Map<number, TabRecording>();
+
+  constructor() {
+    cdpManager.addEventListener(this.handleEvent.bind(this));
+
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.recordings.delete(tabId);
+    });
+  }
+
+  /**
+   * Start recording a tab's requests if not already recording.
+   * Returns when recording started.
+   */
+  public async startRecording(tabId: number): Promise<number> {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId);
+    }
+    // Re-enabling after a detach is a no-op when already enabled
+    await cdpManager.enableDomain(tabId, "Network");
+
+    let recording = this.recordings.get(tabId);
+    if (!recording) {
+      recording = { startedAt: Date.now(), entries: new Map() };
+      this.recordings.set(tabId, recording);
+      console.log(`[NetworkRecorder] Recording requests for tab ${tabId}`);
+    }
+    return recording.startedAt;
+  }
+
+  /**
+   * Stop recording a tab and drop its buffer
+   */
+  public async stopRecording(tabId: number): Promise<void> {
+    this.recordings.delete(tabId);
+    await cdpManager.disableDomain(tabId, "Network");
+    console.log(`[NetworkRecorder] Stopped recording tab ${tabId}`);
+  }
+
+  /**
+   * List recorded requests, most recent last
+   */
+  public list(tabId: number, filter: NetworkFilter = {}): NetworkEntry[] {
+    const recording = this.recordings.get(tabId);
+    if (!recording) {
+      return [];
+    }
+
+    const method = filter.method?.toUpperCase();
+    const entries = Array.from(recording.entries.values()).filter(
+      (entry) =>
+        (!filter.urlPattern ||
+          matchesUrlPattern(entry.url, filter.urlPattern)) &&
+        (!method || entry.method === method) &&
+        (filter.status === undefined || matchesStatus(entry, filter.status)) &&
+        (!filter.resourceType || entry.resourceType === filter.resourceType)
+    );
+
+    return entries.slice(-(filter.limit || 50)).map(summarize);
+  }
+
+  /**
+   * Get a recorded request with headers, optionally fetching the response body
+   */
+  public async get(
+    tabId: number,
+    requestId: string,
+    includeBody: boolean = false
+  ): Promise<NetworkEntry> {
+    const entry = this.recordings.get(tabId)?.entries.get(requestId);
+    if (!entry) {
+      throw new Error(
+        `Request ${requestId} not found; it may have been evicted or cleared`
+      );
+    }
+
+    if (!includeBody) {
+      return { ...entry };
+    }
+
+    try {
+      const result = (await cdpManager.sendCommand(
+        tabId,
+        "Network.getResponseBody",
+        { requestId }
+      )) as { body: string; base64Encoded: boolean };
+
+      // Binary bodies are only described, never returned
+      if (result.base64Encoded) {
+        return {
+          ...entry,
+          body: `[binary body, ${result.body.length} base64 chars]`,
+          base64Encoded: true,
+        };
+      }
+
+      return {
+        ...entry,
+        body: result.body.substring(0, NETWORK_MAX_BODY_CHARS),
+        bodyTruncated: result.body.length > NETWORK_MAX_BODY_CHARS,
+      };
+    } catch (error) {
+      throw new Error(
+        `Response body for ${requestId} is not available: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Drop all recorded requests for a tab, keeping recording on
+   */
+  public clear(tabId: number): void {
+    this.recordings.get(tabId)?.entries.clear();
+  }
+
+  private handleEvent(tabId: number, method: string, params: unknown): void {
+    const recording = this.recordings.get(tabId);
+    if (!recording || !method.startsWith("Network.")) {
+      return;
+    }
+
+    const event = params as Record<string, unknown>;
+    const requestId = event.requestId as string;
+
+    switch (method) {
+      case "Network.requestWillBeSent": {
+        const request = event.request as CDPRequest;
+        // Redirects reuse the request id; keep the latest hop
+        recording.entries.delete(requestId);
+        recording.entries.set(requestId, {
+          requestId,
+          url: request.url,
+          method: request.method,
+          resourceType: (event.type as string) || "Other",
+          startedAt: ((event.wallTime as number) || Date.now() / 1000) * 1000,
+          requestHeaders: request.headers,
+          postData: request.postData,
+        });
+
+        // Evict the oldest requests beyond the buffer size
+        while (recording.entries.size > NETWORK_BUFFER_SIZE) {
+          const oldest = recording.entries.keys().next().value;
+          if (oldest === undefined) break;
+          recording.entries.delete(oldest);
+        }
+        break;
+      }
+
+      case "Network.responseReceived": {
+        const entry = recording.entries.get(requestId);
+        if (!entry) break;
+        const response = event.response as CDPResponse;
+        entry.status = response.status;
+        entry.statusText = response.statusText;
+        entry.mimeType = response.mimeType;
+        entry.responseHeaders = response.headers;
+        entry.fromCache =
+          !!response.fromDiskCache || !!response.fromServiceWorker;
+        if (event.type) {
+          entry.resourceType = event.type as string;
+        }
+        break;
+      }
+
+      case "Network.loadingFinished": {
+        const entry = recording.entries.get(requestId);
+        if (!entry) break;
+        entry.encodedDataLength = event.encodedDataLength as number;
+        entry.durationMs = Date.now() - entry.startedAt;
+        break;
+      }
+
+      case "Network.loadingFailed": {
+        const entry = recording.entries.get(requestId);
+        if (!entry) break;
+        entry.failed = true;
+        entry.errorText = event.canceled
+          ? "canceled"
+          : (event.errorText as string);
+        entry.durationMs = Date.now() - entry.startedAt;
+        break;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const networkRecorder = new NetworkRecorder();
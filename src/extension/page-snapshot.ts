@@ -0,0 +1,223 @@
+// Accessibility-tree page snapshots
+// Builds a compact role/name outline with element references for the agent
+
+import { cdpManager } from "./cdp-manager";
+import { elementRefs } from "./element-refs";
+import { getActiveTabId } from "./dom-operations";
+
+export interface PageSnapshotOptions {
+  interactiveOnly?: boolean;
+  tabId?: number;
+}
+
+export interface PageSnapshot {
+  title: string;
+  snapshot: string;
+  nodeCount: number;
+  truncated: boolean;
+}
+
+interface AXValue {
+  type: string;
+  value?: unknown;
+}
+
+interface AXProperty {
+  name: string;
+  value: AXValue;
+}
+
+interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  value?: AXValue;
+  properties?: AXProperty[];
+  childIds?: string[];
+  parentId?: string;
+  backendDOMNodeId?: number;
+}
+
+const MAX_SNAPSHOT_NODES = 2000;
+const MAX_NAME_LENGTH = 100;
+
+// Roles that only group other nodes and add noise when unnamed
+const STRUCTURAL_ROLES = new Set([
+  "generic",
+  "none",
+  "presentation",
+  "InlineTextBox",
+  "LineBreak",
+  "RootWebArea",
+]);
+
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "checkbox",
+  "combobox",
+  "link",
+  "listbox",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+  "treeitem",
+]);
+
+// Node states worth showing, rendered as [name] or [name=value]
+const REPORTED_PROPERTIES = [
+  "level",
+  "checked",
+  "pressed",
+  "selected",
+  "expanded",
+  "disabled",
+  "required",
+  "readonly",
+];
+
+function axString(value?: AXValue): string {
+  if (value?.value === undefined || value.value === null) {
+    return "";
+  }
+  return String(value.value).replace(/\s+/g, " ").trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_NAME_LENGTH
+    ? `${text.substring(0, MAX_NAME_LENGTH)}…`
+    : text;
+}
+
+function shouldInclude(node: AXNode, interactiveOnly: boolean): boolean {
+  if (node.ignored) {
+    return false;
+  }
+
+  const role = axString(node.role);
+  if (interactiveOnly) {
+    return INTERACTIVE_ROLES.has(role);
+  }
+
+  if (role === "StaticText") {
+    return axString(node.name) !== "";
+  }
+
+  return !STRUCTURAL_ROLES.has(role) || axString(node.name) !== "";
+}
+
+function formatNode(node: AXNode, depth: number, ref?: string): string {
+  const role = axString(node.role);
+  const name = truncate(axString(node.name));
+  let line = `${"  ".repeat(depth)}- ${role === "StaticText" ? "text" : role}`;
+
+  if (name) {
+    line += ` ${JSON.stringify(name)}`;
+  }
+
+  for (const property of node.properties || []) {
+    if (!REPORTED_PROPERTIES.includes(property.name)) {
+      continue;
+    }
+    const value = property.value.value;
+    if (value === false || value === "false" || value === undefined) {
+      continue;
+    }
+    line +=
+      value === true || value === "true"
+        ? ` [${property.name}]`
+        : ` [${property.name}=${value}]`;
+  }
+
+  if (ref) {
+    line += ` [ref=${ref}]`;
+  }
+
+  const value = truncate(axString(node.value));
+  if (value && value !== name) {
+    line += `: ${value}`;
+  }
+
+  return line;
+}
+
+/**
+ * Capture the accessibility tree of a tab as an outline with element references
+ */
+export async function capturePageSnapshot(
+  options: PageSnapshotOptions
+): Promise<PageSnapshot> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  try {
+    // Ensure CDP session is attached
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId);
+    }
+    await cdpManager.enableDomain(tabId, "Accessibility");
+
+    const result = (await cdpManager.sendCommand(
+      tabId,
+      "Accessibility.getFullAXTree",
+      {}
+    )) as { nodes: AXNode[] };
+
+    const nodesById = new Map(result.nodes.map((node) => [node.nodeId, node]));
+    const root = result.nodes.find((node) => !node.parentId);
+    if (!root) {
+      throw new Error("Accessibility tree is empty");
+    }
+
+    const lines: string[] = [];
+    let truncated = false;
+
+    const visit = (node: AXNode, depth: number) => {
+      if (lines.length >= MAX_SNAPSHOT_NODES) {
+        truncated = true;
+        return;
+      }
+
+      // Skipped nodes are flattened so their children move up a level
+      const include =
+        node !== root && shouldInclude(node, !!options.interactiveOnly);
+      if (include) {
+        const ref =
+          node.backendDOMNodeId !== undefined &&
+          axString(node.role) !== "StaticText"
+            ? elementRefs.assign(tabId, node.backendDOMNodeId)
+            : undefined;
+        lines.push(formatNode(node, depth, ref));
+      }
+
+      for (const childId of node.childIds || []) {
+        const child = nodesById.get(childId);
+        if (child) {
+          visit(child, include ? depth + 1 : depth);
+        }
+      }
+    };
+
+    visit(root, 0);
+
+    console.log(
+      `[PageSnapshot] Captured ${lines.length} nodes from tab ${tabId}`
+    );
+
+    return {
+      title: axString(root.name),
+      snapshot: lines.join("\n"),
+      nodeCount: lines.length,
+      truncated,
+    };
+  } catch (error) {
+    throw new Error(`Failed to capture page snapshot: ${error}`);
+  }
+}
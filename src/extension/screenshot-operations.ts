@@ -0,0 +1,461 @@
+// Viewport, full-page, element and clipped screenshots using Chrome DevTools Protocol
+// Captures are downscaled so their longest edge stays within a maximum
+
+import { ScreenshotMark } from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+import {
+  ElementInfo,
+  ElementTarget,
+  callOnNode,
+  describeTarget,
+  findElement,
+  getActiveTabId,
+} from "./dom-operations";
+import { elementRefs } from "./element-refs";
+
+export interface ScreenshotOptions extends ElementTarget {
+  fullPage?: boolean;
+  // CSS pixels relative to the viewport
+  clip?: { x: number; y: number; width: number; height: number };
+  format?: "png" | "jpeg" | "webp";
+  quality?: number;
+  // Outline the element in a viewport or full-page capture
+  highlight?: boolean;
+  // Longest edge of the image in pixels
+  maxDimension?: number;
+  tabId?: number;
+}
+
+export interface ScreenshotCapture {
+  data: string; // base64
+  format: "png" | "jpeg" | "webp";
+  mimeType: string;
+  width: number;
+  height: number;
+  // Whether the capture was shrunk to fit maxDimension
+  scaled: boolean;
+  element?: ElementInfo;
+}
+
+export interface AnnotatedScreenshotOptions {
+  format?: "png" | "jpeg" | "webp";
+  quality?: number;
+  maxMarks?: number;
+  maxDimension?: number;
+  tabId?: number;
+}
+
+export interface AnnotatedScreenshot extends ScreenshotCapture {
+  marks: ScreenshotMark[];
+}
+
+type MarkDescription = Pick<ScreenshotMark, "role" | "name">;
+
+interface LayoutMetrics {
+  cssVisualViewport: {
+    pageX: number;
+    pageY: number;
+    clientWidth: number;
+    clientHeight: number;
+  };
+  cssContentSize: { width: number; height: number };
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const HIGHLIGHT_ATTRIBUTE = "data-browser-pilot-highlight";
+
+// Runs on the element and draws an outline over it in its own document
+const HIGHLIGHT_FUNCTION = `function(attribute) {
+  const rect = this.getBoundingClientRect();
+  const view = this.ownerDocument.defaultView;
+  const overlay = this.ownerDocument.createElement('div');
+  overlay.setAttribute(attribute, '');
+  Object.assign(overlay.style, {
+    position: 'absolute',
+    left: rect.left + view.scrollX - 3 + 'px',
+    top: rect.top + view.scrollY - 3 + 'px',
+    width: rect.width + 6 + 'px',
+    height: rect.height + 6 + 'px',
+    border: '3px solid #ff3b30',
+    boxSizing: 'border-box',
+    pointerEvents: 'none',
+    zIndex: '2147483647',
+  });
+  this.ownerDocument.documentElement.appendChild(overlay);
+}`;
+
+const REMOVE_HIGHLIGHT_FUNCTION = `function(attribute) {
+  this.ownerDocument
+    .querySelectorAll('[' + attribute + ']')
+    .forEach((el) => el.remove());
+}`;
+
+const MARKS_ATTRIBUTE = "data-browser-pilot-marks";
+const MARKS_OBJECT_GROUP = "browser-pilot-marks";
+const DEFAULT_MAX_MARKS = 100;
+
+// Collects the interactive elements of the top document that are visible
+// and not covered at their center, in reading order. Elements without a
+// role or tag that gives them away are found by their pointer cursor.
+const COLLECT_MARKS_FUNCTION = `function(maxMarks) {
+  const interactive = [
+    'a[href]', 'button', 'input:not([type=hidden])', 'select', 'textarea',
+    'summary', '[contenteditable=""]', '[contenteditable=true]', '[onclick]',
+    '[tabindex]:not([tabindex="-1"])', '[role=button]', '[role=link]',
+    '[role=checkbox]', '[role=radio]', '[role=switch]', '[role=tab]',
+    '[role=menuitem]', '[role=menuitemcheckbox]', '[role=menuitemradio]',
+    '[role=option]', '[role=treeitem]', '[role=textbox]', '[role=searchbox]',
+    '[role=combobox]', '[role=slider]', '[role=spinbutton]',
+  ].join(', ');
+
+  const candidates = new Set(document.querySelectorAll(interactive));
+  const all = document.body ? document.body.querySelectorAll('*') : [];
+  for (const el of all) {
+    const parent = el.parentElement;
+    if (
+      getComputedStyle(el).cursor === 'pointer' &&
+      !(parent && getComputedStyle(parent).cursor === 'pointer')
+    ) {
+      candidates.add(el);
+    }
+  }
+
+  const marked = [];
+  for (const el of candidates) {
+    const rect = el.getBoundingClientRect();
+    const left = Math.max(rect.left, 0);
+    const top = Math.max(rect.top, 0);
+    const right = Math.min(rect.right, innerWidth);
+    const bottom = Math.min(rect.bottom, innerHeight);
+    if (right - left < 4 || bottom - top < 4) continue;
+    if (getComputedStyle(el).visibility === 'hidden') continue;
+
+    const hit = document.elementFromPoint((left + right) / 2, (top + bottom) / 2);
+    if (!hit || !(el === hit || el.contains(hit) || hit.contains(el))) continue;
+    marked.push({ el, top, left });
+  }
+
+  marked.sort((a, b) => Math.round(a.top) - Math.round(b.top) || a.left - b.left);
+  return marked.slice(0, maxMarks).map((entry) => entry.el);
+}`;
+
+// Runs on the array of marked elements; returns each one's role and name
+const DESCRIBE_MARKS_FUNCTION = `function() {
+  const normalize = (value) => (value || '').replace(/\\s+/g, ' ').trim();
+  const implicitRole = (el) => {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'a') return 'link';
+    if (tag === 'button' || tag === 'summary') return 'button';
+    if (tag === 'select') return 'combobox';
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'input') {
+      if (['button', 'submit', 'reset', 'image'].includes(el.type)) return 'button';
+      if (['checkbox', 'radio'].includes(el.type)) return el.type;
+      if (el.type === 'range') return 'slider';
+      return 'textbox';
+    }
+    return 'generic';
+  };
+  const nameOf = (el) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    const label = labelledBy
+      ? labelledBy
+          .split(/\\s+/)
+          .map((id) => document.getElementById(id)?.textContent || '')
+          .join(' ')
+      : el.getAttribute('aria-label') ||
+        (el.labels && el.labels.length > 0
+          ? Array.from(el.labels).map((label) => label.textContent).join(' ')
+          : '');
+    return normalize(
+      label ||
+        el.getAttribute('alt') ||
+        (['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName)
+          ? el.getAttribute('placeholder') ||
+            (['button', 'submit', 'reset'].includes(el.type) ? el.value : '')
+          : el.innerText) ||
+        el.getAttribute('title')
+    ).substring(0, 80);
+  };
+
+  return this.map((el) => ({
+    role: (el.getAttribute('role') || '').trim().split(/\\s+/)[0] || implicitRole(el),
+    name: nameOf(el),
+  }));
+}`;
+
+// Runs on the array of marked elements and draws a numbered box over each
+const DRAW_MARKS_FUNCTION = `function(attribute) {
+  const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#9a6324', '#800000'];
+  const layer = document.createElement('div');
+  layer.setAttribute(attribute, '');
+  Object.assign(layer.style, {
+    position: 'fixed',
+    inset: '0',
+    pointerEvents: 'none',
+    zIndex: '2147483647',
+  });
+
+  this.forEach((el, index) => {
+    const rect = el.getBoundingClientRect();
+    const color = colors[index % colors.length];
+    const box = document.createElement('div');
+    Object.assign(box.style, {
+      position: 'fixed',
+      left: rect.left + 'px',
+      top: rect.top + 'px',
+      width: rect.width + 'px',
+      height: rect.height + 'px',
+      border: '2px solid ' + color,
+      boxSizing: 'border-box',
+    });
+
+    const label = document.createElement('div');
+    label.textContent = String(index + 1);
+    Object.assign(label.style, {
+      position: 'fixed',
+      left: Math.max(rect.left, 0) + 'px',
+      top: Math.max(rect.top - 16, 0) + 'px',
+      background: color,
+      color: '#fff',
+      font: 'bold 12px/16px sans-serif',
+      padding: '0 4px',
+      borderRadius: '2px',
+    });
+
+    layer.appendChild(box);
+    layer.appendChild(label);
+  });
+
+  document.documentElement.appendChild(layer);
+}`;
+
+/**
+ * Capture the viewport, the whole page, an element or a clipped region
+ */
+export async function captureScreenshot(
+  options: ScreenshotOptions
+): Promise<ScreenshotCapture> {
+  const tabId = await getActiveTabId(options.tabId);
+  const format = options.format ?? "png";
+
+  // Screenshots don't need the Input domain
+  if (!cdpManager.isAttached(tabId)) {
+    await cdpManager.attachToTab(tabId, false);
+  }
+
+  const { cssVisualViewport: viewport, cssContentSize: content } =
+    (await cdpManager.sendCommand(
+      tabId,
+      "Page.getLayoutMetrics"
+    )) as LayoutMetrics;
+
+  let element: ElementInfo | undefined;
+  if (options.selector || options.ref || options.locator) {
+    element = await findElement(tabId, options);
+    if (!element.boundingBox) {
+      throw new Error(
+        `Element "${describeTarget(options)}" has no layout box to capture`
+      );
+    }
+  }
+
+  // Regions are in page coordinates, so the viewport scroll is added in
+  let region: Region;
+  if (element?.boundingBox && !options.highlight) {
+    region = {
+      ...element.boundingBox,
+      x: element.boundingBox.x + viewport.pageX,
+      y: element.boundingBox.y + viewport.pageY,
+    };
+  } else if (options.clip) {
+    region = {
+      ...options.clip,
+      x: options.clip.x + viewport.pageX,
+      y: options.clip.y + viewport.pageY,
+    };
+  } else if (options.fullPage) {
+    region = { x: 0, y: 0, width: content.width, height: content.height };
+  } else {
+    region = {
+      x: viewport.pageX,
+      y: viewport.pageY,
+      width: viewport.clientWidth,
+      height: viewport.clientHeight,
+    };
+  }
+
+  if (region.width < 1 || region.height < 1) {
+    throw new Error("Nothing to capture: the region is empty");
+  }
+
+  const { result } = (await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+    expression: "window.devicePixelRatio",
+    returnByValue: true,
+  })) as { result: { value?: number } };
+  const pixelRatio = result.value || 1;
+
+  const longestEdge = Math.max(region.width, region.height) * pixelRatio;
+  const scale =
+    options.maxDimension && longestEdge > options.maxDimension
+      ? options.maxDimension / longestEdge
+      : 1;
+
+  const beyondViewport =
+    region.x < viewport.pageX ||
+    region.y < viewport.pageY ||
+    region.x + region.width > viewport.pageX + viewport.clientWidth ||
+    region.y + region.height > viewport.pageY + viewport.clientHeight;
+
+  if (element && options.highlight) {
+    await callOnNode(tabId, element, HIGHLIGHT_FUNCTION, [
+      { value: HIGHLIGHT_ATTRIBUTE },
+    ]);
+  }
+
+  let data: string;
+  try {
+    ({ data } = (await cdpManager.sendCommand(tabId, "Page.captureScreenshot", {
+      format,
+      ...(format !== "png" && { quality: options.quality ?? 80 }),
+      clip: { ...region, scale },
+      captureBeyondViewport: beyondViewport,
+    })) as { data: string });
+  } finally {
+    if (element && options.highlight) {
+      await callOnNode(tabId, element, REMOVE_HIGHLIGHT_FUNCTION, [
+        { value: HIGHLIGHT_ATTRIBUTE },
+      ]).catch((error) =>
+        console.warn(
+          "[ScreenshotOperations] Could not remove highlight:",
+          error
+        )
+      );
+    }
+  }
+
+  const width = Math.round(region.width * pixelRatio * scale);
+  const height = Math.round(region.height * pixelRatio * scale);
+  console.log(
+    `[ScreenshotOperations] Captured ${width}x${height} ${format}${
+      scale < 1 ? ` (scaled to ${Math.round(scale * 100)}%)` : ""
+    }`
+  );
+
+  return {
+    data,
+    format,
+    mimeType: `image/${format}`,
+    width,
+    height,
+    scaled: scale < 1,
+    element,
+  };
+}
+
+/**
+ * Capture the viewport with a numbered box over every interactive element.
+ * The marks are remembered for the tab so element tools accept { mark }.
+ */
+export async function captureAnnotatedScreenshot(
+  options: AnnotatedScreenshotOptions
+): Promise<AnnotatedScreenshot> {
+  const tabId = await getActiveTabId(options.tabId);
+
+  if (!cdpManager.isAttached(tabId)) {
+    await cdpManager.attachToTab(tabId);
+  }
+
+  try {
+    const { result: elements } = (await cdpManager.sendCommand(
+      tabId,
+      "Runtime.evaluate",
+      {
+        expression: `(${COLLECT_MARKS_FUNCTION})(${
+          options.maxMarks ?? DEFAULT_MAX_MARKS
+        })`,
+        objectGroup: MARKS_OBJECT_GROUP,
+        returnByValue: false,
+      }
+    )) as { result: { objectId?: string } };
+    if (!elements.objectId) {
+      throw new Error("Could not collect interactive elements");
+    }
+
+    const callOnElements = async (
+      functionDeclaration: string,
+      args: { value: unknown }[] = []
+    ) =>
+      (
+        (await cdpManager.sendCommand(tabId, "Runtime.callFunctionOn", {
+          objectId: elements.objectId,
+          functionDeclaration,
+          arguments: args,
+          returnByValue: true,
+        })) as { result: { value?: unknown } }
+      ).result.value;
+
+    const described = (await callOnElements(
+      DESCRIBE_MARKS_FUNCTION
+    )) as MarkDescription[];
+
+    // Marks point at page_snapshot references so they resolve the same way
+    const { result: properties } = (await cdpManager.sendCommand(
+      tabId,
+      "Runtime.getProperties",
+      { objectId: elements.objectId, ownProperties: true }
+    )) as { result: { name: string; value?: { objectId?: string } }[] };
+    const refs: string[] = [];
+    for (let index = 0; index < described.length; index++) {
+      const objectId = properties.find(
+        (property) => property.name === String(index)
+      )?.value?.objectId;
+      const { node } = (await cdpManager.sendCommand(
+        tabId,
+        "DOM.describeNode",
+        { objectId }
+      )) as { node: { backendNodeId: number } };
+      refs.push(elementRefs.assign(tabId, node.backendNodeId));
+    }
+    elementRefs.setMarks(tabId, refs);
+
+    await callOnElements(DRAW_MARKS_FUNCTION, [{ value: MARKS_ATTRIBUTE }]);
+    let capture: ScreenshotCapture;
+    try {
+      capture = await captureScreenshot({
+        format: options.format,
+        quality: options.quality,
+        maxDimension: options.maxDimension,
+        tabId,
+      });
+    } finally {
+      await cdpManager.sendCommand(tabId, "Runtime.evaluate", {
+        expression: `document.querySelectorAll('[${MARKS_ATTRIBUTE}]').forEach((el) => el.remove())`,
+      });
+    }
+
+    const marks = described.map(({ role, name }, index) => ({
+      mark: index + 1,
+      ref: refs[index],
+      role,
+      name,
+    }));
+    console.log(
+      `[ScreenshotOperations] Annotated ${marks.length} elements in tab ${tabId}`
+    );
+
+    return { ...capture, marks };
+  } finally {
+    await cdpManager
+      .sendCommand(tabId, "Runtime.releaseObjectGroup", {
+        objectGroup: MARKS_OBJECT_GROUP,
+      })
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,218 @@
+// Selector resolution across shadow roots and frames
+// Extends CSS with "frame=<css> >> <css>" steps and a ">>>" shadow combinator
+
+import { cdpManager } from "./cdp-manager";
+
+/**
+ * One " >> " separated step of a selector. Hops are the ">>>" separated
+ * CSS selectors; each one after the first is matched inside the shadow
+ * root of the previous match (or its light DOM when it has none).
+ */
+export interface SelectorPart {
+  kind: "css" | "frame";
+  hops: string[];
+}
+
+/**
+ * A node matched by a selector, with the session and frame offset needed
+ * to act on it
+ */
+export interface ResolvedNode {
+  nodeId: number;
+  // Child session when the node lives in an out-of-process iframe
+  sessionId?: string;
+  // Position of that iframe in the tab viewport
+  offset: { x: number; y: number };
+}
+
+interface DOMNode {
+  nodeId: number;
+  nodeName: string;
+  frameId?: string;
+  children?: DOMNode[];
+  shadowRoots?: DOMNode[];
+  contentDocument?: DOMNode;
+}
+
+interface Scope {
+  rootNodeId: number;
+  sessionId?: string;
+  offset: { x: number; y: number };
+  nodes: Map<number, DOMNode>;
+}
+
+/**
+ * Split a selector into css and frame steps, e.g.
+ * "frame=iframe#checkout >> my-form >>> input[name=card]"
+ */
+export function parseSelector(selector: string): SelectorPart[] {
+  const parts = selector
+    .trim()
+    .split(/\s+>>\s+/)
+    .map((raw): SelectorPart => {
+      let kind: SelectorPart["kind"] = "css";
+      let body = raw.trim();
+      if (body.startsWith("frame=")) {
+        kind = "frame";
+        body = body.slice("frame=".length);
+      } else if (body.startsWith("css=")) {
+        body = body.slice("css=".length);
+      }
+
+      const hops = body.split(">>>").map((hop) => hop.trim());
+      if (hops.some((hop) => !hop)) {
+        throw new Error(`Invalid selector "${selector}": empty step`);
+      }
+      return { kind, hops };
+    });
+
+  if (parts[parts.length - 1].kind === "frame") {
+    throw new Error(
+      `Invalid selector "${selector}": frame=... must be followed by " >> " and a selector inside the frame`
+    );
+  }
+
+  return parts;
+}
+
+/**
+ * Resolve a selector to a node, or null when nothing matches
+ */
+export async function resolveSelector(
+  tabId: number,
+  selector: string
+): Promise<ResolvedNode | null> {
+  const parts = parseSelector(selector);
+
+  // Plain CSS needs neither the pierced tree nor frame handling
+  if (parts.length === 1 && parts[0].hops.length === 1) {
+    const { root } = (await cdpManager.sendCommand(tabId, "DOM.getDocument", {
+      depth: 0,
+      pierce: false,
+    })) as { root: DOMNode };
+    const { nodeId } = (await cdpManager.sendCommand(
+      tabId,
+      "DOM.querySelector",
+      { nodeId: root.nodeId, selector: parts[0].hops[0] }
+    )) as { nodeId: number };
+    return nodeId ? { nodeId, offset: { x: 0, y: 0 } } : null;
+  }
+
+  let scope = await loadScope(tabId, undefined, { x: 0, y: 0 });
+  for (const part of parts) {
+    const nodeId = await queryHops(tabId, scope, part.hops);
+    if (!nodeId) {
+      return null;
+    }
+
+    if (part.kind === "css") {
+      // Only the last step may be css, so this is the match
+      return { nodeId, sessionId: scope.sessionId, offset: scope.offset };
+    }
+
+    scope = await enterFrame(tabId, scope, nodeId, part);
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a document with shadow roots and same-process frames included,
+ * indexed by node id
+ */
+async function loadScope(
+  tabId: number,
+  sessionId: string | undefined,
+  offset: { x: number; y: number }
+): Promise<Scope> {
+  const { root } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.getDocument",
+    { depth: -1, pierce: true },
+    sessionId
+  )) as { root: DOMNode };
+
+  const nodes = new Map<number, DOMNode>();
+  const index = (node: DOMNode) => {
+    nodes.set(node.nodeId, node);
+    node.children?.forEach(index);
+    node.shadowRoots?.forEach(index);
+    if (node.contentDocument) {
+      index(node.contentDocument);
+    }
+  };
+  index(root);
+
+  return { rootNodeId: root.nodeId, sessionId, offset, nodes };
+}
+
+/**
+ * Match ">>>" separated hops, stepping into shadow roots between them
+ */
+async function queryHops(
+  tabId: number,
+  scope: Scope,
+  hops: string[]
+): Promise<number> {
+  let nodeId = scope.rootNodeId;
+
+  for (const [index, hop] of hops.entries()) {
+    const searchRoot =
+      index === 0
+        ? nodeId
+        : scope.nodes.get(nodeId)?.shadowRoots?.[0]?.nodeId ?? nodeId;
+
+    const result = (await cdpManager.sendCommand(
+      tabId,
+      "DOM.querySelector",
+      { nodeId: searchRoot, selector: hop },
+      scope.sessionId
+    )) as { nodeId: number };
+
+    if (!result.nodeId) {
+      return 0;
+    }
+    nodeId = result.nodeId;
+  }
+
+  return nodeId;
+}
+
+/**
+ * Continue resolution inside the document of a matched iframe
+ */
+async function enterFrame(
+  tabId: number,
+  scope: Scope,
+  nodeId: number,
+  part: SelectorPart
+): Promise<Scope> {
+  const frame = scope.nodes.get(nodeId);
+  const description = `frame=${part.hops.join(" >>> ")}`;
+  if (!frame || !["IFRAME", "FRAME"].includes(frame.nodeName)) {
+    throw new Error(`${description} matched a non-frame element`);
+  }
+
+  // Same-process frames are part of the pierced tree already
+  if (frame.contentDocument) {
+    return { ...scope, rootNodeId: frame.contentDocument.nodeId };
+  }
+
+  if (!frame.frameId) {
+    throw new Error(`${description} has no document loaded yet`);
+  }
+
+  // Out-of-process frames report coordinates relative to themselves
+  const { model } = (await cdpManager.sendCommand(
+    tabId,
+    "DOM.getBoxModel",
+    { nodeId },
+    scope.sessionId
+  )) as { model: { content: number[] } };
+  const sessionId = await cdpManager.getFrameSession(tabId, frame.frameId);
+
+  return loadScope(tabId, sessionId, {
+    x: scope.offset.x + model.content[0],
+    y: scope.offset.y + model.content[1],
+  });
+}
@@ -1,7 +1,20 @@
 // Service worker for Browser Pilot MCP extension
 // Handles WebSocket communication with MCP server
 
-import { BridgeMessage, BridgeResponse, WEBSOCKET_PORT } from "@/shared/types";
+import {
+  APPROVAL_TIMEOUT_MS,
+  BRIDGE_CLOSE_CODES,
+  BRIDGE_PROTOCOL_VERSION,
+  BridgeMessage,
+  BridgeResponse,
+  ConsoleEntry,
+  ConsoleLevel,
+  LoadState,
+  Locator,
+  PendingAction,
+  ToolResponse,
+  WEBSOCKET_PORT,
+} from "@/shared/types";
 import { cdpManager } from "./cdp-manager";
 import {
   clickElement,
@@ -10,7 +23,33 @@ import {
   readText,
   readDom,
   executeJavaScript,
+  fillForm,
+  ElementTarget,
+  FormFieldOptions,
+  getActiveTabId,
+  locateElement,
+  describeElement,
 } from "./dom-operations";
+import { extract } from "./extract-operations";
+import {
+  captureAnnotatedScreenshot,
+  captureScreenshot,
+} from "./screenshot-operations";
+import {
+  DragEndpointOptions,
+  dragAndDrop,
+  hoverElement,
+  pressKeys,
+  scroll,
+} from "./input-operations";
+import { capturePageSnapshot } from "./page-snapshot";
+import { networkRecorder } from "./network-recorder";
+import { consoleRecorder } from "./console-recorder";
+import {
+  WaitCondition,
+  navigateAndWait,
+  waitForCondition,
+} from "./wait-operations";
 
 interface ConnectionStatus {
   connected: boolean;
@@ -26,6 +65,161 @@ interface MessageHandler {
   timeoutId: ReturnType<typeof setTimeout>;
 }
 
+const PROFILE_LABEL_KEY = "browser-pilot-profile-label";
+
+/**
+ * Get the label this browser profile announces to the MCP server,
+ * generating a stable default on first use
+ */
+async function getProfileLabel(): Promise<string> {
+  const result = await chrome.storage.local.get([PROFILE_LABEL_KEY]);
+  if (typeof result[PROFILE_LABEL_KEY] === "string") {
+    return result[PROFILE_LABEL_KEY];
+  }
+
+  const label = `profile-${crypto.randomUUID().substring(0, 8)}`;
+  await chrome.storage.local.set({ [PROFILE_LABEL_KEY]: label });
+  return label;
+}
+
+const PAIRING_SECRET_KEY = "browser-pilot-bridge-secret";
+
+// Shared with the side panel, which renders and edits the list
+const DOMAIN_POLICIES_KEY = "browser-pilot-domain-policies";
+
+/**
+ * Get the pairing secret pasted from the MCP server's bridge-secret file
+ */
+async function getPairingSecret(): Promise<string> {
+  const result = await chrome.storage.local.get([PAIRING_SECRET_KEY]);
+  return typeof result[PAIRING_SECRET_KEY] === "string"
+    ? result[PAIRING_SECRET_KEY]
+    : "";
+}
+
+/**
+ * Read the element target (CSS selector, page_snapshot reference, locator
+ * or screenshot_annotated mark) from a command payload
+ */
+function getElementTarget(payload: Record<string, unknown>): ElementTarget {
+  const { selector, ref, locator, mark } = payload;
+  if (typeof ref === "string" && ref) {
+    return { ref };
+  }
+  if (typeof mark === "number") {
+    return { mark };
+  }
+  if (typeof selector === "string" && selector) {
+    return { selector };
+  }
+  // Locators are validated by the server schema
+  if (locator && typeof locator === "object") {
+    return { locator: locator as Locator };
+  }
+  throw new Error("Either selector, ref, locator or mark is required");
+}
+
+/**
+ * Optional element target of tools that also work on the whole page
+ */
+function getOptionalElementTarget(
+  payload: Record<string, unknown>
+): ElementTarget {
+  const { selector, ref, locator, mark } = payload;
+  if ([selector, ref, locator, mark].every((target) => target === undefined)) {
+    return {};
+  }
+  return getElementTarget(payload);
+}
+
+/**
+ * Page condition of wait_for, or undefined when it waits for an element
+ */
+function getWaitCondition(
+  payload: Record<string, unknown>
+): WaitCondition | undefined {
+  const { state, urlMatches, textAppears, selectorHidden, js } = payload;
+  // Load states are validated by the server schema
+  if (typeof state === "string") {
+    return { state: state as LoadState };
+  }
+  if (typeof urlMatches === "string") {
+    return { urlMatches };
+  }
+  if (typeof textAppears === "string") {
+    return { textAppears };
+  }
+  if (typeof selectorHidden === "string") {
+    return { selectorHidden };
+  }
+  if (typeof js === "string") {
+    return { js };
+  }
+  return undefined;
+}
+
+/**
+ * Drag endpoint: an element target or viewport coordinates
+ */
+function getDragEndpoint(endpoint: unknown): DragEndpointOptions {
+  if (!endpoint || typeof endpoint !== "object") {
+    throw new Error("Drag source and target are required");
+  }
+  const { x, y } = endpoint as Record<string, unknown>;
+  if (typeof x === "number" && typeof y === "number") {
+    return { x, y };
+  }
+  return getElementTarget(endpoint as Record<string, unknown>);
+}
+
+/**
+ * Selector for the read tools: the given one, the one a locator resolves
+ * to, or undefined for the whole page
+ */
+async function getReadSelector(
+  payload: Record<string, unknown>
+): Promise<string | undefined> {
+  const { selector, locator, tabId } = payload;
+  if (typeof selector === "string") {
+    return selector;
+  }
+  if (locator && typeof locator === "object") {
+    return locateElement(
+      locator as Locator,
+      typeof tabId === "number" ? tabId : undefined
+    );
+  }
+  return undefined;
+}
+
+// Characters returned by read_text when the caller gives no maxChars
+const READ_MAX_CHARS = 50000;
+
+// Time allowed for errors raised by an action's handlers to be reported
+const ACTION_ERROR_SETTLE_MS = 250;
+
+/**
+ * Console errors recorded for a tab after the given cursor
+ */
+async function collectActionErrors(
+  tabId: number,
+  cursor: number
+): Promise<ConsoleEntry[]> {
+  await new Promise((resolve) => setTimeout(resolve, ACTION_ERROR_SETTLE_MS));
+  return consoleRecorder.list(tabId, { since: cursor, level: "error" }).entries;
+}
+
+/**
+ * Best-effort browser name from the user agent
+ */
+function getBrowserName(): string {
+  const userAgent = navigator.userAgent;
+  if (userAgent.includes("Edg/")) return "Edge";
+  if (userAgent.includes("OPR/")) return "Opera";
+  if (userAgent.includes("Chrome/")) return "Chrome";
+  return "Chromium";
+}
+
 class MCPBridge {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
@@ -77,6 +271,11 @@ class MCPBridge {
           lastConnected: Date.now(),
         };
         this.notifyConnectionStatusChange();
+        // hello must be the first message, so other syncs wait for it
+        this.announceClient().then(() => {
+          this.syncOperationMode();
+          this.subscribeToPolicies();
+        });
       };
 
       this.ws.onmessage = (event) => {
@@ -101,6 +300,17 @@ class MCPBridge {
         );
         this.ws = null;
         this.connectionStatus.connected = false;
+
+        // Retrying cannot fix a refused handshake until the user pairs again
+        if (
+          event.code === BRIDGE_CLOSE_CODES.UNAUTHORIZED ||
+          event.code === BRIDGE_CLOSE_CODES.PROTOCOL_MISMATCH
+        ) {
+          this.connectionStatus.lastError = `Pairing failed: ${event.reason}`;
+          this.notifyConnectionStatusChange();
+          return;
+        }
+
         this.connectionStatus.lastError = `Connection closed: ${
           event.reason || "Unknown reason"
         }`;
@@ -129,6 +339,12 @@ class MCPBridge {
   private async handleIncomingMessage(message: BridgeMessage): Promise<void> {
     console.log("[MCPBridge] Received server message:", message.cmd);
 
+    // Server notifications expect no reply
+    if (message.cmd === "config_changed") {
+      this.handleConfigChanged(message.payload);
+      return;
+    }
+
     try {
       let response: BridgeResponse;
 
@@ -177,14 +393,61 @@ class MCPBridge {
         case "wait_for":
           response = await this.handleWaitFor(message);
           break;
+        case "fill_form":
+          response = await this.handleFillForm(message);
+          break;
+        case "press_keys":
+          response = await this.handlePressKeys(message);
+          break;
+        case "hover":
+          response = await this.handleHover(message);
+          break;
+        case "double_click":
+          response = await this.handleClickVariant(message, "left", 2);
+          break;
+        case "right_click":
+          response = await this.handleClickVariant(message, "right", 1);
+          break;
+        case "drag_and_drop":
+          response = await this.handleDragAndDrop(message);
+          break;
+        case "scroll":
+          response = await this.handleScroll(message);
+          break;
+        case "extract":
+          response = await this.handleExtract(message);
+          break;
+        case "page_snapshot":
+          response = await this.handlePageSnapshot(message);
+          break;
+        case "describe_element":
+          response = await this.handleDescribeElement(message);
+          break;
         case "eval_js":
           response = await this.handleEvalJs(message);
           break;
 
+        // Network inspection commands
+        case "network_list":
+          response = await this.handleNetworkList(message);
+          break;
+        case "network_get":
+          response = await this.handleNetworkGet(message);
+          break;
+        case "network_clear":
+          response = await this.handleNetworkClear(message);
+          break;
+        case "console_logs":
+          response = await this.handleConsoleLogs(message);
+          break;
+
         // Utility commands
         case "screenshot":
           response = await this.handleScreenshot(message);
           break;
+        case "screenshot_annotated":
+          response = await this.handleScreenshotAnnotated(message);
+          break;
         case "download_current":
           response = await this.handleDownloadCurrent(message);
           break;
@@ -277,6 +540,76 @@ class MCPBridge {
     }, delay);
   }
 
+  public announceClient(): Promise<void> {
+    // Authenticates the connection and lets the server tell browser
+    // profiles apart when several are connected
+    return Promise.all([getProfileLabel(), getPairingSecret()])
+      .then(([profile, secret]) => {
+        this.sendEvent("hello", {
+          protocolVersion: BRIDGE_PROTOCOL_VERSION,
+          secret,
+          profile,
+          browser: getBrowserName(),
+          extensionVersion: chrome.runtime.getManifest().version,
+        });
+      })
+      .catch((error) => {
+        console.warn("[MCPBridge] Failed to announce client:", error);
+      });
+  }
+
+  private syncOperationMode(): void {
+    // The server starts in "auto" mode, so restore the user's choice on connect
+    chrome.storage.local
+      .get(["operation-mode"])
+      .then((result) => {
+        if (result["operation-mode"]) {
+          this.sendEvent("operation_mode_changed", {
+            mode: result["operation-mode"],
+          });
+        }
+      })
+      .catch(() => {
+        // Ignore storage errors
+      });
+  }
+
+  private subscribeToPolicies(): void {
+    // The server pushes config_changed for later edits from any source
+    this.sendCommand("policy_subscribe")
+      .then((response) => {
+        const { data } = response as ToolResponse;
+        if (data) {
+          this.handleConfigChanged(data);
+        }
+      })
+      .catch((error) => {
+        console.warn("[MCPBridge] Failed to subscribe to policies:", error);
+      });
+  }
+
+  /**
+   * Mirror the server's allowlist after it changed (or on connect), so the
+   * side panel shows the domains the server actually enforces
+   */
+  private handleConfigChanged(payload: Record<string, unknown>): void {
+    const { allowlist } = payload;
+    if (!allowlist || typeof allowlist !== "object") {
+      return;
+    }
+
+    chrome.storage.sync
+      .set({ [DOMAIN_POLICIES_KEY]: allowlist })
+      .catch((error) => {
+        console.error("[MCPBridge] Failed to store domain policies:", error);
+      });
+    chrome.runtime
+      .sendMessage({ type: "CONFIG_CHANGED", allowlist })
+      .catch(() => {
+        // Ignore errors if no listeners
+      });
+  }
+
   private notifyConnectionStatusChange(): void {
     // Notify side panel and other components about connection status changes
     chrome.runtime
@@ -291,7 +624,8 @@ class MCPBridge {
 
   public async sendCommand(
     cmd: string,
-    payload: Record<string, unknown> = {}
+    payload: Record<string, unknown> = {},
+    timeoutMs: number = this.messageTimeoutMs
   ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
@@ -312,9 +646,9 @@ class MCPBridge {
         const handler = this.messageHandlers.get(messageId);
         if (handler) {
           this.messageHandlers.delete(messageId);
-          reject(new Error(`Command timeout after ${this.messageTimeoutMs}ms`));
+          reject(new Error(`Command timeout after ${timeoutMs}ms`));
         }
-      }, this.messageTimeoutMs);
+      }, timeoutMs);
 
       // Store message handler
       this.messageHandlers.set(messageId, {
@@ -335,6 +669,28 @@ class MCPBridge {
     });
   }
 
+  /**
+   * Push a fire-and-forget event to the MCP server (no reply expected)
+   */
+  public sendEvent(cmd: string, payload: Record<string, unknown> = {}): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const message: BridgeMessage = {
+      id: crypto.randomUUID(),
+      cmd,
+      payload,
+      timestamp: Date.now(),
+    };
+
+    try {
+      this.ws.send(JSON.stringify(message));
+    } catch (error) {
+      console.warn(`[MCPBridge] Failed to send event ${cmd}:`, error);
+    }
+  }
+
   public getConnectionStatus(): ConnectionStatus {
     return { ...this.connectionStatus };
   }
@@ -392,12 +748,29 @@ class MCPBridge {
 
   private async handleOpenTab(message: BridgeMessage): Promise<BridgeResponse> {
     try {
-      const { url } = message.payload;
+      const { url, waitUntil, timeout_ms } = message.payload;
       if (!url || typeof url !== "string") {
         throw new Error("URL is required and must be a string");
       }
 
-      const tab = await chrome.tabs.create({ url });
+      let tab: chrome.tabs.Tab;
+      if (typeof waitUntil === "string") {
+        // Start blank so the navigation can be followed from its beginning
+        const blankTab = await chrome.tabs.create({ url: "about:blank" });
+        const blankTabId = blankTab.id;
+        if (!blankTabId) {
+          throw new Error("Failed to open tab");
+        }
+        await navigateAndWait(
+          blankTabId,
+          () => chrome.tabs.update(blankTabId, { url }),
+          waitUntil as LoadState,
+          typeof timeout_ms === "number" ? timeout_ms : undefined
+        );
+        tab = await chrome.tabs.get(blankTabId);
+      } else {
+        tab = await chrome.tabs.create({ url });
+      }
 
       return {
         replyTo: message.id,
@@ -428,7 +801,7 @@ class MCPBridge {
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { url, tabId } = message.payload;
+      const { url, tabId, waitUntil, timeout_ms } = message.payload;
 
       if (!url || typeof url !== "string") {
         throw new Error("URL is required and must be a string");
@@ -450,31 +823,14 @@ class MCPBridge {
         targetTabId = activeTab.id;
       }
 
-      await chrome.tabs.update(targetTabId, { url });
-
-      // Wait for navigation to complete
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          chrome.tabs.onUpdated.removeListener(listener);
-          reject(new Error("Navigation timeout"));
-        }, 10000);
-
-        const listener = (
-          updatedTabId: number,
-          changeInfo: chrome.tabs.TabChangeInfo
-        ) => {
-          if (
-            updatedTabId === targetTabId &&
-            changeInfo.status === "complete"
-          ) {
-            clearTimeout(timeout);
-            chrome.tabs.onUpdated.removeListener(listener);
-            resolve();
-          }
-        };
-
-        chrome.tabs.onUpdated.addListener(listener);
-      });
+      const loadState =
+        typeof waitUntil === "string" ? (waitUntil as LoadState) : "load";
+      await navigateAndWait(
+        targetTabId,
+        () => chrome.tabs.update(targetTabId, { url }),
+        loadState,
+        typeof timeout_ms === "number" ? timeout_ms : undefined
+      );
 
       const tab = await chrome.tabs.get(targetTabId);
 
@@ -658,7 +1014,7 @@ class MCPBridge {
 
   private async handleReload(message: BridgeMessage): Promise<BridgeResponse> {
     try {
-      const { tabId } = message.payload;
+      const { tabId, waitUntil, timeout_ms } = message.payload;
 
       let targetTabId: number;
 
@@ -676,31 +1032,14 @@ class MCPBridge {
         targetTabId = activeTab.id;
       }
 
-      await chrome.tabs.reload(targetTabId);
-
-      // Wait for reload to complete
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          chrome.tabs.onUpdated.removeListener(listener);
-          reject(new Error("Reload timeout"));
-        }, 10000);
-
-        const listener = (
-          updatedTabId: number,
-          changeInfo: chrome.tabs.TabChangeInfo
-        ) => {
-          if (
-            updatedTabId === targetTabId &&
-            changeInfo.status === "complete"
-          ) {
-            clearTimeout(timeout);
-            chrome.tabs.onUpdated.removeListener(listener);
-            resolve();
-          }
-        };
-
-        chrome.tabs.onUpdated.addListener(listener);
-      });
+      const loadState =
+        typeof waitUntil === "string" ? (waitUntil as LoadState) : "load";
+      await navigateAndWait(
+        targetTabId,
+        () => chrome.tabs.reload(targetTabId),
+        loadState,
+        typeof timeout_ms === "number" ? timeout_ms : undefined
+      );
 
       const tab = await chrome.tabs.get(targetTabId);
 
@@ -808,15 +1147,22 @@ class MCPBridge {
 
   private async handleClick(message: BridgeMessage): Promise<BridgeResponse> {
     try {
-      const { selector, tabId } = message.payload;
+      const { includeErrors, timeout_ms, tabId } = message.payload;
+      const target = getElementTarget(message.payload);
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
 
-      if (!selector || typeof selector !== "string") {
-        throw new Error("Selector is required and must be a string");
+      let cursor = 0;
+      if (includeErrors === true) {
+        await consoleRecorder.startCapture(resolvedTabId);
+        cursor = consoleRecorder.getCursor(resolvedTabId);
       }
 
-      await clickElement({
-        selector,
-        tabId: typeof tabId === "number" ? tabId : undefined,
+      const element = await clickElement({
+        ...target,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : undefined,
+        tabId: resolvedTabId,
       });
 
       return {
@@ -824,11 +1170,15 @@ class MCPBridge {
         payload: {
           success: true,
           data: {
-            selector,
+            ...target,
+            ...(element.selector && { selector: element.selector }),
             action: "clicked",
+            ...(includeErrors === true && {
+              errors: await collectActionErrors(resolvedTabId, cursor),
+            }),
           },
           metadata: {
-            tabId: typeof tabId === "number" ? tabId : undefined,
+            tabId: resolvedTabId,
             timestamp: Date.now(),
           },
         },
@@ -846,21 +1196,30 @@ class MCPBridge {
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { selector, text, submit, tabId } = message.payload;
-
-      if (!selector || typeof selector !== "string") {
-        throw new Error("Selector is required and must be a string");
-      }
+      const { text, submit, includeErrors, timeout_ms, tabId } =
+        message.payload;
+      const target = getElementTarget(message.payload);
 
       if (!text || typeof text !== "string") {
         throw new Error("Text is required and must be a string");
       }
 
-      await typeText({
-        selector,
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      let cursor = 0;
+      if (includeErrors === true) {
+        await consoleRecorder.startCapture(resolvedTabId);
+        cursor = consoleRecorder.getCursor(resolvedTabId);
+      }
+
+      const element = await typeText({
+        ...target,
         text,
         submit: typeof submit === "boolean" ? submit : false,
-        tabId: typeof tabId === "number" ? tabId : undefined,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : undefined,
+        tabId: resolvedTabId,
       });
 
       return {
@@ -868,13 +1227,17 @@ class MCPBridge {
         payload: {
           success: true,
           data: {
-            selector,
+            ...target,
+            ...(element.selector && { selector: element.selector }),
             text: text.length > 50 ? text.substring(0, 50) + "..." : text,
             action: "typed",
             submitted: submit || false,
+            ...(includeErrors === true && {
+              errors: await collectActionErrors(resolvedTabId, cursor),
+            }),
           },
           metadata: {
-            tabId: typeof tabId === "number" ? tabId : undefined,
+            tabId: resolvedTabId,
             timestamp: Date.now(),
           },
         },
@@ -892,21 +1255,37 @@ class MCPBridge {
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { selector, tabId } = message.payload;
+      const { locator, format, reader, includeLinks, maxChars, cursor, tabId } =
+        message.payload;
+      const selector = await getReadSelector(message.payload);
 
       const textContent = await readText({
-        selector: typeof selector === "string" ? selector : undefined,
+        selector,
+        format: format === "markdown" || format === "html" ? format : undefined,
+        reader: reader === true,
+        includeLinks: includeLinks !== false,
         tabId: typeof tabId === "number" ? tabId : undefined,
       });
 
+      // Long documents are returned in chunks the agent pages through
+      const start = typeof cursor === "number" ? cursor : 0;
+      const end =
+        start + (typeof maxChars === "number" ? maxChars : READ_MAX_CHARS);
+      const text = textContent.slice(start, end);
+
       return {
         replyTo: message.id,
         payload: {
           success: true,
           data: {
-            text: textContent,
+            text,
+            format: format || "text",
+            ...(locator !== undefined && { locator }),
             selector: selector || "page",
-            length: textContent.length,
+            length: text.length,
+            totalLength: textContent.length,
+            cursor: start,
+            ...(end < textContent.length && { nextCursor: end }),
           },
           metadata: {
             tabId: typeof tabId === "number" ? tabId : undefined,
@@ -925,10 +1304,11 @@ class MCPBridge {
 
   private async handleReadDom(message: BridgeMessage): Promise<BridgeResponse> {
     try {
-      const { selector, tabId } = message.payload;
+      const { locator, tabId } = message.payload;
+      const selector = await getReadSelector(message.payload);
 
       const domStructure = await readDom({
-        selector: typeof selector === "string" ? selector : undefined,
+        selector,
         tabId: typeof tabId === "number" ? tabId : undefined,
       });
 
@@ -938,6 +1318,7 @@ class MCPBridge {
           success: true,
           data: {
             dom: domStructure,
+            ...(locator !== undefined && { locator }),
             selector: selector || "page",
           },
           metadata: {
@@ -955,17 +1336,23 @@ class MCPBridge {
     }
   }
 
-  private async handleWaitFor(message: BridgeMessage): Promise<BridgeResponse> {
+  private async handleExtract(message: BridgeMessage): Promise<BridgeResponse> {
     try {
-      const { selector, timeout_ms, tabId } = message.payload;
+      const { locator, fields, itemSelector, offset, limit, maxChars, tabId } =
+        message.payload;
+      const selector = await getReadSelector(message.payload);
 
-      if (!selector || typeof selector !== "string") {
-        throw new Error("Selector is required and must be a string");
-      }
-
-      await waitForElement({
+      const result = await extract({
         selector,
-        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : 5000,
+        fields:
+          fields && typeof fields === "object"
+            ? (fields as Record<string, string>)
+            : undefined,
+        itemSelector:
+          typeof itemSelector === "string" ? itemSelector : undefined,
+        offset: typeof offset === "number" ? offset : undefined,
+        limit: typeof limit === "number" ? limit : undefined,
+        maxChars: typeof maxChars === "number" ? maxChars : undefined,
         tabId: typeof tabId === "number" ? tabId : undefined,
       });
 
@@ -974,9 +1361,9 @@ class MCPBridge {
         payload: {
           success: true,
           data: {
-            selector,
-            action: "found",
-            timeout_ms: timeout_ms || 5000,
+            ...result,
+            ...(locator !== undefined && { locator }),
+            selector: selector || "page",
           },
           metadata: {
             tabId: typeof tabId === "number" ? tabId : undefined,
@@ -993,16 +1380,14 @@ class MCPBridge {
     }
   }
 
-  private async handleEvalJs(message: BridgeMessage): Promise<BridgeResponse> {
+  private async handlePageSnapshot(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
     try {
-      const { code, tabId } = message.payload;
-
-      if (!code || typeof code !== "string") {
-        throw new Error("JavaScript code is required and must be a string");
-      }
+      const { interactiveOnly, tabId } = message.payload;
 
-      const result = await executeJavaScript({
-        code,
+      const snapshot = await capturePageSnapshot({
+        interactiveOnly: interactiveOnly === true,
         tabId: typeof tabId === "number" ? tabId : undefined,
       });
 
@@ -1010,10 +1395,7 @@ class MCPBridge {
         replyTo: message.id,
         payload: {
           success: true,
-          data: {
-            result,
-            code: code.length > 100 ? code.substring(0, 100) + "..." : code,
-          },
+          data: { ...snapshot },
           metadata: {
             tabId: typeof tabId === "number" ? tabId : undefined,
             timestamp: Date.now(),
@@ -1029,82 +1411,121 @@ class MCPBridge {
     }
   }
 
-  // Placeholder handlers for utility commands (to be implemented in subtask 6.4)
-
-  private async handleScreenshot(
+  private async handleNetworkList(
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { tabId, filename } = message.payload;
-
-      let targetTabId: number;
+      const { urlPattern, method, status, resourceType, limit, tabId } =
+        message.payload;
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
 
-      if (tabId && typeof tabId === "number") {
-        targetTabId = tabId;
-      } else {
-        // Get active tab if no tabId specified
-        const [activeTab] = await chrome.tabs.query({
-          active: true,
-          currentWindow: true,
-        });
-        if (!activeTab?.id) {
-          throw new Error("No active tab found");
-        }
-        targetTabId = activeTab.id;
-      }
+      // Listing a tab opts it into recording from now on
+      const recordingSince = await networkRecorder.startRecording(
+        resolvedTabId
+      );
+      const entries = networkRecorder.list(resolvedTabId, {
+        urlPattern: typeof urlPattern === "string" ? urlPattern : undefined,
+        method: typeof method === "string" ? method : undefined,
+        status:
+          typeof status === "number" || typeof status === "string"
+            ? status
+            : undefined,
+        resourceType:
+          typeof resourceType === "string" ? resourceType : undefined,
+        limit: typeof limit === "number" ? limit : undefined,
+      });
 
-      // Ensure CDP session is attached (screenshots don't need Input domain)
-      if (!cdpManager.isAttached(targetTabId)) {
-        await cdpManager.attachToTab(targetTabId, false);
-      }
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            entries,
+            count: entries.length,
+            recordingSince,
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      // Capture screenshot using CDP
-      const screenshotResult = (await cdpManager.sendCommand(
-        targetTabId,
-        "Page.captureScreenshot",
-        {
-          format: "png",
-          quality: 90,
-          captureBeyondViewport: false,
-        }
-      )) as { data: string };
+  private async handleNetworkGet(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { requestId, includeBody, tabId } = message.payload;
 
-      // Generate filename if not provided
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const finalFilename =
-        typeof filename === "string" && filename
-          ? filename
-          : `screenshot-${timestamp}.png`;
+      if (!requestId || typeof requestId !== "string") {
+        throw new Error("Request ID is required and must be a string");
+      }
 
-      // Convert base64 to data URL for download
-      const base64Data = screenshotResult.data;
-      const dataUrl = `data:image/png;base64,${base64Data}`;
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+      await networkRecorder.startRecording(resolvedTabId);
+      const entry = await networkRecorder.get(
+        resolvedTabId,
+        requestId,
+        includeBody === true
+      );
 
-      const downloadId = await chrome.downloads.download({
-        url: dataUrl,
-        filename: finalFilename,
-        saveAs: false,
-      });
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: { entry },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      // Calculate file size for metadata
-      const byteCharacters = atob(base64Data);
-      const fileSize = byteCharacters.length;
+  private async handleNetworkClear(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { stopRecording, tabId } = message.payload;
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
 
-      const tab = await chrome.tabs.get(targetTabId);
+      if (stopRecording === true) {
+        await networkRecorder.stopRecording(resolvedTabId);
+      } else {
+        networkRecorder.clear(resolvedTabId);
+      }
 
       return {
         replyTo: message.id,
         payload: {
           success: true,
           data: {
-            filename: finalFilename,
-            downloadId,
-            size: fileSize,
-            format: "png",
+            cleared: true,
+            recording: stopRecording !== true,
           },
           metadata: {
-            tabId: targetTabId,
-            url: tab.url,
+            tabId: resolvedTabId,
             timestamp: Date.now(),
           },
         },
@@ -1118,25 +1539,596 @@ class MCPBridge {
     }
   }
 
-  private async handleDownloadCurrent(
+  private async handleConsoleLogs(
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { tabId, filename } = message.payload;
+      const { level, since, limit, tabId } = message.payload;
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
 
-      let targetTabId: number;
+      // Reading a tab's console starts capturing it if it was not attached
+      await consoleRecorder.startCapture(resolvedTabId);
+      const { entries, cursor } = consoleRecorder.list(resolvedTabId, {
+        level: typeof level === "string" ? (level as ConsoleLevel) : undefined,
+        since: typeof since === "number" ? since : undefined,
+        limit: typeof limit === "number" ? limit : undefined,
+      });
 
-      if (tabId && typeof tabId === "number") {
-        targetTabId = tabId;
-      } else {
-        // Get active tab if no tabId specified
-        const [activeTab] = await chrome.tabs.query({
-          active: true,
-          currentWindow: true,
-        });
-        if (!activeTab?.id) {
-          throw new Error("No active tab found");
-        }
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            entries,
+            cursor,
+            count: entries.length,
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleWaitFor(message: BridgeMessage): Promise<BridgeResponse> {
+    try {
+      const { timeout_ms, tabId } = message.payload;
+
+      const condition = getWaitCondition(message.payload);
+      if (condition) {
+        const result = await waitForCondition({
+          condition,
+          timeout_ms: typeof timeout_ms === "number" ? timeout_ms : 5000,
+          tabId: typeof tabId === "number" ? tabId : undefined,
+        });
+
+        return {
+          replyTo: message.id,
+          payload: {
+            success: true,
+            data: {
+              ...condition,
+              action: "satisfied",
+              url: result.url,
+              elapsedMs: result.elapsedMs,
+              timeout_ms: timeout_ms || 5000,
+            },
+            metadata: {
+              tabId: result.tabId,
+              timestamp: Date.now(),
+            },
+          },
+        };
+      }
+
+      const target = getElementTarget(message.payload);
+      const element = await waitForElement({
+        ...target,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : 5000,
+        tabId: typeof tabId === "number" ? tabId : undefined,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...target,
+            ...(element.selector && { selector: element.selector }),
+            action: "found",
+            timeout_ms: timeout_ms || 5000,
+          },
+          metadata: {
+            tabId: typeof tabId === "number" ? tabId : undefined,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleFillForm(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { fields, fileRoot, timeout_ms, tabId } = message.payload;
+
+      if (!Array.isArray(fields) || fields.length === 0) {
+        throw new Error("Fields are required and must be a non-empty array");
+      }
+
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const results = await fillForm({
+        fields: fields.map((field: Record<string, unknown>) => ({
+          ...getElementTarget(field),
+          value: field.value as FormFieldOptions["value"],
+        })),
+        fileRoot: typeof fileRoot === "string" ? fileRoot : undefined,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : 5000,
+        tabId: resolvedTabId,
+      });
+      const failed = results.filter((result) => !result.success).length;
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            fields: results,
+            filled: results.length - failed,
+            failed,
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handlePressKeys(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { keys, tabId } = message.payload;
+      const target = getOptionalElementTarget(message.payload);
+
+      if (
+        !Array.isArray(keys) ||
+        keys.length === 0 ||
+        !keys.every((key) => typeof key === "string")
+      ) {
+        throw new Error("Keys are required and must be an array of strings");
+      }
+
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+      const element = await pressKeys({
+        ...target,
+        keys,
+        tabId: resolvedTabId,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...target,
+            ...(element?.selector && { selector: element.selector }),
+            keys,
+            action: "pressed",
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Describe the element behind a target for the server's sensitive
+   * field checks
+   */
+  private async handleDescribeElement(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { tabId } = message.payload;
+      const target = getElementTarget(message.payload);
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const description = await describeElement(target, resolvedTabId);
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: { ...target, description },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleHover(message: BridgeMessage): Promise<BridgeResponse> {
+    try {
+      const { timeout_ms, tabId } = message.payload;
+      const target = getElementTarget(message.payload);
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const element = await hoverElement({
+        ...target,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : undefined,
+        tabId: resolvedTabId,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...target,
+            ...(element.selector && { selector: element.selector }),
+            action: "hovered",
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Double and right clicks: a click with another button or press count
+   */
+  private async handleClickVariant(
+    message: BridgeMessage,
+    button: "left" | "right",
+    clickCount: number
+  ): Promise<BridgeResponse> {
+    try {
+      const { timeout_ms, tabId } = message.payload;
+      const target = getElementTarget(message.payload);
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const element = await clickElement({
+        ...target,
+        button,
+        clickCount,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : undefined,
+        tabId: resolvedTabId,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...target,
+            ...(element.selector && { selector: element.selector }),
+            action: clickCount === 2 ? "double_clicked" : "right_clicked",
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleDragAndDrop(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { source, target, steps, timeout_ms, tabId } = message.payload;
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const result = await dragAndDrop({
+        source: getDragEndpoint(source),
+        target: getDragEndpoint(target),
+        steps: typeof steps === "number" ? steps : undefined,
+        timeout_ms: typeof timeout_ms === "number" ? timeout_ms : undefined,
+        tabId: resolvedTabId,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...result,
+            action: "dragged",
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleScroll(message: BridgeMessage): Promise<BridgeResponse> {
+    try {
+      const { deltaX, deltaY, to, tabId } = message.payload;
+      const target = getOptionalElementTarget(message.payload);
+      const resolvedTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const position = await scroll({
+        ...target,
+        deltaX: typeof deltaX === "number" ? deltaX : undefined,
+        deltaY: typeof deltaY === "number" ? deltaY : undefined,
+        to:
+          to === "top" || to === "bottom" || to === "left" || to === "right"
+            ? to
+            : undefined,
+        tabId: resolvedTabId,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...target,
+            ...position,
+            action: "scrolled",
+          },
+          metadata: {
+            tabId: resolvedTabId,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleEvalJs(message: BridgeMessage): Promise<BridgeResponse> {
+    try {
+      const { code, args, world, awaitPromise, maxResultChars, tabId } =
+        message.payload;
+
+      if (!code || typeof code !== "string") {
+        throw new Error("JavaScript code is required and must be a string");
+      }
+
+      const targetWorld = world === "main" ? "main" : "isolated";
+      const evaluation = await executeJavaScript({
+        code,
+        args: Array.isArray(args) ? args : [],
+        world: targetWorld,
+        awaitPromise: awaitPromise !== false,
+        maxResultChars:
+          typeof maxResultChars === "number" ? maxResultChars : undefined,
+        tabId: typeof tabId === "number" ? tabId : undefined,
+      });
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            ...evaluation,
+            world: targetWorld,
+            code: code.length > 100 ? code.substring(0, 100) + "..." : code,
+          },
+          metadata: {
+            tabId: typeof tabId === "number" ? tabId : undefined,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Placeholder handlers for utility commands (to be implemented in subtask 6.4)
+
+  private async handleScreenshot(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const {
+        fullPage,
+        clip,
+        format,
+        quality,
+        highlight,
+        maxDimension,
+        tabId,
+      } = message.payload;
+      const target = getOptionalElementTarget(message.payload);
+      const targetTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const capture = await captureScreenshot({
+        ...target,
+        fullPage: fullPage === true,
+        clip:
+          clip && typeof clip === "object"
+            ? (clip as { x: number; y: number; width: number; height: number })
+            : undefined,
+        format: format === "jpeg" || format === "webp" ? format : undefined,
+        quality: typeof quality === "number" ? quality : undefined,
+        highlight: highlight === true,
+        maxDimension:
+          typeof maxDimension === "number" ? maxDimension : undefined,
+        tabId: targetTabId,
+      });
+
+      const tab = await chrome.tabs.get(targetTabId);
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            data: capture.data,
+            format: capture.format,
+            mimeType: capture.mimeType,
+            width: capture.width,
+            height: capture.height,
+            scaled: capture.scaled,
+            // Decoded size of the base64 image
+            size: Math.floor((capture.data.length * 3) / 4),
+            ...target,
+            ...(capture.element?.selector && {
+              selector: capture.element.selector,
+            }),
+          },
+          metadata: {
+            tabId: targetTabId,
+            url: tab.url,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleScreenshotAnnotated(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { format, quality, maxMarks, maxDimension, tabId } =
+        message.payload;
+      const targetTabId = await getActiveTabId(
+        typeof tabId === "number" ? tabId : undefined
+      );
+
+      const capture = await captureAnnotatedScreenshot({
+        format: format === "jpeg" || format === "webp" ? format : undefined,
+        quality: typeof quality === "number" ? quality : undefined,
+        maxMarks: typeof maxMarks === "number" ? maxMarks : undefined,
+        maxDimension:
+          typeof maxDimension === "number" ? maxDimension : undefined,
+        tabId: targetTabId,
+      });
+
+      const tab = await chrome.tabs.get(targetTabId);
+
+      return {
+        replyTo: message.id,
+        payload: {
+          success: true,
+          data: {
+            data: capture.data,
+            format: capture.format,
+            mimeType: capture.mimeType,
+            width: capture.width,
+            height: capture.height,
+            scaled: capture.scaled,
+            marks: capture.marks,
+          },
+          metadata: {
+            tabId: targetTabId,
+            url: tab.url,
+            timestamp: Date.now(),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async handleDownloadCurrent(
+    message: BridgeMessage
+  ): Promise<BridgeResponse> {
+    try {
+      const { tabId, filename } = message.payload;
+
+      let targetTabId: number;
+
+      if (tabId && typeof tabId === "number") {
+        targetTabId = tabId;
+      } else {
+        // Get active tab if no tabId specified
+        const [activeTab] = await chrome.tabs.query({
+          active: true,
+          currentWindow: true,
+        });
+        if (!activeTab?.id) {
+          throw new Error("No active tab found");
+        }
         targetTabId = activeTab.id;
       }
 
@@ -1216,7 +2208,8 @@ class MCPBridge {
     message: BridgeMessage
   ): Promise<BridgeResponse> {
     try {
-      const { actionId, tool, args, domain, riskLevel } = message.payload;
+      const { id: actionId, tool, args, domain, riskLevel, reason } =
+        message.payload as Partial<PendingAction>;
 
       if (
         !actionId ||
@@ -1229,12 +2222,13 @@ class MCPBridge {
       }
 
       // Create pending action for side panel
-      const pendingAction = {
+      const pendingAction: PendingAction = {
         id: actionId,
         tool,
         args,
         domain,
         riskLevel: riskLevel || "medium",
+        reason,
       };
 
       // Notify side panel about pending approval
@@ -1249,11 +2243,11 @@ class MCPBridge {
 
       // Wait for approval decision
       const decision = await new Promise<string>((resolve, reject) => {
-        // Set up timeout for approval (5 minutes)
+        // Set up timeout for approval
         const timeout = setTimeout(() => {
           this.pendingApprovals.delete(actionId);
           reject(new Error("Approval request timed out"));
-        }, 5 * 60 * 1000);
+        }, APPROVAL_TIMEOUT_MS);
 
         this.pendingApprovals.set(actionId, {
           resolve: (decision: string) => {
@@ -1338,16 +2332,30 @@ chrome.action.onClicked.addListener(async (tab) => {
 });
 
 // Tab management
+// The MCP server caches tab URLs for domain policy checks, so tab changes
+// are pushed to it as events to invalidate that cache
 chrome.tabs.onActivated.addListener((activeInfo) => {
   console.log("Tab activated:", activeInfo.tabId);
+  mcpBridge.sendEvent("tab_activated", { tabId: activeInfo.tabId });
+});
+
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  mcpBridge.sendEvent("tab_activated", { windowId });
 });
 
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (changeInfo.url) {
+    mcpBridge.sendEvent("tab_url_changed", { tabId, url: changeInfo.url });
+  }
   if (changeInfo.status === "complete" && tab.url) {
     console.log("Tab updated:", tabId, tab.url);
   }
 });
 
+chrome.tabs.onRemoved.addListener((tabId) => {
+  mcpBridge.sendEvent("tab_closed", { tabId });
+});
+
 // Message handling from other extension components
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   console.log("[ServiceWorker] Received message:", message.type);
@@ -1361,6 +2369,42 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === "GET_PROFILE_LABEL") {
+    getProfileLabel()
+      .then((profile) => sendResponse({ success: true, profile }))
+      .catch((error) => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (message.type === "SET_PROFILE_LABEL") {
+    chrome.storage.local
+      .set({ [PROFILE_LABEL_KEY]: message.profile })
+      .then(() => {
+        mcpBridge.announceClient();
+        sendResponse({ success: true });
+      })
+      .catch((error) => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (message.type === "GET_PAIRING_STATUS") {
+    getPairingSecret()
+      .then((secret) => sendResponse({ success: true, paired: !!secret }))
+      .catch((error) => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (message.type === "SET_PAIRING_SECRET") {
+    chrome.storage.local
+      .set({ [PAIRING_SECRET_KEY]: message.secret })
+      .then(() => {
+        mcpBridge.forceReconnect();
+        sendResponse({ success: true });
+      })
+      .catch((error) => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
   if (message.type === "FORCE_RECONNECT") {
     mcpBridge.forceReconnect();
     sendResponse({ success: true });
@@ -1369,7 +2413,7 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 
   if (message.type === "SEND_MCP_COMMAND") {
     mcpBridge
-      .sendCommand(message.cmd, message.payload || {})
+      .sendCommand(message.cmd, message.payload || {}, message.timeoutMs)
       .then((response) => sendResponse({ success: true, data: response }))
       .catch((error) => sendResponse({ success: false, error: error.message }));
     return true; // Keep message channel open for async response
@@ -1406,10 +2450,11 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 
   // Handle operation mode changes
   if (message.type === "SET_OPERATION_MODE") {
-    // Store the operation mode and potentially notify MCP server
+    // Store the operation mode and forward it to the MCP server for enforcement
     chrome.storage.local.set({ "operation-mode": message.mode }).catch(() => {
       // Ignore storage errors
     });
+    mcpBridge.sendEvent("operation_mode_changed", { mode: message.mode });
 
     sendResponse({ success: true });
     return true;
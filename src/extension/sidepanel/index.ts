@@ -1,7 +1,15 @@
 // Side panel TypeScript entry point
 // Handles UI interactions and communication with service worker
 
-import type { ActionLog, PendingAction, DomainPolicy } from "@/shared/types";
+import type {
+  ActionLog,
+  PendingAction,
+  DomainPolicy,
+  EvalJsMode,
+  OperationMode,
+  ToolResponse,
+} from "@/shared/types";
+import { FLOW_REPLAY_TIMEOUT_MS, POLICY_PATTERN } from "@/shared/types";
 
 interface ConnectionStatus {
   connected: boolean;
@@ -10,6 +18,19 @@ interface ConnectionStatus {
   lastConnected?: number;
 }
 
+// The server's read and write decisions for the active tab's URL
+interface EffectivePolicy {
+  url: string;
+  read: { allowed: boolean; requiresApproval: boolean; reason?: string };
+  write: { allowed: boolean; requiresApproval: boolean; reason?: string };
+}
+
+interface FlowSummary {
+  name: string;
+  stepCount: number;
+  params: string[];
+}
+
 interface CurrentAction {
   id: string;
   tool: string;
@@ -18,8 +39,6 @@ interface CurrentAction {
   domain?: string;
 }
 
-type OperationMode = "auto" | "ask" | "readonly";
-
 class SidePanelUI {
   private connectionStatusEl!: HTMLElement;
   private connectionDetailsEl!: HTMLElement;
@@ -36,6 +55,17 @@ class SidePanelUI {
   private copyLastSelectorBtn!: HTMLElement;
   private lastSelectorEl!: HTMLElement;
   private selectorSectionEl!: HTMLElement;
+  private profileLabelInputEl!: HTMLInputElement;
+  private pairingSecretInputEl!: HTMLInputElement;
+  private pairingStatusEl!: HTMLElement;
+  private savePairingSecretBtn!: HTMLButtonElement;
+
+  // Flow elements
+  private flowNameInputEl!: HTMLInputElement;
+  private flowSelectEl!: HTMLSelectElement;
+  private toggleRecordingBtn!: HTMLButtonElement;
+  private replayFlowBtn!: HTMLButtonElement;
+  private flowStatusEl!: HTMLElement;
 
   // Domain policy elements
   private addDomainPolicyBtn!: HTMLElement;
@@ -57,6 +87,7 @@ class SidePanelUI {
   private writePermissionEl!: HTMLInputElement;
   private requiresApprovalEl!: HTMLInputElement;
   private maxStepsInputEl!: HTMLInputElement;
+  private evalJsSelectEl!: HTMLSelectElement;
   private saveDomainPolicyBtn!: HTMLElement;
   private cancelDomainPolicyBtn!: HTMLElement;
 
@@ -69,9 +100,14 @@ class SidePanelUI {
   };
   private operationMode: OperationMode = "auto";
   private currentDomain: string = "";
+  private currentUrl: string = "";
   private lastSelector: string = "";
   private selectorPickerActive: boolean = false;
+  // Mirror of the server's allowlist, cached by the service worker
   private domainPolicies: Record<string, DomainPolicy> = {};
+  private effectivePolicy: EffectivePolicy | null = null;
+  private flowRecording: boolean = false;
+  private flows: FlowSummary[] = [];
 
   constructor() {
     this.initializeElements();
@@ -79,6 +115,9 @@ class SidePanelUI {
     this.startStatusPolling();
     this.loadStoredData();
     this.loadDomainPolicies();
+    this.refreshActiveTab();
+    this.loadProfileLabel();
+    this.loadPairingStatus();
     this.updateUI();
   }
 
@@ -87,24 +126,8 @@ class SidePanelUI {
     this.openDomainPolicyModalInternal(domain);
   }
 
-  public getDomainPolicies() {
-    return this.domainPolicies;
-  }
-
-  public setDomainPolicies(policies: Record<string, DomainPolicy>) {
-    this.domainPolicies = policies;
-  }
-
-  public async storeDomainPoliciesPublic() {
-    return this.storeDomainPolicies();
-  }
-
-  public updateDomainPoliciesListPublic() {
-    this.updateDomainPoliciesList();
-  }
-
-  public updateCurrentDomainPolicyPublic() {
-    this.updateCurrentDomainPolicy();
+  public async removeDomainPolicy(domain: string) {
+    await this.writeDomainPolicy(domain, null);
   }
 
   private initializeElements() {
@@ -126,6 +149,31 @@ class SidePanelUI {
     this.copyLastSelectorBtn = document.getElementById("copyLastSelector")!;
     this.lastSelectorEl = document.getElementById("lastSelector")!;
     this.selectorSectionEl = document.getElementById("selectorSection")!;
+    this.profileLabelInputEl = document.getElementById(
+      "profileLabelInput"
+    ) as HTMLInputElement;
+    this.pairingSecretInputEl = document.getElementById(
+      "pairingSecretInput"
+    ) as HTMLInputElement;
+    this.pairingStatusEl = document.getElementById("pairingStatus")!;
+    this.savePairingSecretBtn = document.getElementById(
+      "savePairingSecret"
+    ) as HTMLButtonElement;
+
+    // Flow elements
+    this.flowNameInputEl = document.getElementById(
+      "flowNameInput"
+    ) as HTMLInputElement;
+    this.flowSelectEl = document.getElementById(
+      "flowSelect"
+    ) as HTMLSelectElement;
+    this.toggleRecordingBtn = document.getElementById(
+      "toggleRecording"
+    ) as HTMLButtonElement;
+    this.replayFlowBtn = document.getElementById(
+      "replayFlow"
+    ) as HTMLButtonElement;
+    this.flowStatusEl = document.getElementById("flowStatus")!;
 
     // Domain policy elements
     this.addDomainPolicyBtn = document.getElementById("addDomainPolicy")!;
@@ -161,6 +209,9 @@ class SidePanelUI {
     this.maxStepsInputEl = document.getElementById(
       "maxStepsInput"
     ) as HTMLInputElement;
+    this.evalJsSelectEl = document.getElementById(
+      "evalJsSelect"
+    ) as HTMLSelectElement;
     this.saveDomainPolicyBtn = document.getElementById("saveDomainPolicy")!;
     this.cancelDomainPolicyBtn = document.getElementById("cancelDomainPolicy")!;
   }
@@ -190,6 +241,22 @@ class SidePanelUI {
       this.copyLastSelector();
     });
 
+    this.profileLabelInputEl.addEventListener("change", () => {
+      this.saveProfileLabel();
+    });
+
+    this.savePairingSecretBtn.addEventListener("click", () => {
+      this.savePairingSecret();
+    });
+
+    this.toggleRecordingBtn.addEventListener("click", () => {
+      this.toggleRecording();
+    });
+
+    this.replayFlowBtn.addEventListener("click", () => {
+      this.replayFlow();
+    });
+
     // Domain policy event listeners
     this.addDomainPolicyBtn.addEventListener("click", () => {
       this.openDomainPolicyModalInternal();
@@ -228,6 +295,17 @@ class SidePanelUI {
       this.closeDomainPolicyModal();
     });
 
+    // The current domain panel follows the active tab
+    chrome.tabs.onActivated.addListener(() => {
+      this.refreshActiveTab();
+    });
+
+    chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+      if (changeInfo.url && tab.active) {
+        this.refreshActiveTab();
+      }
+    });
+
     // Close modal on background click
     this.domainPolicyModalEl.addEventListener("click", (event) => {
       if (event.target === this.domainPolicyModalEl) {
@@ -263,6 +341,12 @@ class SidePanelUI {
         case "SELECTOR_PICKED":
           this.handleSelectorPicked(message.data);
           break;
+        case "CONFIG_CHANGED":
+          // The service worker already stored the server's allowlist
+          this.domainPolicies = message.allowlist;
+          this.updateDomainPoliciesList();
+          this.refreshDomainPolicies();
+          break;
       }
     });
 
@@ -314,8 +398,16 @@ class SidePanelUI {
   }
 
   private updateConnectionStatus(status: ConnectionStatus) {
+    const wasConnected = this.connectionStatus.connected;
     this.connectionStatus = status;
 
+    // Saved flows and domain policies live on the server, so fetch them
+    // once connected
+    if (status.connected && !wasConnected) {
+      this.loadFlows();
+      this.refreshDomainPolicies();
+    }
+
     const statusTextEl = this.connectionStatusEl.querySelector(
       ".status-text div:first-child"
     )!;
@@ -482,15 +574,20 @@ class SidePanelUI {
         (action) => `
         <div class="pending-action">
           <div class="action-header">
-            <div class="action-title">${action.tool} on ${action.domain}</div>
+            <div class="action-title">${escapeHtml(action.tool)} on ${escapeHtml(
+              action.domain
+            )}</div>
             <div class="risk-badge ${action.riskLevel}">${
           action.riskLevel
         }</div>
           </div>
-          <div class="action-details">${JSON.stringify(
-            action.args,
-            null,
-            2
+          ${
+            action.reason
+              ? `<div class="domain-info">${escapeHtml(action.reason)}</div>`
+              : ""
+          }
+          <div class="action-details">${escapeHtml(
+            JSON.stringify(action.args, null, 2)
           )}</div>
           <div class="action-buttons">
             <button class="button small success" onclick="approveAction('${
@@ -701,6 +798,191 @@ class SidePanelUI {
     }
   }
 
+  private async loadProfileLabel() {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_PROFILE_LABEL",
+      });
+      if (response?.success) {
+        this.profileLabelInputEl.value = response.profile;
+      }
+    } catch (error) {
+      console.error("Failed to load profile label:", error);
+    }
+  }
+
+  private async saveProfileLabel() {
+    const profile = this.profileLabelInputEl.value.trim();
+    if (!profile) {
+      return;
+    }
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: "SET_PROFILE_LABEL",
+        profile,
+      });
+    } catch (error) {
+      console.error("Failed to save profile label:", error);
+    }
+  }
+
+  private async loadPairingStatus() {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_PAIRING_STATUS",
+      });
+      if (response?.success) {
+        this.pairingStatusEl.textContent = response.paired
+          ? "(paired)"
+          : "(not paired)";
+      }
+    } catch (error) {
+      console.error("Failed to load pairing status:", error);
+    }
+  }
+
+  private async savePairingSecret() {
+    const secret = this.pairingSecretInputEl.value.trim();
+    if (!secret) {
+      return;
+    }
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: "SET_PAIRING_SECRET",
+        secret,
+      });
+      this.pairingSecretInputEl.value = "";
+      this.loadPairingStatus();
+    } catch (error) {
+      console.error("Failed to save pairing secret:", error);
+    }
+  }
+
+  // Flow Recording Methods
+
+  /**
+   * Send a command to the MCP server through the service worker. Failed
+   * commands resolve with the server's error response.
+   */
+  private async sendServerCommand(
+    cmd: string,
+    payload: Record<string, unknown> = {},
+    timeoutMs?: number
+  ): Promise<ToolResponse> {
+    const response = await chrome.runtime.sendMessage({
+      type: "SEND_MCP_COMMAND",
+      cmd,
+      payload,
+      timeoutMs,
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || "No response from service worker");
+    }
+    return response.data as ToolResponse;
+  }
+
+  private async sendFlowCommand(
+    cmd: string,
+    payload: Record<string, unknown> = {},
+    timeoutMs?: number
+  ): Promise<ToolResponse> {
+    const result = await this.sendServerCommand(cmd, payload, timeoutMs);
+    if (!result.success) {
+      throw new Error(result.error || `${cmd} failed`);
+    }
+    return result;
+  }
+
+  private async loadFlows() {
+    try {
+      const result = await this.sendFlowCommand("flow_status");
+      const flows = (result.data?.flows as FlowSummary[]) || [];
+      this.flows = flows;
+      this.flowRecording = result.data?.recording === true;
+
+      const selected = this.flowSelectEl.value;
+      this.flowSelectEl.innerHTML = "";
+      for (const flow of flows) {
+        const option = document.createElement("option");
+        option.value = flow.name;
+        option.textContent = `${flow.name} (${flow.stepCount} steps)`;
+        this.flowSelectEl.appendChild(option);
+      }
+      if (flows.some((flow) => flow.name === selected)) {
+        this.flowSelectEl.value = selected;
+      }
+    } catch (error) {
+      console.error("Failed to load flows:", error);
+    }
+    this.updateFlowControls();
+  }
+
+  private updateFlowControls() {
+    this.toggleRecordingBtn.textContent = this.flowRecording
+      ? "⏹️ Stop Recording"
+      : "⏺️ Record";
+    this.replayFlowBtn.disabled =
+      this.flowRecording || this.flowSelectEl.options.length === 0;
+  }
+
+  private async toggleRecording() {
+    try {
+      if (this.flowRecording) {
+        const result = await this.sendFlowCommand("flow_record_stop");
+        this.flowStatusEl.textContent = `Saved ${result.data?.name} (${result.data?.stepCount} steps)`;
+      } else {
+        const name = this.flowNameInputEl.value.trim();
+        if (!name) {
+          this.flowStatusEl.textContent = "Enter a flow name to record";
+          return;
+        }
+        await this.sendFlowCommand("flow_record_start", { name });
+        this.flowStatusEl.textContent = `Recording ${name}: tool calls in this browser are captured`;
+      }
+    } catch (error) {
+      this.flowStatusEl.textContent =
+        error instanceof Error ? error.message : String(error);
+    }
+    await this.loadFlows();
+  }
+
+  private async replayFlow() {
+    const name = this.flowSelectEl.value;
+    if (!name) {
+      return;
+    }
+
+    // Sensitive values were left out of the recording, so ask for them
+    const params: Record<string, string> = {};
+    const flow = this.flows.find((summary) => summary.name === name);
+    for (const param of flow?.params ?? []) {
+      const value = prompt(`Value for ${param} in ${name}:`);
+      if (value === null) {
+        this.flowStatusEl.textContent = `Replay of ${name} cancelled`;
+        return;
+      }
+      params[param] = value;
+    }
+
+    this.replayFlowBtn.disabled = true;
+    this.flowStatusEl.textContent = `Replaying ${name}...`;
+    try {
+      const result = await this.sendFlowCommand(
+        "flow_run",
+        { name, params },
+        FLOW_REPLAY_TIMEOUT_MS
+      );
+      this.flowStatusEl.textContent = `Replayed ${name}: ${result.data?.stepsRun} steps`;
+    } catch (error) {
+      // The error names the step index the replay stopped at
+      this.flowStatusEl.textContent =
+        error instanceof Error ? error.message : String(error);
+    }
+    this.updateFlowControls();
+  }
+
   // Domain Policy Management Methods
 
   private openDomainPolicyModalInternal(domain?: string) {
@@ -714,15 +996,17 @@ class SidePanelUI {
       this.writePermissionEl.checked = policy.write;
       this.requiresApprovalEl.checked = policy.requiresApproval || false;
       this.maxStepsInputEl.value = policy.maxStepsPerHour?.toString() || "";
+      this.evalJsSelectEl.value = policy.evalJs || "";
     } else {
       // Add new domain
       this.modalTitleEl.textContent = "Add Domain Policy";
-      this.domainInputEl.value = "";
+      this.domainInputEl.value = domain || "";
       this.domainInputEl.disabled = false;
       this.readPermissionEl.checked = true;
       this.writePermissionEl.checked = false;
       this.requiresApprovalEl.checked = false;
       this.maxStepsInputEl.value = "";
+      this.evalJsSelectEl.value = "";
     }
 
     this.domainPolicyModalEl.style.display = "flex";
@@ -739,9 +1023,12 @@ class SidePanelUI {
       return;
     }
 
-    // Validate domain format
-    if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(domain)) {
-      alert("Please enter a valid domain name (e.g., example.com)");
+    // Validate domain format; allowlist keys are URL patterns like
+    // localhost, *.example.com or github.com/myorg/**
+    if (!POLICY_PATTERN.test(domain)) {
+      alert(
+        "Please enter a valid domain or URL pattern (e.g., example.com, *.example.com or github.com/myorg/**)"
+      );
       return;
     }
 
@@ -756,17 +1043,26 @@ class SidePanelUI {
       policy.maxStepsPerHour = maxSteps;
     }
 
+    const evalJs = this.evalJsSelectEl.value;
+    if (evalJs) {
+      policy.evalJs = evalJs as EvalJsMode;
+    }
+
+    // Per-tool overrides are only edited in config.json, so keep them
+    const tools = this.domainPolicies[domain]?.tools;
+    if (tools) {
+      policy.tools = tools;
+    }
+
     // Validate that at least one permission is granted
     if (!policy.read && !policy.write) {
       alert("Please grant at least one permission (read or write)");
       return;
     }
 
-    this.domainPolicies[domain] = policy;
-    await this.storeDomainPolicies();
-    this.updateDomainPoliciesList();
-    this.updateCurrentDomainPolicy();
-    this.closeDomainPolicyModal();
+    if (await this.writeDomainPolicy(domain, policy)) {
+      this.closeDomainPolicyModal();
+    }
   }
 
   private async removeCurrentDomainPolicy() {
@@ -775,10 +1071,7 @@ class SidePanelUI {
     }
 
     if (confirm(`Remove policy for ${this.currentDomain}?`)) {
-      delete this.domainPolicies[this.currentDomain];
-      await this.storeDomainPolicies();
-      this.updateDomainPoliciesList();
-      this.updateCurrentDomainPolicy();
+      await this.writeDomainPolicy(this.currentDomain, null);
     }
   }
 
@@ -806,15 +1099,15 @@ class SidePanelUI {
           throw new Error("Invalid policy file format");
         }
 
-        // Merge with existing policies
-        this.domainPolicies = { ...this.domainPolicies, ...importedPolicies };
-        await this.storeDomainPolicies();
-        this.updateDomainPoliciesList();
-        this.updateCurrentDomainPolicy();
+        // Merge into the server allowlist, which validates each policy
+        let imported = 0;
+        for (const [domain, policy] of Object.entries(importedPolicies)) {
+          if (await this.writeDomainPolicy(domain, policy as DomainPolicy)) {
+            imported++;
+          }
+        }
 
-        alert(
-          `Imported ${Object.keys(importedPolicies).length} domain policies`
-        );
+        alert(`Imported ${imported} domain policies`);
       } catch (error) {
         console.error("Failed to import policies:", error);
         alert("Failed to import policies. Please check the file format.");
@@ -842,12 +1135,15 @@ class SidePanelUI {
 
   private async resetPolicies() {
     if (
-      confirm("Reset all domain policies to default? This cannot be undone.")
+      confirm(
+        "Remove all domain policies from the server allowlist? This cannot be undone."
+      )
     ) {
-      this.domainPolicies = {};
-      await this.storeDomainPolicies();
-      this.updateDomainPoliciesList();
-      this.updateCurrentDomainPolicy();
+      for (const domain of Object.keys(this.domainPolicies)) {
+        if (!(await this.writeDomainPolicy(domain, null))) {
+          break;
+        }
+      }
     }
   }
 
@@ -903,38 +1199,132 @@ class SidePanelUI {
   }
 
   private updateCurrentDomainPolicy() {
-    if (!this.currentDomain || !this.domainPolicies[this.currentDomain]) {
+    if (!this.currentDomain) {
       this.currentDomainPolicyEl.style.display = "none";
       return;
     }
 
-    const policy = this.domainPolicies[this.currentDomain];
-    const permissions: string[] = [];
-
-    if (policy.read) permissions.push("Read");
-    if (policy.write) permissions.push("Write");
-    if (policy.requiresApproval) permissions.push("Requires Approval");
-
-    this.currentDomainInfoEl.textContent = `
-Domain: ${this.currentDomain}
-Permissions: ${permissions.join(", ")}
-${
-  policy.maxStepsPerHour
-    ? `Max Steps: ${policy.maxStepsPerHour}/hour`
-    : "No step limit"
-}
-    `.trim();
+    // Wildcard entries and defaults also apply, so the server's decision
+    // can differ from this domain's own entry
+    const policy = this.domainPolicies[this.currentDomain] ?? null;
+    const lines = [
+      `Domain: ${this.currentDomain}`,
+      `Policy: ${describePolicy(policy)}`,
+    ];
+    if (this.effectivePolicy?.url === this.currentUrl) {
+      const { read, write } = this.effectivePolicy;
+      lines.push(
+        `Server decision: read ${describeDecision(read)}, write ${describeDecision(write)}`
+      );
+      const reason = !read.allowed ? read.reason : write.reason;
+      if (reason) {
+        lines.push(reason);
+      }
+    }
 
+    this.currentDomainInfoEl.textContent = lines.join("\n");
+    this.removeCurrentDomainBtn.style.display = policy ? "" : "none";
     this.currentDomainPolicyEl.style.display = "block";
   }
 
-  private async storeDomainPolicies() {
+  /**
+   * Track the active tab for the current domain panel
+   */
+  private async refreshActiveTab() {
     try {
-      await chrome.storage.sync.set({
-        "browser-pilot-domain-policies": this.domainPolicies,
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true,
       });
+      this.currentUrl = tab?.url || "";
+      this.currentDomain = this.currentUrl
+        ? new URL(this.currentUrl).hostname
+        : "";
+    } catch {
+      // Tabs without a parseable URL have no domain policy
+      this.currentDomain = "";
+    }
+    await this.refreshDomainPolicies();
+  }
+
+  /**
+   * Fetch the server's allowlist and its decisions for the active tab
+   */
+  private async refreshDomainPolicies() {
+    if (this.connectionStatus.connected) {
+      try {
+        const result = await this.sendServerCommand("policy_get", {
+          url: this.currentUrl,
+        });
+        if (result.success) {
+          this.applyDomainPolicies(result.data);
+          return;
+        }
+      } catch (error) {
+        console.error("Failed to load domain policies:", error);
+      }
+    }
+    this.updateCurrentDomainPolicy();
+  }
+
+  private applyDomainPolicies(data: Record<string, unknown> = {}) {
+    this.domainPolicies =
+      (data.allowlist as Record<string, DomainPolicy>) || {};
+    this.effectivePolicy = (data.effective as EffectivePolicy) || null;
+    this.updateDomainPoliciesList();
+    this.updateCurrentDomainPolicy();
+  }
+
+  /**
+   * Set (or with null, remove) a domain's policy in the server allowlist.
+   * When the server's policy changed since it was loaded here, the user
+   * decides whether to overwrite it.
+   * @returns Whether the change was applied
+   */
+  private async writeDomainPolicy(
+    domain: string,
+    policy: DomainPolicy | null
+  ): Promise<boolean> {
+    const cmd = policy ? "policy_set" : "policy_remove";
+    let expected = this.domainPolicies[domain] ?? null;
+
+    try {
+      for (;;) {
+        const result = await this.sendServerCommand(cmd, {
+          domain,
+          policy,
+          expected,
+          url: this.currentUrl,
+        });
+        if (result.success) {
+          this.applyDomainPolicies(result.data);
+          return true;
+        }
+        if (result.metadata?.errorCode !== "POLICY_CONFLICT") {
+          throw new Error(result.error || `${cmd} failed`);
+        }
+
+        const current = (result.data?.current as DomainPolicy) ?? null;
+        const overwrite = confirm(
+          `The policy for ${domain} was changed on the server since it was loaded.\n\n` +
+            `Server: ${describePolicy(current)}\n` +
+            `Yours: ${describePolicy(policy)}\n\n` +
+            "Replace the server's policy with yours?"
+        );
+        if (!overwrite) {
+          await this.refreshDomainPolicies();
+          return false;
+        }
+        expected = current;
+      }
     } catch (error) {
-      console.error("Failed to store domain policies:", error);
+      console.error(`Failed to update policy for ${domain}:`, error);
+      alert(
+        `Failed to update policy for ${domain}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return false;
     }
   }
 
@@ -1106,12 +1496,7 @@ let sidePanelInstance: SidePanelUI;
   domain: string
 ) => {
   if (sidePanelInstance && confirm(`Remove policy for ${domain}?`)) {
-    const policies = sidePanelInstance.getDomainPolicies();
-    delete policies[domain];
-    sidePanelInstance.setDomainPolicies(policies);
-    await sidePanelInstance.storeDomainPoliciesPublic();
-    sidePanelInstance.updateDomainPoliciesListPublic();
-    sidePanelInstance.updateCurrentDomainPolicyPublic();
+    await sidePanelInstance.removeDomainPolicy(domain);
   }
 };
 
@@ -1120,4 +1505,40 @@ document.addEventListener("DOMContentLoaded", () => {
   sidePanelInstance = new SidePanelUI();
 });
 
+/**
+ * Summarize a domain policy, e.g. "Read, Write, max 50/hour"
+ */
+function describePolicy(policy: DomainPolicy | null): string {
+  if (!policy) {
+    return "none";
+  }
+  const parts: string[] = [];
+  if (policy.read) parts.push("Read");
+  if (policy.write) parts.push("Write");
+  if (policy.requiresApproval) parts.push("Requires Approval");
+  if (policy.maxStepsPerHour) parts.push(`max ${policy.maxStepsPerHour}/hour`);
+  if (policy.evalJs) parts.push(`eval_js ${policy.evalJs}`);
+  return parts.join(", ") || "no access";
+}
+
+/**
+ * Escape page-controlled text (reasons, typed values, selectors) for
+ * interpolation into innerHTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function describeDecision(decision: EffectivePolicy["read"]): string {
+  if (!decision.allowed) {
+    return "blocked";
+  }
+  return decision.requiresApproval ? "needs approval" : "allowed";
+}
+
 console.log("Browser Pilot MCP side panel loaded");
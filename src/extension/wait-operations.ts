@@ -0,0 +1,473 @@
+// Waiting for page load states and conditions
+// Follows main frame lifecycle events and in-flight requests per tab
+
+import { LoadState } from "@/shared/types";
+import { cdpManager } from "./cdp-manager";
+import {
+  callOnNode,
+  getActiveTabId,
+  getIsolatedWorldContext,
+} from "./dom-operations";
+import { matchesUrlPattern } from "./network-recorder";
+import { resolveSelector } from "./selector-engine";
+
+export type WaitCondition =
+  | { state: LoadState }
+  | { urlMatches: string }
+  | { textAppears: string }
+  | { selectorHidden: string }
+  | { js: string };
+
+export interface WaitConditionOptions {
+  condition: WaitCondition;
+  timeout_ms?: number;
+  tabId?: number;
+}
+
+export interface WaitResult {
+  tabId: number;
+  url?: string;
+  elapsedMs: number;
+}
+
+interface TabLifecycle {
+  mainFrameId?: string;
+  loaderId?: string;
+  // Lifecycle event names seen for the main frame's current document
+  events: Set<string>;
+  // Bumped on every main frame commit, including same-document navigations
+  navigations: number;
+  inflight: Set<string>;
+  lastNetworkActivity: number;
+}
+
+interface CDPFrame {
+  id: string;
+  parentId?: string;
+  loaderId: string;
+}
+
+const POLL_INTERVAL_MS = 100;
+// Quiet period after the last request before the network counts as idle
+const NETWORK_IDLE_MS = 500;
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+const DEFAULT_NAVIGATION_TIMEOUT_MS = 30000;
+// Streams that never finish would keep the network busy forever
+const LONG_LIVED_RESOURCE_TYPES = ["EventSource", "WebSocket"];
+
+const IS_VISIBLE_FUNCTION = `function() {
+  const style = getComputedStyle(this);
+  return (
+    this.isConnected &&
+    this.getClientRects().length > 0 &&
+    style.visibility !== 'hidden' &&
+    style.display !== 'none'
+  );
+}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Describe a condition for log and error messages
+ */
+function describeCondition(condition: WaitCondition): string {
+  if ("state" in condition) {
+    return `state ${condition.state}`;
+  }
+  if ("urlMatches" in condition) {
+    return `URL matching ${condition.urlMatches}`;
+  }
+  if ("textAppears" in condition) {
+    return `text "${condition.textAppears}"`;
+  }
+  if ("selectorHidden" in condition) {
+    return `"${condition.selectorHidden}" to be hidden`;
+  }
+  return "JavaScript predicate";
+}
+
+/**
+ * Match a URL against a substring or glob, or a /regex/flags literal
+ */
+function matchesUrl(url: string, pattern: string): boolean {
+  const literal = /^\/(.+)\/([dgimsuy]*)$/.exec(pattern);
+  if (literal) {
+    return new RegExp(literal[1], literal[2]).test(url);
+  }
+  return matchesUrlPattern(url, pattern);
+}
+
+export class LifecycleTracker {
+  private tabs = new Map<number, TabLifecycle>();
+
+  constructor() {
+    cdpManager.addEventListener(this.handleEvent.bind(this));
+
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      this.tabs.delete(tabId);
+    });
+  }
+
+  /**
+   * Start following a tab's lifecycle events and requests if not already.
+   * Returns the navigation count, to wait for a later commit.
+   */
+  public async track(tabId: number): Promise<number> {
+    if (!cdpManager.isAttached(tabId)) {
+      await cdpManager.attachToTab(tabId);
+    }
+
+    const state = this.getState(tabId);
+    // Completions were missed while the domain was off (e.g. after a detach)
+    if (!cdpManager.isDomainEnabled(tabId, "Network")) {
+      state.inflight.clear();
+      await cdpManager.enableDomain(tabId, "Network");
+    }
+    await cdpManager.sendCommand(tabId, "Page.setLifecycleEventsEnabled", {
+      enabled: true,
+    });
+
+    if (!state.mainFrameId) {
+      const { frameTree } = (await cdpManager.sendCommand(
+        tabId,
+        "Page.getFrameTree"
+      )) as { frameTree: { frame: CDPFrame } };
+      state.mainFrameId = frameTree.frame.id;
+      state.loaderId = frameTree.frame.loaderId;
+    }
+    return state.navigations;
+  }
+
+  /**
+   * Wait until the tab's main frame reaches a load state. With
+   * sinceNavigation, the state must be reached by a later document.
+   */
+  public async waitForLoadState(
+    tabId: number,
+    loadState: LoadState,
+    timeoutMs: number,
+    sinceNavigation?: number
+  ): Promise<void> {
+    const state = this.getState(tabId);
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const committed =
+        sinceNavigation === undefined || state.navigations > sinceNavigation;
+      if (committed && (await this.hasReached(tabId, state, loadState))) {
+        return;
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+
+    if (sinceNavigation !== undefined && state.navigations <= sinceNavigation) {
+      throw new Error(`Navigation did not commit within ${timeoutMs}ms`);
+    }
+    const pending =
+      loadState === "networkidle" && state.inflight.size > 0
+        ? ` (${state.inflight.size} requests in flight)`
+        : "";
+    throw new Error(
+      `Page did not reach ${loadState} within ${timeoutMs}ms${pending}`
+    );
+  }
+
+  private getState(tabId: number): TabLifecycle {
+    let state = this.tabs.get(tabId);
+    if (!state) {
+      state = {
+        events: new Set(),
+        navigations: 0,
+        inflight: new Set(),
+        lastNetworkActivity: 0,
+      };
+      this.tabs.set(tabId, state);
+    }
+    return state;
+  }
+
+  private async hasReached(
+    tabId: number,
+    state: TabLifecycle,
+    loadState: LoadState
+  ): Promise<boolean> {
+    if (loadState === "networkidle") {
+      return (
+        state.inflight.size === 0 &&
+        Date.now() - state.lastNetworkActivity >= NETWORK_IDLE_MS &&
+        (await this.hasReached(tabId, state, "load"))
+      );
+    }
+
+    // Lifecycle events only cover documents loaded since tracking started
+    if (
+      state.events.has("load") ||
+      (loadState === "domcontentloaded" && state.events.has("DOMContentLoaded"))
+    ) {
+      return true;
+    }
+
+    try {
+      const { result } = (await cdpManager.sendCommand(
+        tabId,
+        "Runtime.evaluate",
+        { expression: "document.readyState", returnByValue: true }
+      )) as { result: { value?: string } };
+      return loadState === "load"
+        ? result.value === "complete"
+        : result.value === "interactive" || result.value === "complete";
+    } catch {
+      // The execution context goes away while a document is replaced
+      return false;
+    }
+  }
+
+  private handleEvent(tabId: number, method: string, params: unknown): void {
+    const state = this.tabs.get(tabId);
+    if (!state) {
+      return;
+    }
+
+    const event = params as Record<string, unknown>;
+    switch (method) {
+      case "Page.lifecycleEvent":
+        if (event.frameId === state.mainFrameId) {
+          this.setLoader(state, event.loaderId as string);
+          state.events.add(event.name as string);
+        }
+        break;
+      case "Page.frameNavigated": {
+        const frame = event.frame as CDPFrame;
+        if (!frame.parentId) {
+          state.mainFrameId = frame.id;
+          this.setLoader(state, frame.loaderId);
+          state.navigations++;
+        }
+        break;
+      }
+      case "Page.navigatedWithinDocument":
+        if (event.frameId === state.mainFrameId) {
+          state.navigations++;
+        }
+        break;
+      case "Network.requestWillBeSent":
+        if (!LONG_LIVED_RESOURCE_TYPES.includes(event.type as string)) {
+          state.inflight.add(event.requestId as string);
+          state.lastNetworkActivity = Date.now();
+        }
+        break;
+      case "Network.loadingFinished":
+      case "Network.loadingFailed":
+        if (state.inflight.delete(event.requestId as string)) {
+          state.lastNetworkActivity = Date.now();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Start over when the main frame loads a new document
+   */
+  private setLoader(state: TabLifecycle, loaderId: string): void {
+    if (loaderId && loaderId !== state.loaderId) {
+      state.loaderId = loaderId;
+      state.events.clear();
+      // Requests of the previous document will not report completion
+      state.inflight.clear();
+    }
+  }
+}
+
+// Export singleton instance
+export const lifecycleTracker = new LifecycleTracker();
+
+/**
+ * Wait for a tab to report its load as complete, without CDP
+ */
+function waitForTabComplete(tabId: number, timeoutMs: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      chrome.tabs.onUpdated.removeListener(listener);
+      reject(new Error(`Navigation did not complete within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    const listener = (
+      updatedTabId: number,
+      changeInfo: chrome.tabs.TabChangeInfo
+    ) => {
+      if (updatedTabId === tabId && changeInfo.status === "complete") {
+        clearTimeout(timeout);
+        chrome.tabs.onUpdated.removeListener(listener);
+        resolve();
+      }
+    };
+
+    chrome.tabs.onUpdated.addListener(listener);
+  });
+}
+
+/**
+ * Start a navigation and wait until the new document reaches a load state
+ */
+export async function navigateAndWait(
+  tabId: number,
+  navigate: () => Promise<unknown>,
+  waitUntil: LoadState,
+  timeoutMs: number = DEFAULT_NAVIGATION_TIMEOUT_MS
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  let sinceNavigation: number | undefined;
+  try {
+    sinceNavigation = await lifecycleTracker.track(tabId);
+  } catch (error) {
+    // Browser pages such as the new tab page cannot be debugged
+    console.warn(
+      `[WaitOperations] Cannot follow tab ${tabId} before navigating, waiting for the tab status instead: ${error}`
+    );
+  }
+
+  if (sinceNavigation !== undefined) {
+    await navigate();
+    await lifecycleTracker.waitForLoadState(
+      tabId,
+      waitUntil,
+      Math.max(0, deadline - Date.now()),
+      sinceNavigation
+    );
+    return;
+  }
+
+  await Promise.all([waitForTabComplete(tabId, timeoutMs), navigate()]);
+  if (waitUntil === "networkidle") {
+    await lifecycleTracker.track(tabId);
+    await lifecycleTracker.waitForLoadState(
+      tabId,
+      waitUntil,
+      Math.max(0, deadline - Date.now())
+    );
+  }
+}
+
+// A predicate that threw this time, e.g. while the page is still loading
+class PredicateError extends Error {}
+
+/**
+ * Check a condition once
+ */
+async function isSatisfied(
+  tabId: number,
+  condition: WaitCondition
+): Promise<boolean> {
+  if ("urlMatches" in condition) {
+    const tab = await chrome.tabs.get(tabId);
+    return !!tab.url && matchesUrl(tab.url, condition.urlMatches);
+  }
+
+  if ("textAppears" in condition) {
+    const { result } = (await cdpManager.sendCommand(
+      tabId,
+      "Runtime.evaluate",
+      {
+        expression: `!!document.body && document.body.innerText.includes(${JSON.stringify(
+          condition.textAppears
+        )})`,
+        returnByValue: true,
+      }
+    )) as { result: { value?: boolean } };
+    return result.value === true;
+  }
+
+  if ("selectorHidden" in condition) {
+    const node = await resolveSelector(tabId, condition.selectorHidden);
+    return !node || !(await callOnNode(tabId, node, IS_VISIBLE_FUNCTION));
+  }
+
+  // Predicates run in the isolated world, like eval_js by default; it
+  // cannot be created while the main frame is being replaced
+  if ("js" in condition) {
+    const contextId = await getIsolatedWorldContext(tabId).catch((error) => {
+      throw new PredicateError(String(error));
+    });
+    const { result, exceptionDetails } = (await cdpManager.sendCommand(
+      tabId,
+      "Runtime.evaluate",
+      {
+        expression: `(async () => !!(await (${condition.js}\n)))()`,
+        contextId,
+        returnByValue: true,
+        awaitPromise: true,
+      }
+    )) as {
+      result: { value?: boolean };
+      exceptionDetails?: {
+        text: string;
+        exception?: { className?: string; description?: string };
+      };
+    };
+    if (exceptionDetails) {
+      const message =
+        exceptionDetails.exception?.description || exceptionDetails.text;
+      // A predicate that does not parse will never become true
+      if (exceptionDetails.exception?.className === "SyntaxError") {
+        throw new Error(`Invalid predicate: ${message}`);
+      }
+      throw new PredicateError(message);
+    }
+    return result.value === true;
+  }
+
+  return false;
+}
+
+/**
+ * Wait for a load state, URL, text, hidden element or JavaScript predicate
+ */
+export async function waitForCondition(
+  options: WaitConditionOptions
+): Promise<WaitResult> {
+  const tabId = await getActiveTabId(options.tabId);
+  const timeout = options.timeout_ms || DEFAULT_WAIT_TIMEOUT_MS;
+  const { condition } = options;
+  const description = describeCondition(condition);
+  const startTime = Date.now();
+
+  if (!("urlMatches" in condition) && !cdpManager.isAttached(tabId)) {
+    await cdpManager.attachToTab(tabId);
+  }
+
+  if ("state" in condition) {
+    await lifecycleTracker.track(tabId);
+    await lifecycleTracker.waitForLoadState(tabId, condition.state, timeout);
+  } else {
+    let lastError: string | undefined;
+    for (;;) {
+      try {
+        if (await isSatisfied(tabId, condition)) {
+          break;
+        }
+      } catch (error) {
+        if (!(error instanceof PredicateError)) {
+          throw error;
+        }
+        lastError = error.message;
+      }
+
+      if (Date.now() - startTime >= timeout) {
+        throw new Error(
+          `Timed out after ${timeout}ms waiting for ${description}${
+            lastError ? ` (last error: ${lastError})` : ""
+          }`
+        );
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  const elapsedMs = Date.now() - startTime;
+  const tab = await chrome.tabs.get(tabId);
+  console.log(
+    `[WaitOperations] Waited ${elapsedMs}ms for ${description} in tab ${tabId}`
+  );
+  return { tabId, url: tab.url, elapsedMs };
+}
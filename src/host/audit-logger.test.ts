@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AuditLogger } from "./audit-logger.js";
+import type { Configuration } from "@/shared/types.js";
+
+describe("AuditLogger", () => {
+  let logDir: string;
+  let logging: Configuration["logging"];
+
+  beforeEach(async () => {
+    logDir = await mkdtemp(join(tmpdir(), "browser-pilot-audit-"));
+    logging = { level: "info", maxLogSize: 1000000, retentionDays: 7 };
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(logDir, { recursive: true, force: true });
+  });
+
+  it("should skip entries below the configured level", async () => {
+    const logger = new AuditLogger(logDir, { ...logging, level: "warn" });
+
+    logger.log({ outcome: "allowed", tool: "click" });
+    logger.log({ outcome: "denied", tool: "click", reason: "Read only" });
+    logger.log({ outcome: "succeeded", tool: "read_text", result: { a: 1 } });
+
+    const { entries } = await logger.query();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      level: "warn",
+      outcome: "denied",
+      reason: "Read only",
+    });
+  });
+
+  it("should only keep result data at debug level", async () => {
+    const logger = new AuditLogger(logDir, logging);
+    logger.log({ outcome: "succeeded", tool: "read_text", result: { a: 1 } });
+    logger.configure({ ...logging, level: "debug" });
+    logger.log({ outcome: "succeeded", tool: "read_text", result: { a: 2 } });
+
+    const { entries } = await logger.query();
+    expect(entries.map((entry) => entry.result)).toEqual([undefined, { a: 2 }]);
+  });
+
+  it("should rotate at maxLogSize and query across files", async () => {
+    const logger = new AuditLogger(logDir, { ...logging, maxLogSize: 300 });
+
+    for (let i = 0; i < 10; i++) {
+      logger.log({ outcome: "allowed", tool: "click", requestId: `r${i}` });
+    }
+
+    const { entries, total } = await logger.query({ limit: 3 });
+    const files = await readdir(logDir);
+    expect(files.length).toBeGreaterThan(1);
+    expect(files).toContain("audit.jsonl");
+    expect(total).toBe(10);
+    expect(entries.map((entry) => entry.requestId)).toEqual(["r7", "r8", "r9"]);
+  });
+
+  it("should delete rotated files older than retentionDays", async () => {
+    const expired = Date.now() - 8 * 24 * 60 * 60 * 1000;
+    const recent = Date.now() - 24 * 60 * 60 * 1000;
+    await writeFile(join(logDir, `audit-${expired}.jsonl`), "");
+    await writeFile(join(logDir, `audit-${recent}.jsonl`), "");
+
+    const logger = new AuditLogger(logDir, logging);
+    logger.log({ outcome: "allowed", tool: "click" });
+    await logger.flush();
+
+    expect((await readdir(logDir)).sort()).toEqual(
+      [`audit-${recent}.jsonl`, "audit.jsonl"].sort()
+    );
+  });
+
+  it("should delete expired files daily without waiting for rotation", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const day = 24 * 60 * 60 * 1000;
+    const logger = new AuditLogger(logDir, logging);
+    logger.log({ outcome: "allowed", tool: "click" });
+    await logger.flush();
+
+    const rotatedAt = Date.now() - 7 * day;
+    await writeFile(join(logDir, `audit-${rotatedAt}.jsonl`), "");
+
+    // Expired, but the last look was less than a day ago
+    vi.setSystemTime(Date.now() + day - 1000);
+    await logger.cleanup();
+    expect(await readdir(logDir)).toContain(`audit-${rotatedAt}.jsonl`);
+
+    vi.setSystemTime(Date.now() + 1000);
+    await logger.cleanup();
+    expect(await readdir(logDir)).toEqual(["audit.jsonl"]);
+  });
+
+  it("should filter by time range, tool, domain and outcome", async () => {
+    const logger = new AuditLogger(logDir, logging);
+    logger.log({
+      outcome: "allowed",
+      tool: "click",
+      domain: "shop.example.com",
+    });
+    logger.log({ outcome: "denied", tool: "click", domain: "bank.com" });
+    logger.log({ outcome: "allowed", tool: "navigate", domain: "example.com" });
+
+    const byDomain = await logger.query({ domain: "example.com" });
+    expect(byDomain.entries.map((entry) => entry.tool)).toEqual([
+      "click",
+      "navigate",
+    ]);
+
+    const byOutcome = await logger.query({ tool: "click", outcome: "denied" });
+    expect(byOutcome.entries.map((entry) => entry.domain)).toEqual([
+      "bank.com",
+    ]);
+
+    const future = new Date(Date.now() + 60000).toISOString();
+    expect((await logger.query({ since: future })).total).toBe(0);
+    expect((await logger.query({ until: future })).total).toBe(3);
+  });
+});
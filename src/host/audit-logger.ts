@@ -0,0 +1,250 @@
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+} from "fs/promises";
+import { join } from "path";
+import type {
+  AuditEntry,
+  AuditOutcome,
+  AuditQueryInput,
+  Configuration,
+  LogLevel,
+} from "@/shared/types.js";
+
+export type AuditRecord = Omit<AuditEntry, "timestamp" | "level">;
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  total: number; // Matching entries, including those beyond the limit
+}
+
+const CURRENT_FILE = "audit.jsonl";
+// Rotated files are named after the time they were rotated out
+const ROTATED_FILE = /^audit-(\d+)\.jsonl$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LEVEL_ORDER: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const OUTCOME_LEVELS: Record<AuditOutcome, LogLevel> = {
+  allowed: "info",
+  approval_requested: "info",
+  approval_granted: "info",
+  succeeded: "info",
+  denied: "warn",
+  approval_denied: "warn",
+  failed: "error",
+};
+
+/**
+ * Appends policy decisions and tool results to a JSON Lines file,
+ * rotating it at maxLogSize and deleting rotated files after retentionDays
+ */
+export class AuditLogger {
+  // Size of the current file, read on the first write
+  private size: number | null = null;
+  // Rotated file names must stay unique when rotating twice in a millisecond
+  private lastRotatedAt = 0;
+  // Writes are chained so lines never interleave and rotation is atomic
+  private pending: Promise<void> = Promise.resolve();
+  // When expired files were last looked for
+  private expiredCheckedAt = 0;
+
+  constructor(
+    private logDir: string,
+    private options: Configuration["logging"]
+  ) {}
+
+  /**
+   * Apply new logging settings to subsequent entries
+   */
+  configure(options: Configuration["logging"]): void {
+    this.options = options;
+  }
+
+  /**
+   * Queue an entry unless its level is below the configured one
+   */
+  log(record: AuditRecord): void {
+    const level = OUTCOME_LEVELS[record.outcome];
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry: AuditEntry = { timestamp: Date.now(), level, ...record };
+    if (!this.isEnabled("debug")) {
+      delete entry.result;
+    }
+
+    const line = JSON.stringify(entry) + "\n";
+    this.pending = this.pending
+      .then(() => this.append(line))
+      .catch((error) => {
+        console.error(
+          `Failed to write audit log in ${this.logDir}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      });
+  }
+
+  /**
+   * Delete expired rotated files if they were last looked for a day ago,
+   * so retention applies to servers that run for long without rotating
+   */
+  cleanup(): Promise<void> {
+    if (Date.now() - this.expiredCheckedAt < DAY_MS) {
+      return this.pending;
+    }
+
+    this.pending = this.pending
+      .then(() => this.removeExpired())
+      .catch((error) => {
+        console.error(
+          `Failed to delete expired audit logs in ${this.logDir}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      });
+    return this.pending;
+  }
+
+  /**
+   * Resolve once every queued entry is on disk
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Find entries by time range, tool, domain and outcome, oldest first.
+   * Returns the most recent `limit` matches.
+   */
+  async query(
+    filter: Partial<AuditQueryInput> = {}
+  ): Promise<AuditQueryResult> {
+    await this.flush();
+
+    const since = filter.since !== undefined ? toTime(filter.since) : 0;
+    const until =
+      filter.until !== undefined ? toTime(filter.until) : Number.MAX_VALUE;
+    const domain = filter.domain?.toLowerCase();
+    const limit = filter.limit ?? 100;
+
+    const matches: AuditEntry[] = [];
+    for (const file of await this.listFiles(since)) {
+      let content: string;
+      try {
+        content = await readFile(join(this.logDir, file), "utf-8");
+      } catch {
+        // Deleted by retention while we were reading
+        continue;
+      }
+
+      for (const line of content.split("\n")) {
+        if (!line) {
+          continue;
+        }
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A partial line from a crash mid-write
+          continue;
+        }
+
+        if (
+          entry.timestamp >= since &&
+          entry.timestamp <= until &&
+          (!filter.tool || entry.tool === filter.tool) &&
+          (!filter.outcome || entry.outcome === filter.outcome) &&
+          (!domain ||
+            entry.domain === domain ||
+            entry.domain?.endsWith(`.${domain}`))
+        ) {
+          matches.push(entry);
+        }
+      }
+    }
+
+    return {
+      entries: matches.slice(Math.max(0, matches.length - limit)),
+      total: matches.length,
+    };
+  }
+
+  private isEnabled(level: LogLevel): boolean {
+    return (
+      LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(this.options.level)
+    );
+  }
+
+  private async append(line: string): Promise<void> {
+    const currentPath = join(this.logDir, CURRENT_FILE);
+
+    if (this.size === null) {
+      await mkdir(this.logDir, { recursive: true, mode: 0o700 });
+      try {
+        this.size = (await stat(currentPath)).size;
+      } catch {
+        this.size = 0;
+      }
+      await this.removeExpired();
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxLogSize) {
+      this.lastRotatedAt = Math.max(Date.now(), this.lastRotatedAt + 1);
+      await rename(
+        currentPath,
+        join(this.logDir, `audit-${this.lastRotatedAt}.jsonl`)
+      );
+      this.size = 0;
+      await this.removeExpired();
+    }
+
+    // Arguments are redacted, but keep the log private like flows
+    await appendFile(currentPath, line, { encoding: "utf-8", mode: 0o600 });
+    this.size += bytes;
+  }
+
+  /**
+   * Delete rotated files whose newest entry is older than retentionDays
+   */
+  private async removeExpired(): Promise<void> {
+    this.expiredCheckedAt = Date.now();
+    const cutoff = this.expiredCheckedAt - this.options.retentionDays * DAY_MS;
+    for (const file of await this.listFiles()) {
+      const rotatedAt = ROTATED_FILE.exec(file);
+      if (rotatedAt && Number(rotatedAt[1]) < cutoff) {
+        await unlink(join(this.logDir, file));
+      }
+    }
+  }
+
+  /**
+   * Log files oldest first, skipping rotated files with nothing after `since`
+   */
+  private async listFiles(since = 0): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.logDir);
+    } catch {
+      return [];
+    }
+
+    const rotated = files
+      .map((file) => ({ file, rotatedAt: ROTATED_FILE.exec(file)?.[1] }))
+      .filter(({ rotatedAt }) => rotatedAt && Number(rotatedAt) >= since)
+      .sort((a, b) => Number(a.rotatedAt) - Number(b.rotatedAt))
+      .map(({ file }) => file);
+
+    return files.includes(CURRENT_FILE) ? [...rotated, CURRENT_FILE] : rotated;
+  }
+}
+
+function toTime(value: number | string): number {
+  return typeof value === "number" ? value : Date.parse(value);
+}
@@ -1,11 +1,80 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocket } from "ws";
 import { WebSocketBridge } from "./bridge.js";
+import {
+  BRIDGE_CLOSE_CODES,
+  BRIDGE_PROTOCOL_VERSION,
+  WEBSOCKET_PORT,
+  type BridgeMessage,
+  type BridgeResponse,
+} from "@/shared/types.js";
+
+const TEST_SECRET = "test-pairing-secret";
+
+/**
+ * Open a raw socket to the bridge, optionally as a browser origin
+ */
+async function openSocket(origin?: string): Promise<WebSocket> {
+  const ws = new WebSocket(`ws://localhost:${WEBSOCKET_PORT}`, { origin });
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+  return ws;
+}
+
+function sendHello(ws: WebSocket, payload: Record<string, unknown>): void {
+  ws.send(
+    JSON.stringify({
+      id: "hello",
+      cmd: "hello",
+      payload,
+      timestamp: Date.now(),
+    })
+  );
+}
+
+/**
+ * Wait for the server to close a socket and report the code and reason
+ */
+function waitForClose(
+  ws: WebSocket
+): Promise<{ code: number; reason: string }> {
+  return new Promise((resolve) => {
+    ws.once("close", (code, reason) =>
+      resolve({ code, reason: reason.toString() })
+    );
+  });
+}
+
+/**
+ * Connect a fake extension client that announces a profile label
+ */
+async function connectClient(profile: string): Promise<WebSocket> {
+  const ws = await openSocket();
+  sendHello(ws, {
+    profile,
+    browser: "Chrome",
+    secret: TEST_SECRET,
+    protocolVersion: BRIDGE_PROTOCOL_VERSION,
+  });
+  // Give the server a moment to process the announcement
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  return ws;
+}
 
 describe("WebSocketBridge", () => {
   let bridge: WebSocketBridge;
 
-  beforeEach(() => {
-    bridge = new WebSocketBridge();
+  let pinned: string[];
+
+  beforeEach(async () => {
+    pinned = [];
+    bridge = new WebSocketBridge({
+      secret: TEST_SECRET,
+      onExtensionPinned: (extensionId) => pinned.push(extensionId),
+    });
+    await bridge.waitUntilListening();
   });
 
   afterEach(async () => {
@@ -48,4 +117,200 @@ describe("WebSocketBridge", () => {
   it("should close gracefully", async () => {
     await expect(bridge.close()).resolves.toBeUndefined();
   });
+
+  describe("Handshake", () => {
+    it("should accept clients presenting the pairing secret", async () => {
+      const ws = await connectClient("work");
+      expect(bridge.getStatus().clientCount).toBe(1);
+      ws.close();
+    });
+
+    it("should close sockets with a wrong secret", async () => {
+      const ws = await openSocket();
+      const closed = waitForClose(ws);
+      sendHello(ws, {
+        secret: "wrong",
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      });
+
+      expect(await closed).toEqual({
+        code: BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+        reason: "Invalid pairing secret",
+      });
+      expect(bridge.getStatus().clientCount).toBe(0);
+    });
+
+    it("should require hello as the first message", async () => {
+      const ws = await openSocket();
+      const closed = waitForClose(ws);
+      ws.send(JSON.stringify({ replyTo: "forged", payload: { ok: true } }));
+
+      const { code, reason } = await closed;
+      expect(code).toBe(BRIDGE_CLOSE_CODES.UNAUTHORIZED);
+      expect(reason).toContain("first message must be hello");
+    });
+
+    it("should reject other protocol versions", async () => {
+      const ws = await openSocket();
+      const closed = waitForClose(ws);
+      sendHello(ws, { secret: TEST_SECRET, protocolVersion: 999 });
+
+      expect((await closed).code).toBe(BRIDGE_CLOSE_CODES.PROTOCOL_MISMATCH);
+    });
+
+    it("should refuse web page origins", async () => {
+      await expect(openSocket("https://evil.example")).rejects.toThrow("403");
+    });
+
+    it("should accept extension origins", async () => {
+      const ws = await openSocket("chrome-extension://abcdefghijklmnop");
+      expect(ws.readyState).toBe(WebSocket.OPEN);
+      ws.close();
+    });
+
+    it("should pin the first extension that pairs", async () => {
+      const first = await openSocket("chrome-extension://abcdefghijklmnop");
+      const other = await openSocket("chrome-extension://ponmlkjihgfedcba");
+      const hello = {
+        secret: TEST_SECRET,
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      };
+      sendHello(first, hello);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(pinned).toEqual(["abcdefghijklmnop"]);
+
+      // Sockets opened before the pin may not pair with the secret either
+      const closed = waitForClose(other);
+      sendHello(other, hello);
+      expect(await closed).toEqual({
+        code: BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+        reason: "Origin not allowed",
+      });
+      await expect(
+        openSocket("chrome-extension://ponmlkjihgfedcba")
+      ).rejects.toThrow("403");
+      expect(bridge.getStatus().clientCount).toBe(1);
+      first.close();
+    });
+  });
+
+  describe("Multiple clients", () => {
+    let work: WebSocket;
+    let personal: WebSocket;
+
+    beforeEach(async () => {
+      work = await connectClient("work");
+      personal = await connectClient("personal");
+    });
+
+    afterEach(() => {
+      work.close();
+      personal.close();
+    });
+
+    it("should expose client profile labels", () => {
+      const profiles = bridge
+        .getClients()
+        .map((c) => c.profile)
+        .sort();
+      expect(profiles).toEqual(["personal", "work"]);
+    });
+
+    it("should route commands to the requested profile", async () => {
+      personal.on("message", (data) => {
+        const message = JSON.parse(data.toString()) as BridgeMessage;
+        personal.send(
+          JSON.stringify({
+            replyTo: message.id,
+            payload: { answeredBy: "personal" },
+          })
+        );
+      });
+
+      const response = await bridge.sendCommand(
+        "get_url",
+        {},
+        { profile: "personal" }
+      );
+      expect(response.success).toBe(true);
+      expect(response.data?.answeredBy).toBe("personal");
+    });
+
+    it("should reject unknown profiles", async () => {
+      await expect(
+        bridge.sendCommand("get_url", {}, { profile: "missing" })
+      ).rejects.toThrow("No extension client connected for profile");
+    });
+
+    it("should only fail requests of the client that disconnects", async () => {
+      personal.on("message", (data) => {
+        const message = JSON.parse(data.toString()) as BridgeMessage;
+        // Answer after the other client has gone away
+        setTimeout(() => {
+          personal.send(
+            JSON.stringify({ replyTo: message.id, payload: { ok: true } })
+          );
+        }, 100);
+      });
+      work.on("message", () => work.close());
+
+      const [workResponse, personalResponse] = await Promise.all([
+        bridge.sendCommand("get_url", {}, { profile: "work" }),
+        bridge.sendCommand("get_url", {}, { profile: "personal" }),
+      ]);
+
+      expect(workResponse.success).toBe(false);
+      expect(workResponse.error).toBe("Client disconnected");
+      expect(personalResponse.success).toBe(true);
+    });
+
+    it("should push notifications to one or all clients", async () => {
+      const received: string[] = [];
+      const record = (profile: string) => (data: unknown) => {
+        const message = JSON.parse(String(data)) as BridgeMessage;
+        received.push(`${profile}:${message.payload.step}`);
+      };
+      work.on("message", record("work"));
+      personal.on("message", record("personal"));
+      const workId = bridge.getClients().find((c) => c.profile === "work")!.id;
+
+      bridge.notify("config_changed", { step: 1 });
+      bridge.notify("config_changed", { step: 2 }, workId);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(received.sort()).toEqual(["personal:1", "work:1", "work:2"]);
+      expect(bridge.getStatus().pendingRequests).toBe(0);
+    });
+
+    it("should answer extension requests with a registered handler", async () => {
+      bridge.onRequest("flow_status", async (_payload, clientId) => ({
+        success: true,
+        data: { clientId },
+        metadata: { timestamp: Date.now() },
+      }));
+      const personalId = bridge
+        .getClients()
+        .find((c) => c.profile === "personal")!.id;
+
+      const reply = new Promise<BridgeResponse>((resolve) => {
+        personal.once("message", (data) =>
+          resolve(JSON.parse(data.toString()) as BridgeResponse)
+        );
+      });
+      personal.send(
+        JSON.stringify({
+          id: "request-1",
+          cmd: "flow_status",
+          payload: {},
+          timestamp: Date.now(),
+        })
+      );
+
+      expect(await reply).toMatchObject({
+        replyTo: "request-1",
+        payload: { success: true, data: { clientId: personalId } },
+      });
+    });
+  });
 });
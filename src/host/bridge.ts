@@ -1,8 +1,12 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { randomUUID } from "crypto";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
 import {
+  BRIDGE_CLOSE_CODES,
+  BRIDGE_HANDSHAKE_TIMEOUT_MS,
+  BRIDGE_PROTOCOL_VERSION,
   BridgeMessage,
   BridgeResponse,
+  ToolResponse,
   WEBSOCKET_PORT,
 } from "../shared/types.js";
 
@@ -11,64 +15,271 @@ export interface ConnectedClient {
   ws: WebSocket;
   connectedAt: number;
   lastActivity: number;
+  profile?: string;
+  browser?: string;
 }
 
 export interface PendingRequest {
   id: string;
+  clientId: string;
   resolve: (response: unknown) => void;
   reject: (error: Error) => void;
   timestamp: number;
+  timeoutMs: number;
   timeoutId: ReturnType<typeof setTimeout>;
 }
 
+export interface ClientTarget {
+  clientId?: string;
+  profile?: string;
+}
+
+export interface SendCommandOptions extends ClientTarget {
+  timeoutMs?: number;
+}
+
+export interface BridgeOptions {
+  // Pairing secret the extension must present in its first hello message
+  secret: string;
+  // Extension ids allowed to connect; when empty, the first extension to
+  // present the secret is pinned
+  allowedExtensionIds?: string[];
+  // Called with the id of the extension pinned on first pairing
+  onExtensionPinned?: (extensionId: string) => void;
+}
+
+export type BridgeEventHandler = (
+  payload: Record<string, unknown>,
+  clientId: string
+) => void;
+
+export type BridgeRequestHandler = (
+  payload: Record<string, unknown>,
+  clientId: string
+) => Promise<ToolResponse>;
+
 export class WebSocketBridge {
   private server: WebSocketServer;
   private clients = new Map<string, ConnectedClient>();
   private pendingRequests = new Map<string, PendingRequest>();
+  private eventHandlers = new Map<string, BridgeEventHandler[]>();
+  private requestHandlers = new Map<string, BridgeRequestHandler>();
   private readonly requestTimeoutMs = 30000; // 30 seconds
+  private readonly secretDigest: Buffer;
+  private allowedExtensionIds: string[];
+  private readonly onExtensionPinned?: (extensionId: string) => void;
+  private readonly listening: Promise<void>;
+
+  constructor(options: BridgeOptions) {
+    this.secretDigest = this.digest(options.secret);
+    this.allowedExtensionIds = options.allowedExtensionIds || [];
+    this.onExtensionPinned = options.onExtensionPinned;
 
-  constructor() {
     this.server = new WebSocketServer({
       port: WEBSOCKET_PORT,
       host: "localhost",
+      verifyClient: ({ origin }, callback) => {
+        if (this.isOriginAllowed(origin)) {
+          callback(true);
+        } else {
+          console.warn(`[Bridge] Rejected connection from origin: ${origin}`);
+          callback(false, 403, "Origin not allowed");
+        }
+      },
+    });
+    this.listening = new Promise((resolve) => {
+      this.server.once("listening", resolve);
     });
 
     this.setupServer();
   }
 
+  /**
+   * Resolve once the server accepts connections
+   */
+  public waitUntilListening(): Promise<void> {
+    return this.listening;
+  }
+
+  /**
+   * Browsers always send an Origin header, so web pages are refused here.
+   * Non-browser clients send none and still have to present the secret.
+   */
+  private isOriginAllowed(origin: string | undefined): boolean {
+    if (!origin) {
+      return true;
+    }
+
+    const extensionId = this.getExtensionId(origin);
+    if (!extensionId) {
+      return false;
+    }
+
+    // Until one is pinned any extension may try; the secret decides
+    return (
+      this.allowedExtensionIds.length === 0 ||
+      this.allowedExtensionIds.includes(extensionId)
+    );
+  }
+
+  private getExtensionId(origin: string): string | undefined {
+    const prefix = "chrome-extension://";
+    if (!origin.startsWith(prefix)) {
+      return undefined;
+    }
+    return origin.slice(prefix.length) || undefined;
+  }
+
+  /**
+   * Pin the first extension to present the secret, so other extensions
+   * cannot connect with it later
+   */
+  private pinExtension(origin: string | undefined): void {
+    const extensionId = origin && this.getExtensionId(origin);
+    if (!extensionId || this.allowedExtensionIds.length > 0) {
+      return;
+    }
+
+    this.allowedExtensionIds = [extensionId];
+    console.warn(`[Bridge] Pinned extension ${extensionId}`);
+    this.onExtensionPinned?.(extensionId);
+  }
+
+  private digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+  }
+
+  /**
+   * Check the first message of a connection. Returns a close code and
+   * reason when the client must be refused.
+   */
+  private verifyHello(
+    message: BridgeMessage | BridgeResponse
+  ): { code: number; reason: string } | null {
+    if (!("cmd" in message) || message.cmd !== "hello") {
+      return {
+        code: BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+        reason: "Authentication required: first message must be hello",
+      };
+    }
+
+    const { secret, protocolVersion } = message.payload || {};
+    if (protocolVersion !== BRIDGE_PROTOCOL_VERSION) {
+      return {
+        code: BRIDGE_CLOSE_CODES.PROTOCOL_MISMATCH,
+        reason: `Unsupported protocol version ${protocolVersion} (server speaks ${BRIDGE_PROTOCOL_VERSION})`,
+      };
+    }
+
+    if (typeof secret !== "string" || secret.length === 0) {
+      return {
+        code: BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+        reason: "Pairing secret required",
+      };
+    }
+
+    if (!timingSafeEqual(this.digest(secret), this.secretDigest)) {
+      return {
+        code: BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+        reason: "Invalid pairing secret",
+      };
+    }
+
+    return null;
+  }
+
   private setupServer(): void {
-    this.server.on("connection", (ws: WebSocket) => {
+    this.server.on("connection", (ws: WebSocket, request) => {
       const clientId = randomUUID();
+      const { origin } = request.headers;
       const client: ConnectedClient = {
         id: clientId,
         ws,
         connectedAt: Date.now(),
         lastActivity: Date.now(),
       };
+      let authenticated = false;
 
-      this.clients.set(clientId, client);
-      console.log(`[Bridge] Client connected: ${clientId}`);
+      // stdout carries the MCP stream, and any local process can connect
+      console.error(`[Bridge] Client connecting: ${clientId}`);
+
+      // Clients that never say hello are dropped
+      const handshakeTimeoutId = setTimeout(() => {
+        if (!authenticated) {
+          ws.close(BRIDGE_CLOSE_CODES.HANDSHAKE_TIMEOUT, "Handshake timeout");
+        }
+      }, BRIDGE_HANDSHAKE_TIMEOUT_MS);
 
       // Set up message handling for this client
       ws.on("message", (data: Buffer) => {
         try {
-          const message = JSON.parse(data.toString()) as BridgeResponse;
-          this.handleResponse(clientId, message);
+          const message = JSON.parse(data.toString()) as
+            | BridgeResponse
+            | BridgeMessage;
+
+          // Nothing is trusted until the client has authenticated
+          if (!authenticated) {
+            clearTimeout(handshakeTimeoutId);
+            const rejection = this.verifyHello(message);
+            if (rejection) {
+              console.warn(
+                `[Bridge] Rejected client ${clientId}: ${rejection.reason}`
+              );
+              ws.close(rejection.code, rejection.reason);
+              return;
+            }
+
+            // Another extension may have been pinned since this socket opened
+            if (!this.isOriginAllowed(origin)) {
+              console.warn(
+                `[Bridge] Rejected client ${clientId}: origin ${origin} is not pinned`
+              );
+              ws.close(BRIDGE_CLOSE_CODES.UNAUTHORIZED, "Origin not allowed");
+              return;
+            }
+
+            this.pinExtension(origin);
+            authenticated = true;
+            this.clients.set(clientId, client);
+            console.error(`[Bridge] Client connected: ${clientId}`);
+          }
+
+          // Responses carry replyTo; commands with a registered request
+          // handler get a reply; anything else is an extension-pushed event
+          if ("replyTo" in message) {
+            this.handleResponse(clientId, message);
+          } else if (this.requestHandlers.has(message.cmd)) {
+            this.handleRequest(client, message);
+          } else {
+            this.handleEvent(clientId, message);
+          }
         } catch (error) {
           console.error(
             `[Bridge] Invalid message from client ${clientId}:`,
             error
           );
+          if (!authenticated) {
+            clearTimeout(handshakeTimeoutId);
+            ws.close(
+              BRIDGE_CLOSE_CODES.UNAUTHORIZED,
+              "Authentication required: first message must be hello"
+            );
+          }
         }
       });
 
       // Handle client disconnection
       ws.on("close", () => {
-        console.log(`[Bridge] Client disconnected: ${clientId}`);
+        clearTimeout(handshakeTimeoutId);
+        if (!authenticated) {
+          return;
+        }
+
+        console.error(`[Bridge] Client disconnected: ${clientId}`);
         this.clients.delete(clientId);
 
-        // Reject any pending requests from this client
-        this.rejectPendingRequestsForClient();
+        // Reject any pending requests sent to this client
+        this.rejectPendingRequestsForClient(clientId);
       });
 
       // Handle WebSocket errors
@@ -78,7 +289,7 @@ export class WebSocketBridge {
           error
         );
         this.clients.delete(clientId);
-        this.rejectPendingRequestsForClient();
+        this.rejectPendingRequestsForClient(clientId);
       });
 
       // Send ping to keep connection alive
@@ -99,9 +310,11 @@ export class WebSocketBridge {
       console.error("[Bridge] WebSocket server error:", error);
     });
 
-    console.log(
-      `[Bridge] WebSocket server listening on localhost:${WEBSOCKET_PORT}`
-    );
+    this.server.on("listening", () => {
+      console.error(
+        `[Bridge] WebSocket server listening on localhost:${WEBSOCKET_PORT}`
+      );
+    });
   }
 
   private handleResponse(clientId: string, response: BridgeResponse): void {
@@ -123,6 +336,14 @@ export class WebSocketBridge {
       return;
     }
 
+    // Only the client a request was sent to may answer it
+    if (pendingRequest.clientId !== clientId) {
+      console.warn(
+        `[Bridge] Client ${clientId} answered request ${response.replyTo} sent to ${pendingRequest.clientId}`
+      );
+      return;
+    }
+
     // Clear timeout and remove from pending requests
     clearTimeout(pendingRequest.timeoutId);
     this.pendingRequests.delete(response.replyTo);
@@ -135,10 +356,63 @@ export class WebSocketBridge {
     }
   }
 
-  private rejectPendingRequestsForClient(): void {
-    // Note: We don't track which client made which request in this simple implementation
-    // In a more sophisticated version, we might want to track this
+  private handleEvent(clientId: string, message: BridgeMessage): void {
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.lastActivity = Date.now();
+    }
+
+    // Clients announce their profile/browser label when they connect
+    if (message.cmd === "hello" && client) {
+      const { profile, browser } = message.payload || {};
+      client.profile = typeof profile === "string" ? profile : undefined;
+      client.browser = typeof browser === "string" ? browser : undefined;
+      console.error(
+        `[Bridge] Client ${clientId} identified as ${client.profile || "unnamed"} (${client.browser || "unknown browser"})`
+      );
+    }
+
+    const handlers = this.eventHandlers.get(message.cmd) || [];
+    for (const handler of handlers) {
+      try {
+        handler(message.payload || {}, clientId);
+      } catch (error) {
+        console.error(`[Bridge] Error handling event ${message.cmd}:`, error);
+      }
+    }
+  }
+
+  private async handleRequest(
+    client: ConnectedClient,
+    message: BridgeMessage
+  ): Promise<void> {
+    client.lastActivity = Date.now();
+    const handler = this.requestHandlers.get(message.cmd)!;
+
+    let reply: BridgeResponse;
+    try {
+      reply = {
+        replyTo: message.id,
+        payload: { ...(await handler(message.payload || {}, client.id)) },
+      };
+    } catch (error) {
+      reply = {
+        replyTo: message.id,
+        payload: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(JSON.stringify(reply));
+    }
+  }
+
+  private rejectPendingRequestsForClient(clientId: string): void {
     for (const [, request] of this.pendingRequests.entries()) {
+      if (request.clientId !== clientId) {
+        continue;
+      }
       clearTimeout(request.timeoutId);
       request.reject(new Error("Client disconnected"));
       this.pendingRequests.delete(request.id);
@@ -146,19 +420,57 @@ export class WebSocketBridge {
   }
 
   /**
-   * Send a command to the extension and wait for response
+   * Pick the client a command should go to. An explicit clientId or
+   * profile label must match; otherwise the earliest connected client is used.
    */
-  public async sendCommand(
-    cmd: string,
-    payload: Record<string, unknown> = {}
-  ): Promise<import("../shared/types.js").ToolResponse> {
+  private selectClient(target: ClientTarget = {}): ConnectedClient {
     if (this.clients.size === 0) {
       throw new Error("No extension clients connected");
     }
 
-    // For now, send to the first available client
-    // In a more sophisticated implementation, we might want client selection logic
-    const client = Array.from(this.clients.values())[0];
+    if (target.clientId) {
+      const client = this.clients.get(target.clientId);
+      if (!client) {
+        throw new Error(`Unknown extension client: ${target.clientId}`);
+      }
+      return client;
+    }
+
+    if (target.profile) {
+      const wanted = target.profile.toLowerCase();
+      const client = Array.from(this.clients.values()).find(
+        (c) => c.profile?.toLowerCase() === wanted
+      );
+      if (!client) {
+        throw new Error(
+          `No extension client connected for profile: ${target.profile}`
+        );
+      }
+      return client;
+    }
+
+    return Array.from(this.clients.values()).sort(
+      (a, b) => a.connectedAt - b.connectedAt
+    )[0];
+  }
+
+  /**
+   * Resolve a client target to a concrete connected client id
+   */
+  public resolveClientId(target: ClientTarget = {}): string {
+    return this.selectClient(target).id;
+  }
+
+  /**
+   * Send a command to the extension and wait for response
+   */
+  public async sendCommand(
+    cmd: string,
+    payload: Record<string, unknown> = {},
+    options: SendCommandOptions = {}
+  ): Promise<import("../shared/types.js").ToolResponse> {
+    const client = this.selectClient(options);
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
 
     const messageId = randomUUID();
     const message: BridgeMessage = {
@@ -172,15 +484,17 @@ export class WebSocketBridge {
       // Set up timeout
       const timeoutId = setTimeout(() => {
         this.pendingRequests.delete(messageId);
-        reject(new Error(`Request timeout after ${this.requestTimeoutMs}ms`));
-      }, this.requestTimeoutMs);
+        reject(new Error(`Request timeout after ${timeoutMs}ms`));
+      }, timeoutMs);
 
       // Store pending request
       this.pendingRequests.set(messageId, {
         id: messageId,
+        clientId: client.id,
         resolve,
         reject,
         timestamp: Date.now(),
+        timeoutMs,
         timeoutId,
       });
 
@@ -215,6 +529,7 @@ export class WebSocketBridge {
           data: response as Record<string, unknown>,
           metadata: {
             timestamp: Date.now(),
+            clientId: client.id,
           },
         } as import("../shared/types.js").ToolResponse;
       })
@@ -226,11 +541,55 @@ export class WebSocketBridge {
           metadata: {
             tool: cmd,
             timestamp: Date.now(),
+            clientId: client.id,
           },
         } as import("../shared/types.js").ToolResponse;
       });
   }
 
+  /**
+   * Push an event that expects no reply to one client, or to every
+   * connected client when no clientId is given
+   */
+  public notify(
+    cmd: string,
+    payload: Record<string, unknown> = {},
+    clientId?: string
+  ): void {
+    const message: BridgeMessage = {
+      id: randomUUID(),
+      cmd,
+      payload,
+      timestamp: Date.now(),
+    };
+    const data = JSON.stringify(message);
+
+    for (const client of this.clients.values()) {
+      if (clientId && client.id !== clientId) {
+        continue;
+      }
+      if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(data);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to events pushed by the extension (e.g. tab navigation)
+   */
+  public onEvent(event: string, handler: BridgeEventHandler): void {
+    const handlers = this.eventHandlers.get(event) || [];
+    handlers.push(handler);
+    this.eventHandlers.set(event, handlers);
+  }
+
+  /**
+   * Answer commands sent by the extension (e.g. side panel flow replay)
+   */
+  public onRequest(cmd: string, handler: BridgeRequestHandler): void {
+    this.requestHandlers.set(cmd, handler);
+  }
+
   /**
    * Get connection status
    */
@@ -254,6 +613,8 @@ export class WebSocketBridge {
       id: client.id,
       connectedAt: client.connectedAt,
       lastActivity: client.lastActivity,
+      profile: client.profile,
+      browser: client.browser,
     }));
   }
 
@@ -288,10 +649,9 @@ export class WebSocketBridge {
    */
   public cleanupStaleRequests(): void {
     const now = Date.now();
-    const staleThreshold = this.requestTimeoutMs;
 
     for (const [, request] of this.pendingRequests.entries()) {
-      if (now - request.timestamp > staleThreshold) {
+      if (now - request.timestamp > request.timeoutMs) {
         clearTimeout(request.timeoutId);
         request.reject(new Error("Request expired"));
         this.pendingRequests.delete(request.id);
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigManager } from "./config.js";
+import type { Configuration } from "@/shared/types.js";
+
+describe("ConfigManager", () => {
+  let configDir: string;
+  let configPath: string;
+  let manager: ConfigManager;
+  let config: Configuration;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "browser-pilot-config-"));
+    configPath = join(configDir, "config.json");
+    manager = new ConfigManager(configPath);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    config = await manager.loadConfiguration();
+  });
+
+  afterEach(async () => {
+    manager.stopWatching();
+    vi.restoreAllMocks();
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  describe("Reloading", () => {
+    it("should apply a valid edit and notify listeners", async () => {
+      const listener = vi.fn();
+      manager.onChange(listener);
+
+      const edited = { ...config, stepBudget: 5 };
+      await writeFile(configPath, JSON.stringify(edited));
+
+      expect(await manager.reloadConfiguration()).toBe(true);
+      expect(manager.getConfiguration()?.stepBudget).toBe(5);
+      expect(listener).toHaveBeenCalledWith(edited);
+    });
+
+    it("should keep the current configuration when the file is invalid", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const listener = vi.fn();
+      manager.onChange(listener);
+
+      await writeFile(
+        configPath,
+        JSON.stringify({
+          ...config,
+          stepBudget: -1,
+          allowlist: { "example.com": { read: "yes" } },
+        })
+      );
+
+      expect(await manager.reloadConfiguration()).toBe(false);
+      expect(manager.getConfiguration()).toEqual(config);
+      expect(listener).not.toHaveBeenCalled();
+      const message = error.mock.calls[0][0] as string;
+      expect(message).toContain("allowlist.example.com.read:");
+      expect(message).toContain("stepBudget:");
+    });
+
+    it("should report JSON syntax errors", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      await writeFile(configPath, "{ not json");
+
+      expect(await manager.reloadConfiguration()).toBe(false);
+      expect(error).toHaveBeenCalled();
+      expect(manager.getConfiguration()).toEqual(config);
+    });
+
+    it("should ignore its own saves", async () => {
+      const listener = vi.fn();
+      manager.onChange(listener);
+
+      await manager.addDomainToAllowlist("shop.example", {
+        read: true,
+        write: true,
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(await manager.reloadConfiguration()).toBe(false);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it("should refuse allowlist keys that are not policy patterns", async () => {
+    const listener = vi.fn();
+    manager.onChange(listener);
+
+    await expect(
+      manager.addDomainToAllowlist("my_host.corp", { read: true, write: true })
+    ).rejects.toThrow('Invalid allowlist pattern "my_host.corp"');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(
+      manager.getConfiguration()?.allowlist["my_host.corp"]
+    ).toBeUndefined();
+    expect(await new ConfigManager(configPath).loadConfiguration()).toEqual(
+      config
+    );
+  });
+
+  it("should reload when config.json changes on disk", async () => {
+    const changed = new Promise<Configuration>((resolve) =>
+      manager.onChange(resolve)
+    );
+    manager.watch();
+
+    const edited = JSON.parse(await readFile(configPath, "utf-8"));
+    edited.allowlist["news.example"] = { read: true, write: false };
+    await writeFile(configPath, JSON.stringify(edited, null, 2));
+
+    expect((await changed).allowlist["news.example"]).toEqual({
+      read: true,
+      write: false,
+    });
+  });
+});
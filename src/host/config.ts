@@ -1,18 +1,34 @@
 import { readFile, writeFile, mkdir } from "fs/promises";
-import { existsSync } from "fs";
-import { dirname } from "path";
+import { existsSync, watch, FSWatcher } from "fs";
+import { basename, dirname, join } from "path";
+import { randomBytes } from "crypto";
+import { isDeepStrictEqual } from "util";
+import type { ZodError } from "zod";
 import {
+  AUDIT_LOG_DIRNAME,
+  BRIDGE_SECRET_FILENAME,
   Configuration,
   ConfigurationSchema,
+  DomainPolicy,
+  FLOWS_DIRNAME,
+  PolicyPatternSchema,
   SENSITIVE_FIELD_PATTERNS,
 } from "@/shared/types.js";
 
+export type ConfigChangeListener = (config: Configuration) => void;
+
+// Editors save in several writes (truncate, write, rename); reload once
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+
 /**
  * Configuration management for Browser Pilot MCP
  */
 export class ConfigManager {
   private configPath: string;
   private config: Configuration | null = null;
+  private listeners: ConfigChangeListener[] = [];
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(configPath: string = "./config.json") {
     this.configPath = configPath;
@@ -68,17 +84,164 @@ export class ConfigManager {
 
       const configData = JSON.stringify(this.config, null, 2);
       await writeFile(this.configPath, configData, "utf-8");
-      console.log(`Configuration saved to ${this.configPath}`);
+      // Saves happen while serving, when stdout carries the MCP stream
+      console.error(`Configuration saved to ${this.configPath}`);
     } catch (error: unknown) {
       console.warn(
         `Failed to save configuration to ${this.configPath}:`,
         error instanceof Error ? error.message : String(error)
       );
-      console.log("Configuration changes will only persist in memory");
+      console.error("Configuration changes will only persist in memory");
       // Don't throw the error, just warn - allow the application to continue
     }
   }
 
+  /**
+   * Call a listener whenever the configuration changes, whether through
+   * this manager or an edit to config.json
+   */
+  onChange(listener: ConfigChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Watch config.json and reload it on change
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const configFile = basename(this.configPath);
+    try {
+      // Watch the directory, since editors often replace the file on save
+      this.watcher = watch(dirname(this.configPath), (_event, filename) => {
+        if (filename && filename.toString() !== configFile) {
+          return;
+        }
+        if (this.reloadTimer) {
+          clearTimeout(this.reloadTimer);
+        }
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          void this.reloadConfiguration();
+        }, CONFIG_RELOAD_DEBOUNCE_MS);
+      });
+      this.watcher.on("error", (error) => {
+        console.warn(`Stopped watching ${this.configPath}:`, error.message);
+        this.stopWatching();
+      });
+    } catch (error: unknown) {
+      console.warn(
+        `Could not watch ${this.configPath} for changes:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Stop reloading config.json on change
+   */
+  stopWatching(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Re-read config.json and apply it if it is valid and differs from the
+   * current configuration. An invalid file is reported and ignored, so the
+   * current configuration stays in effect.
+   * @returns Whether the configuration changed
+   */
+  async reloadConfiguration(): Promise<boolean> {
+    let parsedConfig: unknown;
+    try {
+      parsedConfig = JSON.parse(await readFile(this.configPath, "utf-8"));
+    } catch (error: unknown) {
+      // A missing file is mid-replace; the next change event picks it up
+      if ((error as { code?: string }).code !== "ENOENT") {
+        console.error(
+          `Ignoring invalid configuration in ${this.configPath}, keeping the current one:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+      return false;
+    }
+
+    const result = ConfigurationSchema.safeParse(parsedConfig);
+    if (!result.success) {
+      console.error(
+        `Ignoring invalid configuration in ${this.configPath}, keeping the current one:\n${formatIssues(result.error)}`
+      );
+      return false;
+    }
+
+    // Our own saves come back as change events too
+    if (isDeepStrictEqual(result.data, this.config)) {
+      return false;
+    }
+
+    this.config = result.data;
+    console.error(`Configuration reloaded from ${this.configPath}`);
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Path of the bridge pairing secret, kept next to config.json
+   */
+  getBridgeSecretPath(): string {
+    return join(dirname(this.configPath), BRIDGE_SECRET_FILENAME);
+  }
+
+  /**
+   * Directory recorded flows are saved in, kept next to config.json
+   */
+  getFlowsDir(): string {
+    return join(dirname(this.configPath), FLOWS_DIRNAME);
+  }
+
+  /**
+   * Directory the audit log is written to: logging.dir, or logs next to
+   * config.json
+   */
+  getAuditLogDir(): string {
+    return (
+      this.config?.logging.dir ||
+      join(dirname(this.configPath), AUDIT_LOG_DIRNAME)
+    );
+  }
+
+  /**
+   * Load the bridge pairing secret, generating one on first run
+   */
+  async loadBridgeSecret(): Promise<string> {
+    const secretPath = this.getBridgeSecretPath();
+
+    if (existsSync(secretPath)) {
+      const secret = (await readFile(secretPath, "utf-8")).trim();
+      if (secret) {
+        return secret;
+      }
+    }
+
+    const secret = randomBytes(32).toString("hex");
+    const secretDir = dirname(secretPath);
+    if (!existsSync(secretDir)) {
+      await mkdir(secretDir, { recursive: true });
+    }
+    await writeFile(secretPath, `${secret}\n`, {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+    console.error(`Bridge pairing secret created at ${secretPath}`);
+    return secret;
+  }
+
   /**
    * Update configuration and save
    */
@@ -95,27 +258,32 @@ export class ConfigManager {
     this.config = ConfigurationSchema.parse(this.config);
 
     await this.saveConfiguration();
+    this.notifyChange();
     return this.config;
   }
 
   /**
-   * Add domain to allowlist
+   * Add domain to allowlist; the key must be a policy URL pattern, or
+   * the saved file would no longer load
    */
   async addDomainToAllowlist(
     domain: string,
-    policy: {
-      read: boolean;
-      write: boolean;
-      requiresApproval?: boolean;
-      maxStepsPerHour?: number;
-    }
+    policy: DomainPolicy
   ): Promise<void> {
+    const pattern = PolicyPatternSchema.safeParse(domain);
+    if (!pattern.success) {
+      throw new Error(
+        `Invalid allowlist pattern "${domain}": ${pattern.error.issues[0].message}`
+      );
+    }
+
     if (!this.config) {
       await this.loadConfiguration();
     }
 
     this.config!.allowlist[domain] = policy;
     await this.saveConfiguration();
+    this.notifyChange();
   }
 
   /**
@@ -128,6 +296,7 @@ export class ConfigManager {
 
     delete this.config!.allowlist[domain];
     await this.saveConfiguration();
+    this.notifyChange();
   }
 
   /**
@@ -137,6 +306,16 @@ export class ConfigManager {
     return this.config;
   }
 
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(this.config!);
+      } catch (error) {
+        console.error("Error applying configuration change:", error);
+      }
+    }
+  }
+
   /**
    * Get default configuration
    */
@@ -209,3 +388,12 @@ export class ConfigManager {
     console.log(`Example configuration created at ${outputPath}`);
   }
 }
+
+/**
+ * One "path: message" line per schema violation
+ */
+function formatIssues(error: ZodError): string {
+  return error.issues
+    .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
@@ -1,4 +1,38 @@
-import { SENSITIVE_FIELD_PATTERNS } from "@/shared/types.js";
+import {
+  ConsoleEntry,
+  NetworkEntry,
+  SENSITIVE_FIELD_PATTERNS,
+} from "@/shared/types.js";
+
+// Headers that carry credentials whatever their value looks like
+const CREDENTIAL_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+  "x-xsrf-token",
+];
+
+// Page APIs that let eval_js code send data off the page, read
+// credentials or submit forms. Matching is textual, so code that builds
+// the names at runtime slips through; set evalJs to "off" or "approval"
+// where that matters.
+const EVAL_JS_CAPABILITIES: { name: string; pattern: RegExp }[] = [
+  { name: "fetch", pattern: /\bfetch\b/ },
+  { name: "XMLHttpRequest", pattern: /\bXMLHttpRequest\b/ },
+  { name: "sendBeacon", pattern: /\bsendBeacon\b/ },
+  { name: "WebSocket", pattern: /\bWebSocket\b/ },
+  // .cookie or ["cookie"], but not class selectors like .cookie-banner
+  {
+    name: "document.cookie",
+    pattern: /\.\s*cookie\b(?!-)|\[\s*["'`]cookie["'`]\s*\]|\bcookieStore\b/,
+  },
+  { name: "localStorage", pattern: /\b(?:local|session)Storage\b/ },
+  { name: "form submission", pattern: /\.\s*(?:submit|requestSubmit)\s*\(/ },
+];
 
 /**
  * Sensitive data detection and redaction utilities
@@ -118,6 +152,103 @@ export class DataRedactor {
     return redacted;
   }
 
+  /**
+   * Redact credential headers and headers with sensitive names
+   */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] =
+        CREDENTIAL_HEADERS.includes(name.toLowerCase()) ||
+        this.isSensitiveField(name)
+          ? "[REDACTED]"
+          : value;
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact query parameters with sensitive names from a URL
+   */
+  redactUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return this.redactString(url);
+    }
+
+    for (const name of Array.from(parsed.searchParams.keys())) {
+      if (this.isSensitiveField(name)) {
+        parsed.searchParams.set(name, "[REDACTED]");
+      }
+    }
+
+    return parsed.toString();
+  }
+
+  /**
+   * Redact a request or response body, field by field when it is JSON
+   */
+  redactBody(body: string): string {
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed === "object" && parsed !== null) {
+        const redacted = Array.isArray(parsed)
+          ? this.redactObject({ items: parsed }).items
+          : this.redactObject(parsed);
+        return JSON.stringify(redacted);
+      }
+    } catch {
+      // Not JSON, fall through to pattern redaction
+    }
+
+    return this.redactString(body);
+  }
+
+  /**
+   * Redact the URL, headers and bodies of a recorded network request
+   */
+  redactNetworkEntry(entry: NetworkEntry): NetworkEntry {
+    const redacted: NetworkEntry = { ...entry, url: this.redactUrl(entry.url) };
+
+    if (entry.requestHeaders) {
+      redacted.requestHeaders = this.redactHeaders(entry.requestHeaders);
+    }
+    if (entry.responseHeaders) {
+      redacted.responseHeaders = this.redactHeaders(entry.responseHeaders);
+    }
+    if (entry.postData) {
+      redacted.postData = this.redactBody(entry.postData);
+    }
+    if (entry.body && !entry.base64Encoded) {
+      redacted.body = this.redactBody(entry.body);
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact the message, stack and source URL of a console entry
+   */
+  redactConsoleEntry(entry: ConsoleEntry): ConsoleEntry {
+    const redacted: ConsoleEntry = {
+      ...entry,
+      text: this.redactString(entry.text),
+    };
+
+    if (entry.url) {
+      redacted.url = this.redactUrl(entry.url);
+    }
+    if (entry.stack) {
+      redacted.stack = this.redactString(entry.stack);
+    }
+
+    return redacted;
+  }
+
   /**
    * Check if an action is sensitive based on context
    */
@@ -132,7 +263,7 @@ export class DataRedactor {
   } {
     // Check for sensitive tool operations
     if (toolName === "type_text") {
-      const selector = args.selector as string;
+      const selector = (args.selector as string) || this.locatorText(args);
       const text = args.text as string;
 
       // Check if typing into sensitive fields
@@ -154,6 +285,59 @@ export class DataRedactor {
       }
     }
 
+    // Every form field is screened like its own type_text call
+    if (toolName === "fill_form" && Array.isArray(args.fields)) {
+      for (const field of args.fields as Record<string, unknown>[]) {
+        const selector =
+          typeof field.selector === "string"
+            ? field.selector
+            : this.locatorText(field);
+        if (selector && this.isSensitiveSelector(selector)) {
+          return {
+            isSensitive: true,
+            reason: `Filling sensitive field ${selector}`,
+            riskLevel: "high",
+          };
+        }
+
+        if (
+          typeof field.value === "string" &&
+          this.containsSensitiveData(field.value)
+        ) {
+          return {
+            isSensitive: true,
+            reason: "Form value contains sensitive data",
+            riskLevel: "high",
+          };
+        }
+      }
+    }
+
+    // Keys are screened like the text their printable characters spell out
+    if (toolName === "press_keys") {
+      const selector = (args.selector as string) || this.locatorText(args);
+      if (selector && this.isSensitiveField(selector)) {
+        return {
+          isSensitive: true,
+          reason: "Pressing keys in sensitive field",
+          riskLevel: "high",
+        };
+      }
+
+      const keys = Array.isArray(args.keys) ? args.keys : [];
+      const text = keys
+        .filter((key): key is string => typeof key === "string")
+        .filter((key) => key.length === 1)
+        .join("");
+      if (text && this.containsSensitiveData(text)) {
+        return {
+          isSensitive: true,
+          reason: "Keys spell out sensitive data",
+          riskLevel: "high",
+        };
+      }
+    }
+
     // Check for sensitive URLs
     if (url) {
       const lowerUrl = url.toLowerCase();
@@ -202,10 +386,23 @@ export class DataRedactor {
       }
     }
 
-    // Check for large data operations
-    if (toolName === "eval_js") {
-      const code = args.code as string;
-      if (code && code.length > 1000) {
+    // Check page script, eval_js code or a wait_for predicate, for
+    // exfiltration paths and large data operations
+    const code =
+      toolName === "eval_js" ? args.code : toolName === "wait_for" && args.js;
+    if (typeof code === "string") {
+      const capabilities = EVAL_JS_CAPABILITIES.filter(({ pattern }) =>
+        pattern.test(code)
+      ).map(({ name }) => name);
+      if (capabilities.length > 0) {
+        return {
+          isSensitive: true,
+          reason: `JavaScript uses ${capabilities.join(", ")}`,
+          riskLevel: "high",
+        };
+      }
+
+      if (code.length > 1000) {
         return {
           isSensitive: true,
           reason: "Executing large JavaScript code",
@@ -262,6 +459,22 @@ export class DataRedactor {
     }
   }
 
+  /**
+   * Text a locator matches on, so locators are screened like selectors
+   */
+  private locatorText(args: Record<string, unknown>): string | undefined {
+    const locator = args.locator as Record<string, unknown> | undefined;
+    if (!locator || typeof locator !== "object") {
+      return undefined;
+    }
+
+    const text = ["label", "placeholder", "name", "testId", "text"]
+      .map((key) => locator[key])
+      .filter((value): value is string => typeof value === "string")
+      .join(" ");
+    return text || undefined;
+  }
+
   /**
    * Detect if selector targets sensitive form fields
    */
@@ -315,7 +528,17 @@ export class DataRedactor {
     }
 
     // Check for write operations on sensitive domains
-    const writeTools = ["click", "type_text", "eval_js", "navigate"];
+    const writeTools = [
+      "click",
+      "type_text",
+      "fill_form",
+      "press_keys",
+      "double_click",
+      "right_click",
+      "drag_and_drop",
+      "eval_js",
+      "navigate",
+    ];
     if (writeTools.includes(toolName) && url) {
       const domain = new URL(url).hostname.toLowerCase();
       if (domain.includes("bank") || domain.includes("payment")) {
@@ -325,8 +548,12 @@ export class DataRedactor {
     }
 
     // Check for selector-based risks
-    if (args.selector && typeof args.selector === "string") {
-      if (this.isSensitiveSelector(args.selector)) {
+    const selector =
+      typeof args.selector === "string"
+        ? args.selector
+        : this.locatorText(args);
+    if (selector) {
+      if (this.isSensitiveSelector(selector)) {
         reasons.push("Targeting sensitive form field");
         if (riskLevel !== "high") {
           riskLevel = "medium";
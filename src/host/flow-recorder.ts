@@ -0,0 +1,319 @@
+import { readFile, readdir, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  FLOW_FORMAT_VERSION,
+  Flow,
+  FlowNameSchema,
+  FlowSchema,
+  FlowStep,
+} from "@/shared/types.js";
+
+export interface FlowSummary {
+  name: string;
+  createdAt: number;
+  stepCount: number;
+  // Placeholders a replay needs values for
+  params: string[];
+}
+
+export interface FlowRecordingStatus {
+  recording: boolean;
+  name?: string;
+  clientId?: string;
+  stepCount?: number;
+}
+
+// Whether typing the args of a tool call would be a sensitive action
+export type SensitiveCheck = (
+  tool: string,
+  args: Record<string, unknown>
+) => boolean;
+
+// Saved in place of a sensitive typed value; run_flow params fill it in
+const PLACEHOLDER = /^\{\{(\w+)\}\}$/;
+
+interface RecordingSession {
+  name: string;
+  clientId: string;
+  startedAt: number;
+  steps: FlowStep[];
+}
+
+/**
+ * Records the tool calls made in one browser into a named flow and
+ * stores flows as versioned JSON files for replay
+ */
+export class FlowRecorder {
+  private session: RecordingSession | null = null;
+
+  constructor(private flowsDir: string) {}
+
+  /**
+   * Start recording tool calls routed to the given client
+   */
+  start(name: string, clientId: string): void {
+    this.validateName(name);
+    if (this.session) {
+      throw new Error(`Already recording flow ${this.session.name}`);
+    }
+
+    this.session = { name, clientId, startedAt: Date.now(), steps: [] };
+    // stdout carries the MCP stream while serving
+    console.error(`Recording flow ${name} for client ${clientId}`);
+  }
+
+  /**
+   * Add a step if it ran in the browser being recorded. Typed values that
+   * isSensitive flags are saved as placeholders instead.
+   */
+  record(
+    clientId: string,
+    step: FlowStep,
+    isSensitive: SensitiveCheck = () => false
+  ): void {
+    if (this.session?.clientId === clientId) {
+      this.session.steps.push(
+        hideSensitiveValues(step, this.session.steps.length, isSensitive)
+      );
+    }
+  }
+
+  /**
+   * Stop recording and save the flow. A flow without steps is discarded.
+   */
+  async stop(): Promise<Flow> {
+    const session = this.session;
+    if (!session) {
+      throw new Error("Not recording a flow");
+    }
+    this.session = null;
+
+    if (session.steps.length === 0) {
+      throw new Error(`Flow ${session.name} has no steps; nothing was saved`);
+    }
+
+    const flow: Flow = {
+      version: FLOW_FORMAT_VERSION,
+      name: session.name,
+      createdAt: session.startedAt,
+      steps: session.steps,
+    };
+    await this.save(flow);
+    return flow;
+  }
+
+  getStatus(): FlowRecordingStatus {
+    if (!this.session) {
+      return { recording: false };
+    }
+    return {
+      recording: true,
+      name: this.session.name,
+      clientId: this.session.clientId,
+      stepCount: this.session.steps.length,
+    };
+  }
+
+  /**
+   * Write a flow to disk, replacing any flow with the same name
+   */
+  async save(flow: Flow): Promise<void> {
+    this.validateName(flow.name);
+    if (!existsSync(this.flowsDir)) {
+      await mkdir(this.flowsDir, { recursive: true });
+    }
+
+    // Flows hold the other typed text verbatim, so keep them private
+    const flowData = JSON.stringify(flow, null, 2);
+    await writeFile(this.getFlowPath(flow.name), flowData, {
+      encoding: "utf-8",
+      mode: 0o600,
+    });
+    console.error(`Flow ${flow.name} saved with ${flow.steps.length} steps`);
+  }
+
+  /**
+   * Read and validate a saved flow
+   */
+  async load(name: string): Promise<Flow> {
+    this.validateName(name);
+    const flowPath = this.getFlowPath(name);
+    if (!existsSync(flowPath)) {
+      const available = (await this.list()).map((flow) => flow.name);
+      throw new Error(
+        `Unknown flow: ${name}` +
+          (available.length > 0 ? ` (available: ${available.join(", ")})` : "")
+      );
+    }
+
+    const parsed = FlowSchema.safeParse(
+      JSON.parse(await readFile(flowPath, "utf-8"))
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Flow ${name} is invalid: ${parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", ")}`
+      );
+    }
+    if (parsed.data.version !== FLOW_FORMAT_VERSION) {
+      throw new Error(
+        `Flow ${name} uses format version ${parsed.data.version}; this server reads version ${FLOW_FORMAT_VERSION}`
+      );
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * List saved flows, newest first. Unreadable files are skipped.
+   */
+  async list(): Promise<FlowSummary[]> {
+    if (!existsSync(this.flowsDir)) {
+      return [];
+    }
+
+    const summaries: FlowSummary[] = [];
+    for (const file of await readdir(this.flowsDir)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const flow = FlowSchema.parse(
+          JSON.parse(await readFile(join(this.flowsDir, file), "utf-8"))
+        );
+        summaries.push({
+          name: flow.name,
+          createdAt: flow.createdAt,
+          stepCount: flow.steps.length,
+          params: getFlowParams(flow.steps),
+        });
+      } catch (error) {
+        console.warn(`Skipping unreadable flow file ${file}:`, error);
+      }
+    }
+
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private getFlowPath(name: string): string {
+    return join(this.flowsDir, `${name}.json`);
+  }
+
+  private validateName(name: string): void {
+    // Names become file names, so path separators must never get through
+    const result = FlowNameSchema.safeParse(name);
+    if (!result.success) {
+      throw new Error(result.error.errors[0].message);
+    }
+  }
+}
+
+/**
+ * Names of the params the placeholders in flow steps need values for
+ */
+export function getFlowParams(steps: FlowStep[]): string[] {
+  const names = new Set<string>();
+  const visit = (value: unknown): void => {
+    const name = getParamName(value);
+    if (name) {
+      names.add(name);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  steps.forEach((step) => visit(step.args));
+  return Array.from(names);
+}
+
+/**
+ * Replace the placeholders in step arguments with param values; a key
+ * placeholder is pressed one character at a time
+ */
+export function fillFlowParams(
+  args: Record<string, unknown>,
+  params: Record<string, string>
+): Record<string, unknown> {
+  const fill = (value: unknown): unknown => {
+    const name = getParamName(value);
+    if (name) {
+      return params[name];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => {
+        const itemName = getParamName(item);
+        return itemName ? Array.from(params[itemName]) : [fill(item)];
+      });
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, fill(item)])
+      );
+    }
+    return value;
+  };
+  return fill(args) as Record<string, unknown>;
+}
+
+function getParamName(value: unknown): string | undefined {
+  return typeof value === "string" ? PLACEHOLDER.exec(value)?.[1] : undefined;
+}
+
+/**
+ * Replace sensitive typed values of a step with placeholders named after
+ * the step
+ */
+function hideSensitiveValues(
+  step: FlowStep,
+  index: number,
+  isSensitive: SensitiveCheck
+): FlowStep {
+  const { args } = step;
+  const name = `step${index}`;
+
+  if (
+    step.tool === "type_text" &&
+    typeof args.text === "string" &&
+    isSensitive("type_text", args)
+  ) {
+    return { ...step, args: { ...args, text: `{{${name}}}` } };
+  }
+
+  if (step.tool === "fill_form" && Array.isArray(args.fields)) {
+    const fields = (args.fields as Record<string, unknown>[]).map(
+      (field, fieldIndex) =>
+        typeof field.value === "string" &&
+        isSensitive("type_text", { ...field, text: field.value })
+          ? { ...field, value: `{{${name}_${fieldIndex}}}` }
+          : field
+    );
+    return { ...step, args: { ...args, fields } };
+  }
+
+  if (
+    step.tool === "press_keys" &&
+    Array.isArray(args.keys) &&
+    isSensitive("press_keys", args)
+  ) {
+    // Each run of printable keys becomes one placeholder; Enter, Tab and
+    // chords are kept
+    const keys: string[] = [];
+    let runs = 0;
+    let inRun = false;
+    for (const key of args.keys as string[]) {
+      if (key.length !== 1) {
+        keys.push(key);
+        inRun = false;
+      } else if (!inRun) {
+        keys.push(`{{${name}_${runs++}}}`);
+        inRun = true;
+      }
+    }
+    return { ...step, args: { ...args, keys } };
+  }
+
+  return step;
+}
@@ -9,6 +9,8 @@ import { WebSocketBridge } from "./bridge.js";
 import { MCPToolRegistry } from "./mcp-tools.js";
 import { PolicyEngine } from "./policy-engine.js";
 import { ConfigManager } from "./config.js";
+import { FlowRecorder } from "./flow-recorder.js";
+import { AuditLogger } from "./audit-logger.js";
 import { CustomStdioTransport } from "./custom-stdio-transport.js";
 
 // MCP Server entry point
@@ -21,8 +23,11 @@ const configManager = new ConfigManager(configPath);
 // Initialize policy engine (will be set up in main function)
 let policyEngine: PolicyEngine;
 
-// Initialize WebSocket bridge
-const bridge = new WebSocketBridge();
+// WebSocket bridge is started in main function once the pairing secret is loaded
+let bridge: WebSocketBridge;
+
+// Audit log is opened in main function in the configured directory
+let auditLogger: AuditLogger;
 
 // Initialize MCP server
 const server = new Server({
@@ -53,16 +58,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: "text",
             text: JSON.stringify(result.data || {}, null, 2),
           },
+          ...(result.images || []).map((image) => ({
+            type: "image",
+            data: image.data,
+            mimeType: image.mimeType,
+          })),
         ],
       };
     } else {
+      const content = [
+        {
+          type: "text",
+          text: `Error: ${result.error}`,
+        },
+      ];
+
+      // Surface structured error details so the agent can tell
+      // non-retryable failures (e.g. denied approvals) apart
+      if (result.metadata?.errorCode) {
+        content.push({
+          type: "text",
+          text: JSON.stringify(
+            {
+              code: result.metadata.errorCode,
+              retryable: result.metadata.retryable !== false,
+            },
+            null,
+            2
+          ),
+        });
+      }
+
       return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${result.error}`,
-          },
-        ],
+        content,
         isError: true,
       };
     }
@@ -89,14 +117,56 @@ async function main() {
     const config = await configManager.loadConfiguration();
     console.log("Configuration loaded successfully");
 
+    // Start the WebSocket bridge; the extension must present this secret
+    const bridgeSecret = await configManager.loadBridgeSecret();
+    bridge = new WebSocketBridge({
+      secret: bridgeSecret,
+      allowedExtensionIds: config.allowedExtensionIds,
+      // Keep the first paired extension the only one across restarts
+      onExtensionPinned: (extensionId) => {
+        configManager
+          .updateConfiguration({ allowedExtensionIds: [extensionId] })
+          .catch((error) => {
+            console.error(
+              `Failed to save pinned extension ${extensionId}:`,
+              error instanceof Error ? error.message : String(error)
+            );
+          });
+      },
+    });
+    console.error(
+      `Paste the pairing secret from ${configManager.getBridgeSecretPath()} into the extension side panel`
+    );
+
     // Initialize policy engine
     policyEngine = new PolicyEngine(config);
     console.log("Policy engine initialized");
 
     // Initialize tool registry with policy engine
-    toolRegistry = new MCPToolRegistry(bridge, policyEngine);
+    // Policy decisions and tool results go to disk, not the stdio channel
+    auditLogger = new AuditLogger(
+      configManager.getAuditLogDir(),
+      config.logging
+    );
+    console.error(`Audit log: ${configManager.getAuditLogDir()}`);
+
+    toolRegistry = new MCPToolRegistry(
+      bridge,
+      policyEngine,
+      configManager,
+      new FlowRecorder(configManager.getFlowsDir()),
+      auditLogger
+    );
     console.log("Tool registry initialized with policy enforcement");
 
+    // Apply config.json edits without a restart; the bridge and audit log
+    // directory keep the settings they started with
+    configManager.onChange((updated) => {
+      policyEngine.updateConfiguration(updated);
+      auditLogger.configure(updated.logging);
+    });
+    configManager.watch();
+
     // Check if we're being run in a mode that suggests we should be an MCP server
     const isLikelyMCPMode =
       process.argv.includes("--mcp") ||
@@ -193,22 +263,27 @@ async function main() {
 // Cleanup on process termination
 process.on("SIGINT", async () => {
   console.log("\nShutting down MCP server...");
-  await bridge.close();
+  await bridge?.close();
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
   console.log("\nShutting down MCP server...");
-  await bridge.close();
+  await bridge?.close();
   process.exit(0);
 });
 
 // Periodic cleanup of stale requests and policy data
 setInterval(() => {
-  bridge.cleanupStaleRequests();
+  if (bridge) {
+    bridge.cleanupStaleRequests();
+  }
   if (policyEngine) {
     policyEngine.cleanup();
   }
+  if (auditLogger) {
+    void auditLogger.cleanup();
+  }
 }, 60000); // Every minute
 
 // Start the server
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { zodToJsonSchema } from "./json-schema.js";
+import * as types from "@/shared/types.js";
+import { TypeTextSchema, WaitForSchema } from "@/shared/types.js";
+
+describe("zodToJsonSchema", () => {
+  it("should advertise defaulted fields as optional with their default", () => {
+    const jsonSchema = zodToJsonSchema(TypeTextSchema);
+    const properties = jsonSchema.properties as Record<string, unknown>;
+
+    expect(properties.submit).toEqual({
+      type: "boolean",
+      default: false,
+      description: "Press Enter after typing",
+    });
+    expect(jsonSchema.required).toEqual(["text"]);
+  });
+
+  it("should emit number constraints", () => {
+    const properties = zodToJsonSchema(WaitForSchema).properties as Record<
+      string,
+      unknown
+    >;
+
+    expect(properties.timeout_ms).toMatchObject({
+      type: "integer",
+      exclusiveMinimum: 0,
+      default: 5000,
+    });
+  });
+
+  it("should convert enums, arrays, unions and nested objects", () => {
+    const schema = z.object({
+      mode: z.enum(["a", "b"]),
+      tags: z.array(z.string().max(10)).min(1),
+      value: z.union([z.string(), z.number()]).nullable(),
+      nested: z.object({ flag: z.boolean().optional() }).describe("Nested"),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        mode: { type: "string", enum: ["a", "b"] },
+        tags: {
+          type: "array",
+          items: { type: "string", maxLength: 10 },
+          minItems: 1,
+        },
+        value: {
+          anyOf: [
+            { anyOf: [{ type: "string" }, { type: "number" }] },
+            { type: "null" },
+          ],
+        },
+        nested: {
+          type: "object",
+          properties: { flag: { type: "boolean" } },
+          description: "Nested",
+        },
+      },
+      required: ["mode", "tags", "value", "nested"],
+    });
+  });
+
+  it("should emit string patterns and formats", () => {
+    expect(zodToJsonSchema(z.string().regex(/^e\d+$/))).toEqual({
+      type: "string",
+      pattern: "^e\\d+$",
+    });
+    expect(zodToJsonSchema(z.string().url())).toEqual({
+      type: "string",
+      format: "uri",
+    });
+  });
+
+  describe("shared schemas", () => {
+    const schemas = Object.entries(types as Record<string, unknown>).filter(
+      (entry): entry is [string, z.ZodTypeAny] => entry[1] instanceof z.ZodType
+    );
+
+    it.each(schemas)("should convert %s", (_name, schema) => {
+      expect(zodToJsonSchema(schema)).toMatchSnapshot();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a Zod schema to the JSON Schema advertised in MCP tool definitions
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = convert(schema);
+
+  // Outer descriptions (e.g. on an optional wrapper) win over inner ones
+  if (schema.description) {
+    jsonSchema.description = schema.description;
+  }
+
+  return jsonSchema;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return value === null
+      ? { const: null }
+      : { type: typeof value, const: value };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, unknown>);
+    return { enum: values };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const jsonSchema: JsonSchema = {
+      type: "array",
+      items: zodToJsonSchema(schema.element),
+    };
+    if (schema._def.minLength) {
+      jsonSchema.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      jsonSchema.maxItems = schema._def.maxLength.value;
+    }
+    if (schema._def.exactLength) {
+      jsonSchema.minItems = schema._def.exactLength.value;
+      jsonSchema.maxItems = schema._def.exactLength.value;
+    }
+    return jsonSchema;
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    return {
+      type: "array",
+      items: schema.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item)),
+      minItems: schema.items.length,
+      maxItems: schema.items.length,
+    };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema);
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: zodToJsonSchema(schema.valueSchema),
+    };
+  }
+
+  if (
+    schema instanceof z.ZodUnion ||
+    schema instanceof z.ZodDiscriminatedUnion
+  ) {
+    const options = schema.options as z.ZodTypeAny[];
+    return { anyOf: options.map((option) => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      allOf: [
+        zodToJsonSchema(schema._def.left),
+        zodToJsonSchema(schema._def.right),
+      ],
+    };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: "null" }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault()),
+      default: schema._def.defaultValue(),
+    };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    return zodToJsonSchema(schema.schema);
+  }
+
+  // z.any(), z.unknown() and anything else accept any value
+  return {};
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        jsonSchema.minLength = check.value;
+        break;
+      case "max":
+        jsonSchema.maxLength = check.value;
+        break;
+      case "length":
+        jsonSchema.minLength = check.value;
+        jsonSchema.maxLength = check.value;
+        break;
+      case "regex":
+        jsonSchema.pattern = check.regex.source;
+        break;
+      case "email":
+        jsonSchema.format = "email";
+        break;
+      case "url":
+        jsonSchema.format = "uri";
+        break;
+      case "uuid":
+        jsonSchema.format = "uuid";
+        break;
+      case "datetime":
+        jsonSchema.format = "date-time";
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const jsonSchema: JsonSchema = { type: "number" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        jsonSchema.type = "integer";
+        break;
+      case "min":
+        if (check.inclusive) {
+          jsonSchema.minimum = check.value;
+        } else {
+          jsonSchema.exclusiveMinimum = check.value;
+        }
+        break;
+      case "max":
+        if (check.inclusive) {
+          jsonSchema.maximum = check.value;
+        } else {
+          jsonSchema.exclusiveMaximum = check.value;
+        }
+        break;
+      case "multipleOf":
+        jsonSchema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return jsonSchema;
+}
+
+function convertObject(schema: z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    const field = value as z.ZodTypeAny;
+    properties[key] = zodToJsonSchema(field);
+    // Optional and defaulted fields both accept undefined
+    if (!field.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const jsonSchema: JsonSchema = { type: "object", properties };
+  if (required.length > 0) {
+    jsonSchema.required = required;
+  }
+  if (schema._def.unknownKeys === "strict") {
+    jsonSchema.additionalProperties = false;
+  }
+  return jsonSchema;
+}
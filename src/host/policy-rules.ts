@@ -0,0 +1,236 @@
+import { POLICY_PATTERN } from "@/shared/types.js";
+import type {
+  Configuration,
+  DomainPolicy,
+  PolicyRule,
+} from "@/shared/types.js";
+
+/**
+ * A policy rule with its URL pattern parsed for matching
+ */
+export interface CompiledRule {
+  rule: PolicyRule;
+  // Rules keep their position in `rules`; allowlist entries are named by key
+  source: "rules" | "allowlist";
+  index?: number;
+  scheme?: string;
+  host: string;
+  // "*.example.com" matches example.com and its subdomains
+  subdomains: boolean;
+  port?: string;
+  path?: RegExp;
+  pathLength: number;
+}
+
+export interface RuleResolution {
+  // Every rule matching the URL, in evaluation order
+  matches: CompiledRule[];
+  // A deny rule, or a rule denying the tool, refuses the call outright
+  denyRule?: CompiledRule;
+  // Each setting comes from the first matching rule that sets it, so a
+  // rule may override only some of them; no access when none does
+  policy: DomainPolicy;
+  // The rules the read, write, tool and evalJs settings came from
+  sources: {
+    read?: CompiledRule;
+    write?: CompiledRule;
+    tool?: CompiledRule;
+    evalJs?: CompiledRule;
+  };
+}
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+  "ws:": "80",
+  "wss:": "443",
+};
+
+/**
+ * Parse a rule's URL pattern, [scheme://]host[:port][/path]
+ */
+export function compileRule(
+  rule: PolicyRule,
+  source: CompiledRule["source"],
+  index?: number
+): CompiledRule {
+  const parts = POLICY_PATTERN.exec(rule.match);
+  if (!parts) {
+    throw new Error(`Invalid policy pattern: ${rule.match}`);
+  }
+  const [, scheme, host, port, path] = parts;
+  const subdomains = host.startsWith("*.");
+
+  return {
+    rule,
+    source,
+    index,
+    scheme: scheme?.toLowerCase(),
+    host: (subdomains ? host.slice(2) : host).toLowerCase(),
+    subdomains,
+    port: port === "*" ? undefined : port,
+    path: path ? globToRegExp(path) : undefined,
+    pathLength: path?.length ?? 0,
+  };
+}
+
+/**
+ * Compile the ordered rule list: `rules` as written, then allowlist
+ * entries from most to least specific (paths, then exact hosts, then
+ * wildcards)
+ */
+export function compilePolicyRules(
+  config: Pick<Configuration, "allowlist" | "rules">
+): CompiledRule[] {
+  const rules = (config.rules ?? []).map((rule, index) =>
+    compileRule(rule, "rules", index)
+  );
+  const allowlist = Object.entries(config.allowlist)
+    .map(([match, policy]) => compileRule({ ...policy, match }, "allowlist"))
+    .sort(
+      (a, b) =>
+        b.pathLength - a.pathLength ||
+        Number(a.subdomains) - Number(b.subdomains) ||
+        Number(a.host === "*") - Number(b.host === "*") ||
+        b.host.length - a.host.length
+    );
+  return [...rules, ...allowlist];
+}
+
+/**
+ * Check a URL against a rule's scheme, host, port and path
+ */
+export function ruleMatches(rule: CompiledRule, url: URL): boolean {
+  if (rule.scheme && url.protocol !== `${rule.scheme}:`) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (
+    rule.host !== "*" &&
+    hostname !== rule.host &&
+    !(rule.subdomains && hostname.endsWith(`.${rule.host}`))
+  ) {
+    return false;
+  }
+
+  if (
+    rule.port &&
+    (url.port || DEFAULT_PORTS[url.protocol]) !== String(Number(rule.port))
+  ) {
+    return false;
+  }
+
+  return !rule.path || rule.path.test(normalizePath(url.pathname));
+}
+
+/**
+ * Find the rules that decide a call to `tool` on a URL
+ */
+export function resolveRules(
+  rules: CompiledRule[],
+  url: URL,
+  tool?: string
+): RuleResolution {
+  const matches = rules.filter((rule) => ruleMatches(rule, url));
+  const denyRule = matches.find(
+    (match) => match.rule.deny || (tool && match.rule.tools?.[tool] === "deny")
+  );
+
+  const allowing = matches.filter((match) => !match.rule.deny);
+  const first = <K extends keyof PolicyRule>(key: K) =>
+    allowing.find((match) => match.rule[key] !== undefined);
+  const sources = {
+    read: first("read"),
+    write: first("write"),
+    tool: tool
+      ? allowing.find((match) => match.rule.tools?.[tool] !== undefined)
+      : undefined,
+    evalJs: first("evalJs"),
+  };
+
+  const policy: DomainPolicy = {
+    read: sources.read?.rule.read ?? false,
+    write: sources.write?.rule.write ?? false,
+  };
+  const requiresApproval = first("requiresApproval")?.rule.requiresApproval;
+  if (requiresApproval !== undefined) {
+    policy.requiresApproval = requiresApproval;
+  }
+  const maxStepsPerHour = first("maxStepsPerHour")?.rule.maxStepsPerHour;
+  if (maxStepsPerHour !== undefined) {
+    policy.maxStepsPerHour = maxStepsPerHour;
+  }
+  if (sources.evalJs) {
+    policy.evalJs = sources.evalJs.rule.evalJs;
+  }
+  const toolPermission = tool && sources.tool?.rule.tools?.[tool];
+  if (tool && toolPermission) {
+    policy.tools = { [tool]: toolPermission };
+  }
+
+  return { matches, denyRule, policy, sources };
+}
+
+/**
+ * Name a rule for explanations, e.g. `rules[2] (github.com/myorg/**)`
+ */
+export function describeRule(rule: CompiledRule): string {
+  return rule.source === "rules"
+    ? `rules[${rule.index}] (${rule.rule.match})`
+    : `allowlist entry ${rule.rule.match}`;
+}
+
+/**
+ * Convert a path glob to a regular expression: `*` matches within one
+ * segment, `**` across segments, and a trailing `/**` also matches the
+ * path without it. Matching ignores case, so denying /admin also covers
+ * /Admin on servers that treat them alike.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith("/**", i) && i + 3 === glob.length) {
+      source += "(?:/.*)?";
+      break;
+    }
+    if (glob.startsWith("**", i)) {
+      source += ".*";
+      i++;
+    } else if (glob[i] === "*") {
+      source += "[^/]*";
+    } else {
+      source += glob[i].replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Read a URL path the way servers commonly do: percent-escapes decoded,
+ * backslashes as slashes, repeated slashes collapsed and dot segments
+ * resolved, so /%61dmin, //admin and /x/..%2Fadmin all reach /admin
+ */
+function normalizePath(pathname: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // Malformed UTF-8; decode the escapes one byte at a time
+    decoded = pathname.replace(/%([0-9a-f]{2})/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+  }
+  decoded = decoded.replace(/\\/g, "/");
+
+  const segments: string[] = [];
+  for (const segment of decoded.split("/")) {
+    if (segment === "..") {
+      segments.pop();
+    } else if (segment && segment !== ".") {
+      segments.push(segment);
+    }
+  }
+  const trailingSlash = segments.length > 0 && /\/\.{0,2}$/.test(decoded);
+  return `/${segments.join("/")}${trailingSlash ? "/" : ""}`;
+}
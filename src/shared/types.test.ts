@@ -9,6 +9,13 @@ import {
   ClickSchema,
   TypeTextSchema,
   WaitForSchema,
+  ReadTextSchema,
+  LocatorSchema,
+  FillFormSchema,
+  PressKeysSchema,
+  DragAndDropSchema,
+  ScrollSchema,
+  ExtractSchema,
   EvalJsSchema,
   ScreenshotSchema,
   ConfigurationSchema,
@@ -96,13 +103,15 @@ describe('Shared Types', () => {
         { url: 'https://example.com' },
         { url: 'https://example.com', tabId: 123 },
         { tabId: 123 },
+        { url: 'https://example.com', waitUntil: 'networkidle' },
         {}
       ];
       
       const invalidInputs = [
         { url: 'not-a-url' },
         { tabId: -1 },
-        { tabId: 0 }
+        { tabId: 0 },
+        { url: 'https://example.com', waitUntil: 'idle' }
       ];
       
       validInputs.forEach(input => {
@@ -113,18 +122,35 @@ describe('Shared Types', () => {
         expect(() => NavigateSchema.parse(input)).toThrow();
       });
     });
+
+    it('should accept a load state to wait for after opening a tab', () => {
+      expect(
+        OpenTabSchema.parse({ url: 'https://example.com', waitUntil: 'domcontentloaded' }).waitUntil
+      ).toBe('domcontentloaded');
+      expect(() => OpenTabSchema.parse({ url: 'https://example.com', waitUntil: 'commit' })).toThrow();
+    });
   });
 
   describe('Zod Schemas - DOM Interaction Tools', () => {
     it('should validate ClickSchema correctly', () => {
       const validInputs = [
         { selector: '#button' },
-        { selector: '.class-name', tabId: 123 }
+        { selector: '.class-name', tabId: 123 },
+        { ref: 'e12' },
+        { locator: { role: 'button', name: 'Save' } },
+        { mark: 12 },
+        { selector: '#button', timeout_ms: 10000 }
       ];
       
       const invalidInputs = [
         { selector: '' },
         { selector: '#button', tabId: -1 },
+        { ref: 'button' },
+        { mark: 0 },
+        { selector: '#button', ref: 'e12' },
+        { ref: 'e12', mark: 12 },
+        { selector: '#button', locator: { text: 'Save' } },
+        { selector: '#button', timeout_ms: 0 },
         {}
       ];
       
@@ -140,7 +166,8 @@ describe('Shared Types', () => {
     it('should validate TypeTextSchema correctly', () => {
       const validInputs = [
         { selector: '#input', text: 'hello' },
-        { selector: '#input', text: 'hello', submit: true, tabId: 123 }
+        { selector: '#input', text: 'hello', submit: true, tabId: 123 },
+        { ref: 'e3', text: 'hello' }
       ];
       
       const invalidInputs = [
@@ -162,13 +189,25 @@ describe('Shared Types', () => {
       const validInputs = [
         { selector: '#element' },
         { selector: '#element', timeout_ms: 10000 },
-        { selector: '#element', timeout_ms: 10000, tabId: 123 }
+        { selector: '#element', timeout_ms: 10000, tabId: 123 },
+        { ref: 'e7', timeout_ms: 1000 },
+        { state: 'networkidle' },
+        { urlMatches: '*/checkout/*' },
+        { urlMatches: '/\\/orders\\/\\d+$/i' },
+        { textAppears: 'Order placed', timeout_ms: 10000 },
+        { selectorHidden: '.spinner' },
+        { js: 'window.appReady === true' }
       ];
       
       const invalidInputs = [
         { selector: '' },
         { selector: '#element', timeout_ms: -1 },
-        { selector: '#element', timeout_ms: 0 }
+        { selector: '#element', timeout_ms: 0 },
+        {},
+        { state: 'idle' },
+        { urlMatches: '/(unclosed/' },
+        { selector: '#element', selectorHidden: '.spinner' },
+        { state: 'load', js: 'true' }
       ];
       
       validInputs.forEach(input => {
@@ -180,6 +219,179 @@ describe('Shared Types', () => {
       });
     });
 
+    it('should validate LocatorSchema correctly', () => {
+      const validInputs = [
+        { text: 'Sign in' },
+        { role: 'button' },
+        { role: 'button', name: 'Save', exact: true },
+        { label: 'Email' },
+        { placeholder: 'Search', nth: 0 },
+        { testId: 'submit-order' }
+      ];
+      
+      const invalidInputs = [
+        {},
+        { text: '' },
+        { text: 'Save', role: 'button' },
+        { name: 'Save' },
+        { label: 'Email', name: 'Email' },
+        { testId: 'submit', nth: -1 },
+        { text: 'Save', nth: 1.5 }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => LocatorSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => LocatorSchema.parse(input)).toThrow();
+      });
+      
+      expect(LocatorSchema.parse({ text: 'Save' }).exact).toBe(false);
+    });
+
+    it('should accept a selector or a locator for ReadTextSchema', () => {
+      expect(() => ReadTextSchema.parse({})).not.toThrow();
+      expect(() => ReadTextSchema.parse({ selector: 'main' })).not.toThrow();
+      expect(() => ReadTextSchema.parse({ locator: { label: 'Total' } })).not.toThrow();
+      expect(() =>
+        ReadTextSchema.parse({ selector: 'main', locator: { label: 'Total' } })
+      ).toThrow();
+    });
+
+    it('should default ReadTextSchema to plain text from the start', () => {
+      const parsed = ReadTextSchema.parse({});
+      expect(parsed.format).toBe('text');
+      expect(parsed.reader).toBe(false);
+      expect(parsed.cursor).toBe(0);
+      expect(parsed.maxChars).toBe(50000);
+
+      expect(() =>
+        ReadTextSchema.parse({ format: 'markdown', reader: true, cursor: 50000 })
+      ).not.toThrow();
+      expect(() => ReadTextSchema.parse({ format: 'pdf' })).toThrow();
+      expect(() => ReadTextSchema.parse({ cursor: -1 })).toThrow();
+    });
+
+    it('should validate FillFormSchema correctly', () => {
+      const validInputs = [
+        { fields: [{ selector: '#name', value: 'Ada' }] },
+        {
+          fields: [
+            { locator: { label: 'Country' }, value: 'Portugal' },
+            { ref: 'e4', value: true },
+            { selector: '#tags', value: ['news', 'offers'] }
+          ],
+          timeout_ms: 2000
+        }
+      ];
+      
+      const invalidInputs = [
+        { fields: [] },
+        { fields: [{ value: 'Ada' }] },
+        { fields: [{ selector: '#age', value: 42 }] },
+        { fields: Array(51).fill({ selector: '#name', value: 'Ada' }) }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => FillFormSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => FillFormSchema.parse(input)).toThrow();
+      });
+    });
+
+    it('should validate PressKeysSchema correctly', () => {
+      const validInputs = [
+        { keys: ['Enter'] },
+        { keys: ['Control+A', 'Backspace'], selector: '#search' }
+      ];
+      
+      const invalidInputs = [
+        { keys: [] },
+        { keys: ['Enter'], selector: '#search', ref: 'e2' }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => PressKeysSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => PressKeysSchema.parse(input)).toThrow();
+      });
+    });
+
+    it('should validate DragAndDropSchema correctly', () => {
+      const validInputs = [
+        { source: { selector: '#card' }, target: { locator: { text: 'Done' } } },
+        { source: { ref: 'e3' }, target: { x: 400, y: 120 }, steps: 20 }
+      ];
+      
+      const invalidInputs = [
+        { source: { selector: '#card' } },
+        { source: { selector: '#card' }, target: { x: 400 } },
+        { source: { selector: '#card', x: 1, y: 2 }, target: { x: 400, y: 120 } }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => DragAndDropSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => DragAndDropSchema.parse(input)).toThrow();
+      });
+    });
+
+    it('should validate ScrollSchema correctly', () => {
+      const validInputs = [
+        { deltaY: 600 },
+        { selector: '#feed', to: 'bottom' }
+      ];
+      
+      const invalidInputs = [
+        {},
+        { to: 'middle' },
+        { deltaY: 600, to: 'top' }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => ScrollSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => ScrollSchema.parse(input)).toThrow();
+      });
+    });
+
+    it('should validate ExtractSchema correctly', () => {
+      const validInputs = [
+        { selector: 'table.results' },
+        {
+          selector: '#products',
+          itemSelector: '.card',
+          fields: { name: 'h3', price: '.price', link: 'a@href' },
+          offset: 100,
+          limit: 50
+        }
+      ];
+      
+      const invalidInputs = [
+        { fields: {} },
+        { itemSelector: '.card' },
+        { limit: 5000 },
+        { selector: 'main', locator: { role: 'list' } }
+      ];
+      
+      validInputs.forEach(input => {
+        expect(() => ExtractSchema.parse(input)).not.toThrow();
+      });
+      
+      invalidInputs.forEach(input => {
+        expect(() => ExtractSchema.parse(input)).toThrow();
+      });
+    });
+
     it('should validate EvalJsSchema correctly', () => {
       const validInputs = [
         { code: 'document.title' },
@@ -208,12 +420,20 @@ describe('Shared Types', () => {
         {},
         { tabId: 123 },
         { filename: 'screenshot.png' },
-        { tabId: 123, filename: 'screenshot.png' }
+        { tabId: 123, filename: 'screenshot.png' },
+        { fullPage: true, format: 'jpeg', quality: 70, return: 'both' },
+        { locator: { role: 'dialog' } },
+        { selector: '#cart', highlight: true, fullPage: true },
+        { clip: { x: 0, y: 0, width: 400, height: 300 }, format: 'webp' }
       ];
       
       const invalidInputs = [
         { tabId: -1 },
-        { tabId: 0 }
+        { tabId: 0 },
+        { selector: '#cart', fullPage: true },
+        { fullPage: true, clip: { x: 0, y: 0, width: 400, height: 300 } },
+        { quality: 70 },
+        { return: 'clipboard' }
       ];
       
       validInputs.forEach(input => {
@@ -231,13 +451,15 @@ describe('Shared Types', () => {
       const validPolicies = [
         { read: true, write: false },
         { read: true, write: true, requiresApproval: true },
-        { read: false, write: false, maxStepsPerHour: 100 }
+        { read: false, write: false, maxStepsPerHour: 100 },
+        { read: true, write: true, evalJs: 'main' }
       ];
       
       const invalidPolicies = [
         { read: true }, // missing write
         { write: false }, // missing read
-        { read: true, write: false, maxStepsPerHour: -1 }
+        { read: true, write: false, maxStepsPerHour: -1 },
+        { read: true, write: true, evalJs: 'always' }
       ];
       
       validPolicies.forEach(policy => {
@@ -279,6 +501,42 @@ describe('Shared Types', () => {
         expect(() => ConfigurationSchema.parse(config)).toThrow();
       });
     });
+
+    it('should validate policy rule patterns', () => {
+      const config = {
+        allowlist: {
+          '*.example.com': { read: true, write: false },
+          'https://github.com:443/myorg/**': { read: true, write: true }
+        },
+        rules: [
+          { match: 'example.com/admin/**', deny: true },
+          { match: '*', tools: { eval_js: 'deny' as const } }
+        ],
+        sensitivePatterns: [],
+        stepBudget: 100,
+        toolTimeoutMs: 5000,
+        screenshotDir: '/screenshots',
+        downloadDir: '/downloads',
+        logging: { level: 'info' as const, maxLogSize: 1000000, retentionDays: 7 }
+      };
+
+      expect(() => ConfigurationSchema.parse(config)).not.toThrow();
+      expect(() =>
+        ConfigurationSchema.parse({
+          ...config,
+          allowlist: { 'exa mple.com': { read: true, write: false } }
+        })
+      ).toThrow();
+      expect(() =>
+        ConfigurationSchema.parse({ ...config, rules: [{ match: 'a.*.com' }] })
+      ).toThrow();
+      expect(() =>
+        ConfigurationSchema.parse({
+          ...config,
+          rules: [{ match: 'example.com', tools: { click: 'maybe' } }]
+        })
+      ).toThrow();
+    });
   });
 
   describe('Constants', () => {
@@ -20,6 +20,7 @@ export interface BridgeResponse {
 export interface ToolResponse {
   success: boolean;
   data?: Record<string, unknown>;
+  images?: ToolImage[]; // Returned to the agent as image content
   error?: string;
   metadata?: {
     tool?: string;
@@ -30,6 +31,11 @@ export interface ToolResponse {
   };
 }
 
+export interface ToolImage {
+  data: string; // base64
+  mimeType: string;
+}
+
 export interface ErrorResponse {
   success: false;
   error: {
@@ -69,11 +75,35 @@ export interface CDPSession {
 // Policy and Security Types
 // ============================================================================
 
+// Per-tool override of a policy's read/write permissions
+export type ToolPermission = "allow" | "deny" | "approval";
+
+// Where eval_js may run: not at all, only in an isolated world, in the
+// page's main world too, or anywhere after user approval
+export type EvalJsMode = "off" | "isolated" | "main" | "approval";
+
 export interface DomainPolicy {
   read: boolean;
   write: boolean;
   requiresApproval?: boolean;
   maxStepsPerHour?: number;
+  // e.g. { "read_text": "allow", "eval_js": "deny" }
+  tools?: Record<string, ToolPermission>;
+  // "isolated" when unset
+  evalJs?: EvalJsMode;
+}
+
+/**
+ * Ordered policy rule. `match` is a URL pattern,
+ * [scheme://]host[:port][/path], where the host may be `*` or start with
+ * `*.` (the domain and its subdomains), the port may be `*`, and in the
+ * path `*` matches within one segment and `**` across segments.
+ */
+export interface PolicyRule extends Partial<DomainPolicy> {
+  match: string;
+  // Refuse everything the rule matches, even when another rule allows it
+  deny?: boolean;
+  description?: string;
 }
 
 export interface PolicyDecision {
@@ -95,27 +125,37 @@ export interface StoredPolicy {
 // ============================================================================
 
 export interface Configuration {
+  // Keys are URL patterns like PolicyRule.match
   allowlist: Record<string, DomainPolicy>;
+  // Checked in order before the allowlist
+  rules?: PolicyRule[];
   sensitivePatterns: string[];
   stepBudget: number;
   toolTimeoutMs: number;
   screenshotDir: string;
   downloadDir: string;
   logging: {
-    level: "debug" | "info" | "warn" | "error";
+    level: LogLevel;
     maxLogSize: number;
     retentionDays: number;
+    // Audit log directory; "logs" next to config.json when unset
+    dir?: string;
   };
+  allowedExtensionIds?: string[];
+  // Longest edge of returned screenshots; larger captures are downscaled
+  screenshotMaxDimension?: number;
 }
 
 // ============================================================================
 // UI State Types
 // ============================================================================
 
+export type OperationMode = "auto" | "ask" | "readonly";
+
 export interface UIState {
   connectionStatus: "connected" | "disconnected" | "error";
   currentDomain: string;
-  mode: "auto" | "ask" | "readonly";
+  mode: OperationMode;
   pendingApproval?: PendingAction;
   recentActions: ActionLog[];
 }
@@ -126,8 +166,15 @@ export interface PendingAction {
   args: Record<string, unknown>;
   domain: string;
   riskLevel: "low" | "medium" | "high";
+  reason?: string;
 }
 
+export type ApprovalDecision =
+  | "approve"
+  | "approve_once"
+  | "always_allow"
+  | "deny";
+
 export interface ActionLog {
   id: string;
   timestamp: number;
@@ -152,17 +199,159 @@ export interface TabInfo {
   windowId: number;
 }
 
+// ============================================================================
+// Network Recording Types
+// ============================================================================
+
+export interface NetworkEntry {
+  requestId: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  startedAt: number;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  durationMs?: number;
+  encodedDataLength?: number;
+  fromCache?: boolean;
+  failed?: boolean;
+  errorText?: string;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  postData?: string;
+  body?: string;
+  base64Encoded?: boolean;
+  bodyTruncated?: boolean;
+}
+
+// ============================================================================
+// Flow Recording Types
+// ============================================================================
+
+export interface FlowStep {
+  tool: string;
+  args: Record<string, unknown>; // Validated args without client routing
+  url?: string; // Page URL after the step ran
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface Flow {
+  version: number; // FLOW_FORMAT_VERSION when written
+  name: string;
+  createdAt: number;
+  steps: FlowStep[];
+}
+
+// ============================================================================
+// Audit Log Types
+// ============================================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Policy decisions, approval steps and tool results
+export type AuditOutcome =
+  | "allowed"
+  | "denied"
+  | "approval_requested"
+  | "approval_granted"
+  | "approval_denied"
+  | "succeeded"
+  | "failed";
+
+export interface AuditEntry {
+  timestamp: number;
+  level: LogLevel;
+  outcome: AuditOutcome;
+  tool: string;
+  requestId?: string;
+  clientId?: string;
+  domain?: string;
+  reason?: string;
+  args?: Record<string, unknown>; // Redacted
+  result?: Record<string, unknown>; // Redacted, only kept at debug level
+  error?: string;
+  durationMs?: number;
+}
+
+// ============================================================================
+// Console Capture Types
+// ============================================================================
+
+export type ConsoleLevel = "debug" | "info" | "warning" | "error";
+
+export interface ConsoleEntry {
+  seq: number; // Increases per tab; used as the "since" cursor
+  level: ConsoleLevel;
+  source: "console" | "exception" | "log";
+  text: string;
+  timestamp: number;
+  url?: string;
+  lineNumber?: number;
+  stack?: string;
+}
+
+// ============================================================================
+// Form Filling Types
+// ============================================================================
+
+export type FormControlKind =
+  | "text"
+  | "select"
+  | "checkbox"
+  | "radio"
+  | "file"
+  | "contenteditable";
+
+export interface FormFieldResult {
+  field: string; // Selector, ref or locator description
+  success: boolean;
+  control?: FormControlKind;
+  applied?: string; // Chosen option, checked state or file names; never text
+  error?: string;
+}
+
+export interface ExtractResult {
+  mode: "fields" | "table" | "list";
+  records: Record<string, string | null>[];
+  total: number; // Records found, before offset and limit
+  offset: number;
+  nextOffset?: number; // Offset of the first record not returned
+}
+
+export interface ScreenshotMark {
+  mark: number; // Number drawn on the screenshot
+  ref: string; // page_snapshot style reference of the element
+  role: string;
+  name: string;
+}
+
 // ============================================================================
 // Zod Schemas for MCP Tool Validation
 // ============================================================================
 
 // Navigation Tool Schemas
+export const LoadStateSchema = z.enum([
+  "load",
+  "domcontentloaded",
+  "networkidle",
+]);
+const waitUntilDescription =
+  "Wait until the page reaches this state, up to the configured toolTimeoutMs: domcontentloaded (HTML parsed), load (subresources loaded) or networkidle (loaded and no requests in flight for 500ms)";
+
 export const OpenTabSchema = z.object({
   url: z.string().url("Invalid URL format"),
+  waitUntil: LoadStateSchema.optional().describe(
+    `${waitUntilDescription}; returns as soon as the tab is created when omitted`
+  ),
 });
 
 export const NavigateSchema = z.object({
   url: z.string().url("Invalid URL format").optional(),
+  waitUntil: LoadStateSchema.optional().describe(
+    `${waitUntilDescription}; load when omitted`
+  ),
   tabId: z
     .number()
     .int()
@@ -195,6 +384,9 @@ export const GoForwardSchema = z.object({
 });
 
 export const ReloadSchema = z.object({
+  waitUntil: LoadStateSchema.optional().describe(
+    `${waitUntilDescription}; load when omitted`
+  ),
   tabId: z
     .number()
     .int()
@@ -210,8 +402,451 @@ export const TabActivateSchema = z.object({
 });
 
 // DOM Interaction Schemas
-export const ClickSchema = z.object({
-  selector: z.string().min(1, "Selector cannot be empty"),
+
+// Element reference handed out by page_snapshot
+export const ElementRefSchema = z
+  .string()
+  .regex(/^e\d+$/, "Reference must be an id from page_snapshot, e.g. e12")
+  .describe("Element reference from page_snapshot, e.g. e12");
+
+// Selectors pierce shadow roots with ">>>" and enter iframes with "frame=... >>"
+const selectorDescription =
+  'CSS selector of the target element. Use ">>>" to step into a shadow root and "frame=<iframe selector> >> <selector>" for elements inside iframes';
+
+// Locator strategies, exactly one of which a locator uses
+export const LOCATOR_STRATEGIES = [
+  "text",
+  "role",
+  "label",
+  "placeholder",
+  "testId",
+] as const;
+
+// Element found by what the user sees rather than by page structure
+export const LocatorSchema = z
+  .object({
+    text: z
+      .string()
+      .min(1, "Text cannot be empty")
+      .optional()
+      .describe("Visible text of the element"),
+    role: z
+      .string()
+      .min(1, "Role cannot be empty")
+      .optional()
+      .describe("ARIA role, explicit or implied by the tag, e.g. button"),
+    name: z
+      .string()
+      .optional()
+      .describe("Accessible name to match together with role"),
+    label: z
+      .string()
+      .min(1, "Label cannot be empty")
+      .optional()
+      .describe("Label text of a form control"),
+    placeholder: z
+      .string()
+      .min(1, "Placeholder cannot be empty")
+      .optional()
+      .describe("Placeholder text of an input"),
+    testId: z
+      .string()
+      .min(1, "Test id cannot be empty")
+      .optional()
+      .describe("Value of the data-testid attribute (always matched exactly)"),
+    exact: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Match the whole text case-sensitively instead of a case-insensitive substring"
+      ),
+    nth: z
+      .number()
+      .int()
+      .nonnegative("nth must be zero or more")
+      .optional()
+      .describe("Pick this match (0-based) when several elements match"),
+  })
+  .refine(
+    (locator) =>
+      LOCATOR_STRATEGIES.filter((key) => locator[key] !== undefined).length ===
+      1,
+    { message: `Locator needs exactly one of ${LOCATOR_STRATEGIES.join(", ")}` }
+  )
+  .refine((locator) => locator.name === undefined || locator.role, {
+    message: "name can only be used together with role",
+    path: ["name"],
+  })
+  .describe(
+    "Find the element by text, role and name, label, placeholder or test id; the response reports the CSS selector that matched"
+  );
+
+// Element tools target a CSS selector, a page_snapshot reference or a locator
+// (click and type_text also take a screenshot_annotated mark)
+const hasSingleElementTarget = (input: {
+  selector?: string;
+  ref?: string;
+  locator?: unknown;
+  mark?: number;
+}) =>
+  [input.selector, input.ref, input.locator, input.mark].filter(
+    (target) => target !== undefined
+  ).length === 1;
+const elementTargetMessage = {
+  message: "Provide exactly one of selector, ref or locator",
+  path: ["selector"],
+};
+const markTargetMessage = {
+  message: "Provide exactly one of selector, ref, locator or mark",
+  path: ["selector"],
+};
+
+const ElementMarkSchema = z
+  .number()
+  .int()
+  .positive()
+  .describe(
+    "Number of a box in the latest screenshot_annotated of the tab, instead of a selector"
+  );
+
+// Read tools default to the whole page, so the target is optional there
+const hasAtMostOneTarget = (input: { selector?: string; locator?: unknown }) =>
+  input.selector === undefined || input.locator === undefined;
+const readTargetMessage = {
+  message: "Provide either selector or locator, not both",
+  path: ["selector"],
+};
+
+export const ClickSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    mark: ElementMarkSchema.optional(),
+    includeErrors: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Report console errors thrown while the action ran"),
+    timeout_ms: z
+      .number()
+      .int()
+      .positive("Timeout must be a positive integer")
+      .max(60000, "Timeout must be at most 60000 milliseconds")
+      .optional()
+      .describe(
+        "How long to wait for the element to become visible, enabled, stable and uncovered in milliseconds; defaults to the configured toolTimeoutMs"
+      ),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(hasSingleElementTarget, markTargetMessage);
+
+export const TypeTextSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    mark: ElementMarkSchema.optional(),
+    text: z.string(),
+    submit: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Press Enter after typing"),
+    includeErrors: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Report console errors thrown while the action ran"),
+    timeout_ms: z
+      .number()
+      .int()
+      .positive("Timeout must be a positive integer")
+      .max(60000, "Timeout must be at most 60000 milliseconds")
+      .optional()
+      .describe(
+        "How long to wait for the element to become visible, enabled, stable and uncovered in milliseconds; defaults to the configured toolTimeoutMs"
+      ),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(hasSingleElementTarget, markTargetMessage);
+
+export const ReadTextSchema = z
+  .object({
+    selector: z.string().optional().describe(selectorDescription),
+    locator: LocatorSchema.optional(),
+    format: z
+      .enum(["text", "markdown", "html"])
+      .optional()
+      .default("text")
+      .describe(
+        "text collapses whitespace; markdown keeps headings, links, lists and tables; html returns cleaned markup"
+      ),
+    reader: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Keep only the main content, dropping navigation, headers, footers, sidebars and ads"
+      ),
+    includeLinks: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Keep link and image URLs as absolute [text](url) in markdown"),
+    maxChars: z
+      .number()
+      .int()
+      .positive("maxChars must be a positive integer")
+      .max(200000)
+      .optional()
+      .default(50000)
+      .describe("Return at most this many characters"),
+    cursor: z
+      .number()
+      .int()
+      .nonnegative("Cursor cannot be negative")
+      .optional()
+      .default(0)
+      .describe(
+        "Offset to continue reading from; pass the returned nextCursor"
+      ),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(hasAtMostOneTarget, readTargetMessage);
+
+export const ReadDomSchema = z
+  .object({
+    selector: z.string().optional().describe(selectorDescription),
+    locator: LocatorSchema.optional(),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(hasAtMostOneTarget, readTargetMessage);
+
+// URL patterns written as /regex/flags must compile
+const isValidUrlPattern = (pattern: string) => {
+  const literal = /^\/(.+)\/([dgimsuy]*)$/.exec(pattern);
+  if (!literal) {
+    return true;
+  }
+  try {
+    new RegExp(literal[1], literal[2]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const WaitForSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    state: LoadStateSchema.optional().describe(
+      "Wait for the page to reach a load state; networkidle means no requests in flight for 500ms"
+    ),
+    urlMatches: z
+      .string()
+      .min(1, "URL pattern cannot be empty")
+      .refine(isValidUrlPattern, "Invalid regular expression")
+      .optional()
+      .describe(
+        "Wait until the tab URL contains this text, matches this glob (* wildcards, whole URL) or this /regex/"
+      ),
+    textAppears: z
+      .string()
+      .min(1, "Text cannot be empty")
+      .optional()
+      .describe("Wait until the visible page text contains this string"),
+    selectorHidden: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(
+        "Wait until the element matching this selector is removed or hidden"
+      ),
+    js: z
+      .string()
+      .min(1, "Predicate cannot be empty")
+      .max(10000, "Predicate too long (max 10000 characters)")
+      .optional()
+      .describe(
+        "Wait until this JavaScript expression is truthy in the page's isolated world; promises are awaited"
+      ),
+    timeout_ms: z
+      .number()
+      .int()
+      .positive("Timeout must be a positive integer")
+      .optional()
+      .default(5000)
+      .describe("How long to wait in milliseconds"),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      [
+        input.selector,
+        input.ref,
+        input.locator,
+        input.state,
+        input.urlMatches,
+        input.textAppears,
+        input.selectorHidden,
+        input.js,
+      ].filter((condition) => condition !== undefined).length === 1,
+    {
+      message:
+        "Provide exactly one of selector, ref, locator, state, urlMatches, textAppears, selectorHidden or js",
+      path: ["selector"],
+    }
+  );
+
+// Fields shared by the pointer tools that act on one element
+const pointerTargetShape = {
+  selector: z
+    .string()
+    .min(1, "Selector cannot be empty")
+    .optional()
+    .describe(selectorDescription),
+  ref: ElementRefSchema.optional(),
+  locator: LocatorSchema.optional(),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive("Timeout must be a positive integer")
+    .optional()
+    .default(5000)
+    .describe(
+      "How long to wait for the element to become visible, enabled, stable and uncovered in milliseconds"
+    ),
+  tabId: z
+    .number()
+    .int()
+    .positive("Tab ID must be a positive integer")
+    .optional(),
+};
+
+export const PressKeysSchema = z
+  .object({
+    keys: z
+      .array(z.string().min(1, "Key cannot be empty"))
+      .min(1, "At least one key is required")
+      .max(100, "At most 100 keys per call")
+      .describe(
+        'Keys or chords pressed in order, e.g. ["Control+Shift+K"], ["Tab", "Tab", "Enter"] or ["h", "i"]. Modifiers: Shift, Control, Alt, Meta'
+      ),
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      [input.selector, input.ref, input.locator].filter(
+        (target) => target !== undefined
+      ).length <= 1,
+    {
+      message: "Provide at most one of selector, ref or locator to focus",
+      path: ["selector"],
+    }
+  );
+
+export const HoverSchema = z
+  .object(pointerTargetShape)
+  .refine(hasSingleElementTarget, elementTargetMessage);
+
+export const DoubleClickSchema = z
+  .object(pointerTargetShape)
+  .refine(hasSingleElementTarget, elementTargetMessage);
+
+export const RightClickSchema = z
+  .object(pointerTargetShape)
+  .refine(hasSingleElementTarget, elementTargetMessage);
+
+// Either end of a drag: an element or a viewport point
+export const DragEndpointSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    x: z.number().optional().describe("Viewport x coordinate in CSS pixels"),
+    y: z.number().optional().describe("Viewport y coordinate in CSS pixels"),
+  })
+  .refine(
+    (input) =>
+      (input.x === undefined) === (input.y === undefined) &&
+      [input.selector, input.ref, input.locator, input.x].filter(
+        (target) => target !== undefined
+      ).length === 1,
+    {
+      message: "Provide exactly one of selector, ref, locator or x and y",
+      path: ["selector"],
+    }
+  );
+
+export const DragAndDropSchema = z.object({
+  source: DragEndpointSchema,
+  target: DragEndpointSchema,
+  steps: z
+    .number()
+    .int()
+    .min(1, "At least one step is required")
+    .max(100, "At most 100 steps")
+    .optional()
+    .default(10)
+    .describe("Intermediate mouse moves between source and target"),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive("Timeout must be a positive integer")
+    .optional()
+    .default(5000)
+    .describe("How long to wait for each element to become actionable"),
   tabId: z
     .number()
     .int()
@@ -219,10 +854,81 @@ export const ClickSchema = z.object({
     .optional(),
 });
 
-export const TypeTextSchema = z.object({
-  selector: z.string().min(1, "Selector cannot be empty"),
-  text: z.string(),
-  submit: z.boolean().optional().default(false),
+export const ScrollSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(
+        "Scrollable element to scroll; the page is scrolled when no element is given"
+      ),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    deltaX: z
+      .number()
+      .optional()
+      .describe("Pixels to scroll right (negative scrolls left)"),
+    deltaY: z
+      .number()
+      .optional()
+      .describe("Pixels to scroll down (negative scrolls up)"),
+    to: z
+      .enum(["top", "bottom", "left", "right"])
+      .optional()
+      .describe("Scroll all the way to an edge instead of by pixels"),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      [input.selector, input.ref, input.locator].filter(
+        (target) => target !== undefined
+      ).length <= 1,
+    {
+      message: "Provide at most one of selector, ref or locator",
+      path: ["selector"],
+    }
+  )
+  .refine(
+    (input) =>
+      (input.to !== undefined) !==
+      (input.deltaX !== undefined || input.deltaY !== undefined),
+    { message: "Provide either to or deltaX/deltaY", path: ["to"] }
+  );
+
+export const FormFieldSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(selectorDescription),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    value: z
+      .union([z.string(), z.boolean(), z.array(z.string())])
+      .describe(
+        "Text for inputs and editors, an option value or label for selects (an array for multi-selects), true or false for checkboxes and radios, YYYY-MM-DD for date inputs, or file names inside downloadDir for file inputs"
+      ),
+  })
+  .refine(hasSingleElementTarget, elementTargetMessage);
+
+export const FillFormSchema = z.object({
+  fields: z
+    .array(FormFieldSchema)
+    .min(1, "At least one field is required")
+    .max(50, "At most 50 fields per call"),
+  timeout_ms: z
+    .number()
+    .int()
+    .positive("Timeout must be a positive integer")
+    .optional()
+    .default(5000)
+    .describe("How long to wait for each field to appear in milliseconds"),
   tabId: z
     .number()
     .int()
@@ -230,8 +936,74 @@ export const TypeTextSchema = z.object({
     .optional(),
 });
 
-export const ReadTextSchema = z.object({
-  selector: z.string().optional(),
+export const ExtractSchema = z
+  .object({
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "Container to extract from (table, list or the parent of repeated cards); defaults to the whole page"
+      ),
+    locator: LocatorSchema.optional(),
+    fields: z
+      .record(z.string().min(1, "Field selector cannot be empty"))
+      .refine((fields) => Object.keys(fields).length > 0, {
+        message: "Provide at least one field",
+      })
+      .refine((fields) => Object.keys(fields).length <= 50, {
+        message: "At most 50 fields per call",
+      })
+      .optional()
+      .describe(
+        'Record key to CSS selector inside each item, e.g. { "name": "h3", "price": ".price", "link": "a@href" }; "sel@attr" reads an attribute and "@attr" one of the item itself. Without fields the first table (or list) in the container is extracted'
+      ),
+    itemSelector: z
+      .string()
+      .min(1, "Item selector cannot be empty")
+      .optional()
+      .describe(
+        "CSS selector of the repeated items inside the container; defaults to its child elements. Only used with fields"
+      ),
+    offset: z
+      .number()
+      .int()
+      .nonnegative("Offset cannot be negative")
+      .optional()
+      .default(0)
+      .describe("Records to skip; pass the returned nextOffset to page"),
+    limit: z
+      .number()
+      .int()
+      .positive("Limit must be a positive integer")
+      .max(1000, "At most 1000 records per call")
+      .optional()
+      .default(100),
+    maxChars: z
+      .number()
+      .int()
+      .positive("maxChars must be a positive integer")
+      .max(200000)
+      .optional()
+      .default(50000)
+      .describe("Stop adding records once their JSON exceeds this size"),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+  })
+  .refine(hasAtMostOneTarget, readTargetMessage)
+  .refine((input) => !input.itemSelector || input.fields, {
+    message: "itemSelector requires fields",
+    path: ["itemSelector"],
+  });
+
+export const PageSnapshotSchema = z.object({
+  interactiveOnly: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Only list links, buttons, form fields and other controls"),
   tabId: z
     .number()
     .int()
@@ -239,8 +1011,40 @@ export const ReadTextSchema = z.object({
     .optional(),
 });
 
-export const ReadDomSchema = z.object({
-  selector: z.string().optional(),
+export const EvalJsSchema = z.object({
+  code: z
+    .string()
+    .min(1, "JavaScript code cannot be empty")
+    .describe(
+      "Function body to run; use return for the result and args[i] for the arguments"
+    ),
+  args: z
+    .array(z.unknown())
+    .optional()
+    .default([])
+    .describe(
+      "JSON values passed to the code as args, instead of splicing them into it"
+    ),
+  world: z
+    .enum(["isolated", "main"])
+    .optional()
+    .default("isolated")
+    .describe(
+      "Run in an isolated world that shares the DOM but not the page's scripts, or in the page's main world where the domain policy allows it"
+    ),
+  awaitPromise: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Run the code as an async function and wait for its result"),
+  maxResultChars: z
+    .number()
+    .int()
+    .positive("maxResultChars must be a positive integer")
+    .max(200000)
+    .optional()
+    .default(20000)
+    .describe("Truncate results whose JSON is longer than this"),
   tabId: z
     .number()
     .int()
@@ -248,14 +1052,51 @@ export const ReadDomSchema = z.object({
     .optional(),
 });
 
-export const WaitForSchema = z.object({
-  selector: z.string().min(1, "Selector cannot be empty"),
-  timeout_ms: z
+// Network Schemas
+export const NetworkResourceTypeSchema = z.enum([
+  "Document",
+  "Stylesheet",
+  "Image",
+  "Media",
+  "Font",
+  "Script",
+  "TextTrack",
+  "XHR",
+  "Fetch",
+  "Prefetch",
+  "EventSource",
+  "WebSocket",
+  "Manifest",
+  "SignedExchange",
+  "Ping",
+  "CSPViolationReport",
+  "Preflight",
+  "Other",
+]);
+
+export const NetworkListSchema = z.object({
+  urlPattern: z
+    .string()
+    .min(1, "URL pattern cannot be empty")
+    .optional()
+    .describe("Substring of the URL, or a glob with * wildcards"),
+  method: z.string().min(1, "Method cannot be empty").optional(),
+  status: z
+    .union([
+      z.number().int().min(100).max(599),
+      z.string().regex(/^[1-5]xx$/, "Status class must look like 4xx"),
+    ])
+    .optional()
+    .describe("Exact status code or a class such as 4xx"),
+  resourceType: NetworkResourceTypeSchema.optional(),
+  limit: z
     .number()
     .int()
-    .positive("Timeout must be a positive integer")
+    .positive("Limit must be a positive integer")
+    .max(500)
     .optional()
-    .default(5000),
+    .default(50)
+    .describe("Maximum number of most recent requests to return"),
   tabId: z
     .number()
     .int()
@@ -263,8 +1104,13 @@ export const WaitForSchema = z.object({
     .optional(),
 });
 
-export const EvalJsSchema = z.object({
-  code: z.string().min(1, "JavaScript code cannot be empty"),
+export const NetworkGetSchema = z.object({
+  requestId: z.string().min(1, "Request ID cannot be empty"),
+  includeBody: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Also fetch the response body"),
   tabId: z
     .number()
     .int()
@@ -272,16 +1118,277 @@ export const EvalJsSchema = z.object({
     .optional(),
 });
 
-// Utility Schemas
-export const ScreenshotSchema = z.object({
+export const NetworkClearSchema = z.object({
+  stopRecording: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Also stop recording requests for the tab"),
   tabId: z
     .number()
     .int()
     .positive("Tab ID must be a positive integer")
     .optional(),
-  filename: z.string().optional(),
 });
 
+// Console Schemas
+export const ConsoleLevelSchema = z.enum(["debug", "info", "warning", "error"]);
+
+export const ConsoleLogsSchema = z.object({
+  level: ConsoleLevelSchema.optional()
+    .default("debug")
+    .describe("Minimum level to return"),
+  since: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Cursor from a previous call; only newer entries are returned"),
+  limit: z
+    .number()
+    .int()
+    .positive("Limit must be a positive integer")
+    .max(1000)
+    .optional()
+    .default(100),
+  tabId: z
+    .number()
+    .int()
+    .positive("Tab ID must be a positive integer")
+    .optional(),
+});
+
+// Flow Schemas
+export const FlowNameSchema = z
+  .string()
+  .min(1, "Flow name cannot be empty")
+  .max(64, "Flow name must be at most 64 characters")
+  .regex(
+    /^[\w.-]+$/,
+    "Flow name may only contain letters, digits, '.', '-' and '_'"
+  );
+
+export const FlowStepSchema = z.object({
+  tool: z
+    .string()
+    .min(1, "Tool name cannot be empty")
+    .refine((tool) => tool !== "run_flow", "Flows cannot run other flows"),
+  args: z.record(z.unknown()),
+  url: z.string().optional(),
+  startedAt: z.number(),
+  durationMs: z.number().min(0),
+});
+
+export const FlowSchema = z.object({
+  version: z.number().int().positive(),
+  name: FlowNameSchema,
+  createdAt: z.number(),
+  steps: z.array(FlowStepSchema),
+});
+
+export const RunFlowSchema = z.object({
+  name: FlowNameSchema.describe("Name of a flow recorded in the side panel"),
+  startAt: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe("Index of the first step to run, e.g. to resume after a failure"),
+  params: z
+    .record(z.string())
+    .optional()
+    .describe(
+      'Values for the sensitive fields the flow recorded as placeholders, e.g. { "step2": "hunter2" }'
+    ),
+});
+
+// Audit Schemas
+const AuditTimeSchema = z
+  .union([z.number().int().min(0), z.string().datetime()])
+  .describe("Unix time in milliseconds or an ISO 8601 date-time");
+
+export const AuditQuerySchema = z.object({
+  since: AuditTimeSchema.optional(),
+  until: AuditTimeSchema.optional(),
+  tool: z.string().min(1, "Tool name cannot be empty").optional(),
+  domain: z
+    .string()
+    .min(1, "Domain cannot be empty")
+    .optional()
+    .describe("Only entries for this domain or its subdomains"),
+  outcome: z
+    .enum([
+      "allowed",
+      "denied",
+      "approval_requested",
+      "approval_granted",
+      "approval_denied",
+      "succeeded",
+      "failed",
+    ])
+    .optional(),
+  limit: z
+    .number()
+    .int()
+    .positive("Limit must be a positive integer")
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe("Most recent matching entries to return"),
+});
+
+// Policy Schemas
+export const PolicyExplainSchema = z.object({
+  url: z.string().url("Must be a valid URL"),
+  tool: z
+    .string()
+    .min(1, "Tool name cannot be empty")
+    .describe("Tool whose call on the URL should be explained, e.g. click"),
+});
+
+// Client Schemas
+export const ClientsListSchema = z.object({});
+
+// Optional routing arguments accepted by every tool that talks to a browser
+export const ClientTargetSchema = z.object({
+  clientId: z
+    .string()
+    .min(1, "Client ID cannot be empty")
+    .optional()
+    .describe("Extension client id from clients_list"),
+  profile: z
+    .string()
+    .min(1, "Profile cannot be empty")
+    .optional()
+    .describe("Profile label of the browser to use"),
+});
+
+// Utility Schemas
+export const ScreenshotSchema = z
+  .object({
+    selector: z
+      .string()
+      .min(1, "Selector cannot be empty")
+      .optional()
+      .describe(
+        "Element to capture; with highlight the element is outlined in a viewport or full-page capture instead"
+      ),
+    ref: ElementRefSchema.optional(),
+    locator: LocatorSchema.optional(),
+    fullPage: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Capture the whole scrollable page instead of the viewport"),
+    clip: z
+      .object({
+        x: z.number().nonnegative(),
+        y: z.number().nonnegative(),
+        width: z.number().positive(),
+        height: z.number().positive(),
+      })
+      .optional()
+      .describe("Region to capture in CSS pixels, relative to the viewport"),
+    format: z.enum(["png", "jpeg", "webp"]).optional().default("png"),
+    quality: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Compression quality for jpeg and webp"),
+    highlight: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Outline the target element instead of cropping to it"),
+    return: z
+      .enum(["inline", "file", "both"])
+      .optional()
+      .default("inline")
+      .describe(
+        "inline returns the image to the agent, file saves it to screenshotDir and returns the path"
+      ),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+    filename: z
+      .string()
+      .optional()
+      .describe("File name inside screenshotDir when saving to a file"),
+  })
+  .refine(
+    (input) =>
+      [input.selector, input.ref, input.locator].filter(
+        (target) => target !== undefined
+      ).length <= 1,
+    {
+      message: "Provide at most one of selector, ref or locator",
+      path: ["selector"],
+    }
+  )
+  .refine(
+    (input) =>
+      [
+        input.fullPage,
+        input.clip !== undefined,
+        (input.selector ?? input.ref ?? input.locator) !== undefined &&
+          !input.highlight,
+      ].filter(Boolean).length <= 1,
+    {
+      message:
+        "fullPage, clip and an element capture are exclusive; use highlight to mark an element in a wider capture",
+      path: ["fullPage"],
+    }
+  )
+  .refine((input) => input.quality === undefined || input.format !== "png", {
+    message: "quality only applies to jpeg and webp",
+    path: ["quality"],
+  });
+
+export const ScreenshotAnnotatedSchema = z
+  .object({
+    format: z.enum(["png", "jpeg", "webp"]).optional().default("png"),
+    quality: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Compression quality for jpeg and webp"),
+    maxMarks: z
+      .number()
+      .int()
+      .positive()
+      .max(500)
+      .optional()
+      .default(100)
+      .describe("Most elements to mark, in reading order"),
+    return: z
+      .enum(["inline", "file", "both"])
+      .optional()
+      .default("inline")
+      .describe(
+        "inline returns the image to the agent, file saves it to screenshotDir and returns the path"
+      ),
+    tabId: z
+      .number()
+      .int()
+      .positive("Tab ID must be a positive integer")
+      .optional(),
+    filename: z
+      .string()
+      .optional()
+      .describe("File name inside screenshotDir when saving to a file"),
+  })
+  .refine((input) => input.quality === undefined || input.format !== "png", {
+    message: "quality only applies to jpeg and webp",
+    path: ["quality"],
+  });
+
 export const DownloadCurrentSchema = z.object({
   tabId: z
     .number()
@@ -295,33 +1402,65 @@ export const DownloadCurrentSchema = z.object({
 // Configuration Validation Schemas
 // ============================================================================
 
+// Policy URL patterns: scheme, host, port and path of PolicyRule.match
+export const POLICY_PATTERN =
+  /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}|\*))?(\/\S*)?$/i;
+
+export const PolicyPatternSchema = z
+  .string()
+  .regex(
+    POLICY_PATTERN,
+    "Expected [scheme://]host[:port][/path], e.g. https://*.example.com/app/**"
+  );
+
+const ToolPermissionsSchema = z.record(
+  z.string().min(1),
+  z.enum(["allow", "deny", "approval"])
+);
+
 export const DomainPolicySchema = z.object({
   read: z.boolean(),
   write: z.boolean(),
   requiresApproval: z.boolean().optional(),
   maxStepsPerHour: z.number().int().positive().optional(),
+  tools: ToolPermissionsSchema.optional(),
+  evalJs: z.enum(["off", "isolated", "main", "approval"]).optional(),
+});
+
+export const PolicyRuleSchema = DomainPolicySchema.partial().extend({
+  match: PolicyPatternSchema,
+  deny: z.boolean().optional(),
+  description: z.string().optional(),
 });
 
+export const OperationModeSchema = z.enum(["auto", "ask", "readonly"]);
+
 export const LoggingConfigSchema = z.object({
   level: z.enum(["debug", "info", "warn", "error"]),
   maxLogSize: z.number().int().positive(),
   retentionDays: z.number().int().positive(),
+  dir: z.string().min(1).optional(),
 });
 
 export const ConfigurationSchema = z.object({
-  allowlist: z.record(z.string(), DomainPolicySchema),
+  allowlist: z.record(PolicyPatternSchema, DomainPolicySchema),
+  rules: z.array(PolicyRuleSchema).optional(),
   sensitivePatterns: z.array(z.string()),
   stepBudget: z.number().int().positive(),
   toolTimeoutMs: z.number().int().positive(),
   screenshotDir: z.string().min(1),
   downloadDir: z.string().min(1),
   logging: LoggingConfigSchema,
+  // Extension ids allowed to open the bridge; any chrome-extension:// origin when unset
+  allowedExtensionIds: z.array(z.string().min(1)).optional(),
+  screenshotMaxDimension: z.number().int().min(100).optional(),
 });
 
 // ============================================================================
 // Type Exports for Schema Inference
 // ============================================================================
 
+export type LoadState = z.infer<typeof LoadStateSchema>;
 export type OpenTabInput = z.infer<typeof OpenTabSchema>;
 export type NavigateInput = z.infer<typeof NavigateSchema>;
 export type GetUrlInput = z.infer<typeof GetUrlSchema>;
@@ -330,13 +1469,37 @@ export type GoForwardInput = z.infer<typeof GoForwardSchema>;
 export type ReloadInput = z.infer<typeof ReloadSchema>;
 export type TabsListInput = z.infer<typeof TabsListSchema>;
 export type TabActivateInput = z.infer<typeof TabActivateSchema>;
+export type Locator = z.infer<typeof LocatorSchema>;
 export type ClickInput = z.infer<typeof ClickSchema>;
 export type TypeTextInput = z.infer<typeof TypeTextSchema>;
 export type ReadTextInput = z.infer<typeof ReadTextSchema>;
 export type ReadDomInput = z.infer<typeof ReadDomSchema>;
 export type WaitForInput = z.infer<typeof WaitForSchema>;
+export type PressKeysInput = z.infer<typeof PressKeysSchema>;
+export type HoverInput = z.infer<typeof HoverSchema>;
+export type DoubleClickInput = z.infer<typeof DoubleClickSchema>;
+export type RightClickInput = z.infer<typeof RightClickSchema>;
+export type DragEndpoint = z.infer<typeof DragEndpointSchema>;
+export type DragAndDropInput = z.infer<typeof DragAndDropSchema>;
+export type ScrollInput = z.infer<typeof ScrollSchema>;
+export type FormField = z.infer<typeof FormFieldSchema>;
+export type FillFormInput = z.infer<typeof FillFormSchema>;
+export type ExtractInput = z.infer<typeof ExtractSchema>;
+export type PageSnapshotInput = z.infer<typeof PageSnapshotSchema>;
+export type NetworkListInput = z.infer<typeof NetworkListSchema>;
+export type NetworkGetInput = z.infer<typeof NetworkGetSchema>;
+export type NetworkClearInput = z.infer<typeof NetworkClearSchema>;
+export type ConsoleLogsInput = z.infer<typeof ConsoleLogsSchema>;
+export type RunFlowInput = z.infer<typeof RunFlowSchema>;
 export type EvalJsInput = z.infer<typeof EvalJsSchema>;
+export type ClientsListInput = z.infer<typeof ClientsListSchema>;
+export type AuditQueryInput = z.infer<typeof AuditQuerySchema>;
+export type PolicyExplainInput = z.infer<typeof PolicyExplainSchema>;
+export type ClientTargetInput = z.infer<typeof ClientTargetSchema>;
 export type ScreenshotInput = z.infer<typeof ScreenshotSchema>;
+export type ScreenshotAnnotatedInput = z.infer<
+  typeof ScreenshotAnnotatedSchema
+>;
 export type DownloadCurrentInput = z.infer<typeof DownloadCurrentSchema>;
 
 // ============================================================================
@@ -356,7 +1519,27 @@ export interface MCPTool {
 
 export const WEBSOCKET_PORT = 8777;
 export const DEFAULT_TIMEOUT_MS = 5000;
+export const SCREENSHOT_MAX_DIMENSION = 2000; // pixels, longest edge
 export const MAX_STEP_BUDGET = 100;
+export const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+export const BRIDGE_TIMEOUT_MARGIN_MS = 5000; // beyond a command's own wait
+export const NETWORK_BUFFER_SIZE = 500; // requests kept per tab
+export const NETWORK_MAX_BODY_CHARS = 100000;
+export const CONSOLE_BUFFER_SIZE = 1000; // entries kept per tab
+export const FLOW_FORMAT_VERSION = 1;
+export const FLOWS_DIRNAME = "flows";
+export const AUDIT_LOG_DIRNAME = "logs";
+export const FLOW_REPLAY_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+export const BRIDGE_PROTOCOL_VERSION = 1;
+export const BRIDGE_SECRET_FILENAME = "bridge-secret";
+export const BRIDGE_HANDSHAKE_TIMEOUT_MS = 5000;
+
+// WebSocket close codes used when the bridge refuses a connection
+export const BRIDGE_CLOSE_CODES = {
+  UNAUTHORIZED: 4001,
+  PROTOCOL_MISMATCH: 4002,
+  HANDSHAKE_TIMEOUT: 4003,
+} as const;
 export const SENSITIVE_FIELD_PATTERNS = [
   "password",
   "passwd",